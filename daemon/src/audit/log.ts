@@ -0,0 +1,156 @@
+import { existsSync, statSync } from "node:fs";
+import { appendFile, readFile, rename, unlink } from "node:fs/promises";
+import { join } from "node:path";
+import type { FastifyBaseLogger, FastifyReply, FastifyRequest } from "fastify";
+import type { AuditEntry, AuditQuery } from "./types.js";
+import type { RelayConfig } from "../config.js";
+import { CONFIG_DIR } from "../config.js";
+
+declare module "fastify" {
+  interface FastifyRequest {
+    /** Extra context a route attaches to its audit entry (e.g. the session it created). */
+    auditDetail: Record<string, unknown> | null;
+  }
+}
+
+const AUDIT_PATH = join(CONFIG_DIR, "audit.jsonl");
+
+/** audit.1.jsonl is the most recent rotated file, audit.<maxFiles>.jsonl the oldest. */
+function rotatedPath(n: number): string {
+  return join(CONFIG_DIR, `audit.${n}.jsonl`);
+}
+
+/**
+ * Append-only audit trail of remote actions, one JSON object per line in
+ * audit.jsonl under CONFIG_DIR. When the file would exceed the configured
+ * size it is rotated to audit.1.jsonl, audit.2.jsonl, ... keeping
+ * `audit.maxFiles` old files. Writes are serialized through a promise chain.
+ */
+export class AuditLog {
+  private log: FastifyBaseLogger;
+  private maxBytes: number;
+  private maxFiles: number;
+  private size = 0;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(config: RelayConfig, log: FastifyBaseLogger) {
+    this.log = log.child({ module: "audit" });
+    this.maxBytes = config.audit.maxSizeMb * 1024 * 1024;
+    this.maxFiles = config.audit.maxFiles;
+  }
+
+  load(): void {
+    this.size = existsSync(AUDIT_PATH) ? statSync(AUDIT_PATH).size : 0;
+  }
+
+  /** Wait for pending writes (used on shutdown). */
+  async stop(): Promise<void> {
+    await this.writeChain;
+  }
+
+  /** Append an entry. Never throws — a failed write is logged and dropped. */
+  record(entry: Omit<AuditEntry, "time">): void {
+    const line = JSON.stringify({ time: new Date().toISOString(), ...entry }) + "\n";
+    this.writeChain = this.writeChain
+      .then(() => this.append(line))
+      .catch((err) => {
+        this.log.warn({ err, action: entry.action }, "Failed to write audit entry");
+      });
+  }
+
+  /**
+   * Entries within [since, until], oldest first. When more than `limit`
+   * match, the most recent `limit` are returned.
+   */
+  async query({ since, until, limit }: AuditQuery): Promise<AuditEntry[]> {
+    await this.writeChain;
+
+    const files: string[] = [];
+    for (let n = this.maxFiles; n >= 1; n--) files.push(rotatedPath(n));
+    files.push(AUDIT_PATH);
+
+    const matches: AuditEntry[] = [];
+    for (const file of files) {
+      if (!existsSync(file)) continue;
+      const raw = await readFile(file, "utf-8");
+      for (const line of raw.split("\n")) {
+        if (!line) continue;
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line) as AuditEntry;
+        } catch {
+          continue; // Torn write — skip
+        }
+        const time = Date.parse(entry.time);
+        if (since && time < since.getTime()) continue;
+        if (until && time > until.getTime()) continue;
+        matches.push(entry);
+      }
+    }
+
+    return matches.slice(-limit);
+  }
+
+  private async append(line: string): Promise<void> {
+    const bytes = Buffer.byteLength(line, "utf-8");
+    if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      await this.rotate();
+    }
+    await appendFile(AUDIT_PATH, line, { mode: 0o600 });
+    this.size += bytes;
+  }
+
+  private async rotate(): Promise<void> {
+    if (existsSync(rotatedPath(this.maxFiles))) {
+      await unlink(rotatedPath(this.maxFiles));
+    }
+    for (let n = this.maxFiles - 1; n >= 1; n--) {
+      if (existsSync(rotatedPath(n))) {
+        await rename(rotatedPath(n), rotatedPath(n + 1));
+      }
+    }
+    await rename(AUDIT_PATH, rotatedPath(1));
+    this.size = 0;
+    this.log.info("Rotated audit log");
+  }
+}
+
+/**
+ * onResponse hook: record every mutating request, plus any request refused
+ * for bad credentials or lockout (those are worth seeing even on GETs).
+ */
+export function createAuditHook(audit: AuditLog) {
+  return async function auditRequest(
+    request: FastifyRequest,
+    reply: FastifyReply,
+  ): Promise<void> {
+    const denied = reply.statusCode === 401 || reply.statusCode === 429;
+    if (!denied && (request.method === "GET" || request.method === "HEAD" || request.method === "OPTIONS")) {
+      return;
+    }
+
+    const route = request.routeOptions.url ?? request.url.split("?")[0];
+    // Hook events arrive for every tool call — session state, not an action
+    if (!denied && route === "/api/hooks") return;
+    const params = (request.params ?? {}) as Record<string, string>;
+    const detail = { ...request.auditDetail };
+
+    // Session routes identify the session by :id (or :sessionId for the WS)
+    let sessionId = route.startsWith("/api/sessions/:id") ? params.id : params.sessionId;
+    if (typeof detail.sessionId === "string") {
+      sessionId = detail.sessionId;
+      delete detail.sessionId;
+    }
+    if (params.id && !sessionId) detail.id = params.id;
+
+    audit.record({
+      action: `${request.method} ${route}`,
+      ip: request.ip,
+      deviceId: request.device?.id ?? null,
+      deviceName: request.device?.name ?? null,
+      ...(sessionId ? { sessionId } : {}),
+      status: reply.statusCode,
+      ...(Object.keys(detail).length > 0 ? { detail } : {}),
+    });
+  };
+}
@@ -0,0 +1,21 @@
+/** One line of the audit log. */
+export interface AuditEntry {
+  time: string; // ISO 8601
+  /** What happened — "<METHOD> <route>" for REST calls, e.g. "POST /api/sessions/:id/kill", or "terminal.attach" / "terminal.detach". */
+  action: string;
+  ip: string | null;
+  /** Device that acted, or null for the PSK / unauthenticated callers. */
+  deviceId: string | null;
+  deviceName: string | null;
+  sessionId?: string;
+  /** HTTP status code for REST calls. */
+  status?: number;
+  /** Action-specific extras, e.g. route params or detach reason. */
+  detail?: Record<string, unknown>;
+}
+
+export interface AuditQuery {
+  since?: Date;
+  until?: Date;
+  limit: number;
+}
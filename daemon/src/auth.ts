@@ -1,6 +1,16 @@
-import type { FastifyRequest, FastifyReply } from "fastify";
+import type { FastifyRequest, FastifyReply, FastifyBaseLogger } from "fastify";
 import type { RelayConfig } from "./config.js";
-import { timingSafeEqual, randomBytes } from "node:crypto";
+import type { DeviceRegistry } from "./devices/registry.js";
+import type { Device } from "./devices/types.js";
+import type { AttachMode } from "./terminal/client.js";
+import { timingSafeEqual, randomBytes, randomInt, createHmac } from "node:crypto";
+
+declare module "fastify" {
+  interface FastifyRequest {
+    /** Device that made the request, or null when authenticated with the PSK. */
+    device: Device | null;
+  }
+}
 
 const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
 
@@ -17,13 +27,38 @@ export function verifyPsk(psk: string, expected: string): boolean {
   return timingSafeEqual(a, b);
 }
 
+/**
+ * Bearer token for POST /api/hooks. Derived from the PSK so there's nothing
+ * extra to store and the PSK itself never lands in Claude's settings.json;
+ * rotating the PSK rotates it too.
+ */
+export function hookToken(config: RelayConfig): string {
+  return createHmac("sha256", config.auth.psk).update("claude-conduit hooks").digest("base64url");
+}
+
+/** Whether the request comes from this machine (loopback, or our own address). */
+function isLocalRequest(request: FastifyRequest): boolean {
+  const remote = request.socket.remoteAddress ?? "";
+  if (remote === "::1" || /^(::ffff:)?127\./.test(remote)) return true;
+  return remote === request.socket.localAddress;
+}
+
+/** What an attach token grants: a session, in a mode, on behalf of the device that requested it. */
+export interface AttachGrant {
+  sessionId: string;
+  device: Device | null;
+  mode: AttachMode;
+  /** Evict the current controller on connect. */
+  takeover: boolean;
+}
+
 /**
  * Short-lived attach tokens.
  * POST /attach generates a token; WS /terminal validates it.
  * Prevents bypassing conflict checks by connecting directly to WS.
  */
 export class AttachTokens {
-  private tokens = new Map<string, { sessionId: string; expires: number }>();
+  private tokens = new Map<string, AttachGrant & { expires: number }>();
   private cleanupTimer: ReturnType<typeof setInterval>;
 
   constructor() {
@@ -32,22 +67,35 @@ export class AttachTokens {
   }
 
   /** Generate a single-use token for a session (60s TTL). */
-  generate(sessionId: string): string {
+  generate(
+    sessionId: string,
+    device: Device | null,
+    mode: AttachMode = "control",
+    takeover = false,
+  ): string {
     const token = randomBytes(24).toString("base64url");
     this.tokens.set(token, {
       sessionId,
+      device,
+      mode,
+      takeover,
       expires: Date.now() + 60_000,
     });
     return token;
   }
 
-  /** Validate and consume a token. Returns session ID or null. */
-  consume(token: string): string | null {
+  /** Validate and consume a token. Returns the grant or null. */
+  consume(token: string): AttachGrant | null {
     const entry = this.tokens.get(token);
     if (!entry) return null;
     this.tokens.delete(token);
     if (Date.now() > entry.expires) return null;
-    return entry.sessionId;
+    return {
+      sessionId: entry.sessionId,
+      device: entry.device,
+      mode: entry.mode,
+      takeover: entry.takeover,
+    };
   }
 
   stop(): void {
@@ -64,39 +112,279 @@ export class AttachTokens {
   }
 }
 
-export function createAuthHook(config: RelayConfig) {
-  const expectedPsk = config.auth.psk;
+// Unambiguous alphabet (no 0/O, 1/I/L) — codes are read off a terminal and typed by hand
+const PAIRING_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const PAIRING_CODE_LENGTH = 8;
+const PAIRING_TTL_MS = 5 * 60_000;
+
+/** Normalize a user-entered pairing code: uppercase, strip dashes and spaces. */
+export function normalizePairingCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, "");
+}
+
+/**
+ * One-time pairing codes for onboarding a new device.
+ * Same idea as AttachTokens, but short enough to type: a code is minted on
+ * the Mac (startup banner or `npm run pair`) and exchanged once by the app
+ * for a device credential.
+ */
+export class PairingCodes {
+  private codes = new Map<string, number>(); // code -> expires
+  private cleanupTimer: ReturnType<typeof setInterval>;
+
+  constructor() {
+    // Prune expired codes every 30s
+    this.cleanupTimer = setInterval(() => this.prune(), 30_000);
+  }
+
+  /** Generate a single-use pairing code (5 min TTL). */
+  generate(): { code: string; expiresAt: Date } {
+    let code = "";
+    for (let i = 0; i < PAIRING_CODE_LENGTH; i++) {
+      code += PAIRING_ALPHABET[randomInt(PAIRING_ALPHABET.length)];
+    }
+    const expires = Date.now() + PAIRING_TTL_MS;
+    this.codes.set(code, expires);
+    return { code, expiresAt: new Date(expires) };
+  }
+
+  /** Validate and consume a code. Returns true if it was valid and unexpired. */
+  consume(code: string): boolean {
+    const normalized = normalizePairingCode(code);
+    const expires = this.codes.get(normalized);
+    if (expires === undefined) return false;
+    this.codes.delete(normalized);
+    return Date.now() <= expires;
+  }
+
+  stop(): void {
+    clearInterval(this.cleanupTimer);
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [code, expires] of this.codes) {
+      if (now > expires) {
+        this.codes.delete(code);
+      }
+    }
+  }
+}
+
+const LOCKOUT_HISTORY_MS = 24 * 60 * 60_000;
+
+interface LockoutEntry {
+  failures: number; // consecutive failures since the last lockout
+  strikes: number; // lockouts so far — each one doubles the next
+  lockedUntil: number;
+  lastFailure: number;
+}
+
+/**
+ * Per-IP failed-auth tracking with exponential lockout.
+ * After `authMaxFailures` consecutive failures an IP is locked out for
+ * `authLockoutSeconds`, doubling with each repeat lockout up to
+ * `authMaxLockoutSeconds`. An IP is forgiven once it has been quiet for
+ * the maximum lockout period.
+ */
+export class AuthLockouts {
+  private log: FastifyBaseLogger;
+  private entries = new Map<string, LockoutEntry>(); // ip -> entry
+  private history: number[] = []; // lockout start times, last 24h
+  private cleanupTimer: ReturnType<typeof setInterval>;
+
+  constructor(
+    private limits: RelayConfig["rateLimit"],
+    log: FastifyBaseLogger,
+  ) {
+    this.log = log.child({ module: "lockouts" });
+    // Prune forgiven IPs and old history every 60s
+    this.cleanupTimer = setInterval(() => this.prune(), 60_000);
+  }
+
+  /** Seconds until the IP may retry, or 0 if it isn't locked out. */
+  retryAfter(ip: string): number {
+    const entry = this.entries.get(ip);
+    if (!entry) return 0;
+    const remaining = entry.lockedUntil - Date.now();
+    return remaining > 0 ? Math.ceil(remaining / 1000) : 0;
+  }
+
+  /** Record a failed attempt. Returns the lockout length in seconds if this failure triggered one. */
+  recordFailure(ip: string): number | null {
+    const now = Date.now();
+    const entry = this.entries.get(ip) ?? {
+      failures: 0,
+      strikes: 0,
+      lockedUntil: 0,
+      lastFailure: 0,
+    };
+    entry.failures++;
+    entry.lastFailure = now;
+    this.entries.set(ip, entry);
+
+    if (entry.failures < this.limits.authMaxFailures) return null;
+
+    const seconds = Math.min(
+      this.limits.authLockoutSeconds * 2 ** entry.strikes,
+      this.limits.authMaxLockoutSeconds,
+    );
+    entry.failures = 0;
+    entry.strikes++;
+    entry.lockedUntil = now + seconds * 1000;
+    this.history.push(now);
+    this.log.warn({ ip, seconds, strikes: entry.strikes }, "Locked out after repeated auth failures");
+    return seconds;
+  }
+
+  /** A successful auth clears the IP's failure count. */
+  recordSuccess(ip: string): void {
+    this.entries.delete(ip);
+  }
+
+  /** Aggregate view for /api/status — no IPs, since that endpoint is unauthenticated. */
+  summary(): { active: number; last24h: number; lastLockoutAt: string | null } {
+    const now = Date.now();
+    let active = 0;
+    for (const entry of this.entries.values()) {
+      if (entry.lockedUntil > now) active++;
+    }
+    const recent = this.history.filter((t) => now - t <= LOCKOUT_HISTORY_MS);
+    const last = recent[recent.length - 1];
+    return {
+      active,
+      last24h: recent.length,
+      lastLockoutAt: last ? new Date(last).toISOString() : null,
+    };
+  }
+
+  stop(): void {
+    clearInterval(this.cleanupTimer);
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    const forgiveMs = this.limits.authMaxLockoutSeconds * 1000;
+    for (const [ip, entry] of this.entries) {
+      if (entry.lockedUntil <= now && now - entry.lastFailure > forgiveMs) {
+        this.entries.delete(ip);
+      }
+    }
+    this.history = this.history.filter((t) => now - t <= LOCKOUT_HISTORY_MS);
+  }
+}
+
+/** Send a 429 for a locked-out IP. */
+export function sendLockedOut(reply: FastifyReply, retryAfter: number): void {
+  reply.code(429).header("Retry-After", String(retryAfter)).send({
+    error: "TOO_MANY_ATTEMPTS",
+    message: "Too many failed authentication attempts from this address",
+    action: `Wait ${retryAfter}s, then check your credentials and try again`,
+  });
+}
+
+/**
+ * Resolve a bearer token to its caller. Device credentials are checked first;
+ * the PSK stays valid as a fallback for bootstrapping new devices.
+ * Returns null if the token matches neither.
+ */
+export function resolveCredential(
+  token: string,
+  ip: string,
+  config: RelayConfig,
+  devices: DeviceRegistry,
+): { device: Device | null } | null {
+  const device = devices.authenticate(token, ip);
+  if (device) return { device };
+  if (verifyPsk(token, config.auth.psk)) return { device: null };
+  return null;
+}
+
+export function createAuthHook(
+  config: RelayConfig,
+  devices: DeviceRegistry,
+  lockouts: AuthLockouts,
+) {
 
   return async function authenticate(
     request: FastifyRequest,
     reply: FastifyReply,
   ): Promise<void> {
-    // Skip auth for status endpoint and WS upgrade (WS has its own auth)
+    // Skip auth for status endpoint
     if (request.url === "/api/status") return;
+
+    // Locked-out IPs are refused everywhere else, including the WS upgrade
+    // and pairing exchange, before any credential is looked at
+    const retryAfter = lockouts.retryAfter(request.ip);
+    if (retryAfter > 0) {
+      sendLockedOut(reply, retryAfter);
+      return;
+    }
+
+    // Skip auth for pairing exchange (the code is the credential)
+    // and WS upgrade (WS has its own auth)
+    if (request.url === "/api/pairing/exchange") return;
     if (request.url.startsWith("/terminal/")) return;
 
+    // Claude Code hooks post from this machine with their own token
+    if (request.url === "/api/hooks") {
+      if (!isLocalRequest(request)) {
+        reply.code(403).send({
+          error: "FORBIDDEN",
+          message: "Hook events are only accepted from this machine",
+          action: "Point the hook at 127.0.0.1",
+        });
+        return;
+      }
+      const token = request.headers.authorization?.startsWith("Bearer ")
+        ? request.headers.authorization.slice(7)
+        : "";
+      // Not counted toward the lockout: a stale hook config fires on every
+      // tool call and would lock out 127.0.0.1, CLI and all, while only
+      // local processes can reach this route anyway
+      if (!verifyPsk(token, hookToken(config))) {
+        request.log.warn({ ip: request.ip }, "Failed hook authentication attempt");
+        reply.code(401).send({
+          error: "UNAUTHORIZED",
+          message: "Missing or invalid hook token",
+          action: "Regenerate the hook config with `npm run hooks`",
+        });
+        return;
+      }
+      return;
+    }
+
     const authHeader = request.headers.authorization;
     if (!authHeader?.startsWith("Bearer ")) {
       reply.code(401).send({
         error: "UNAUTHORIZED",
         message: "Missing or invalid Authorization header",
-        action: "Include 'Authorization: Bearer <psk>' header",
+        action: "Include 'Authorization: Bearer <credential>' header",
       });
       return;
     }
 
     const token = authHeader.slice(7);
-    if (!verifyPsk(token, expectedPsk)) {
+    const caller = resolveCredential(token, request.ip, config, devices);
+    if (!caller) {
       request.log.warn(
         { ip: request.ip },
         "Failed authentication attempt",
       );
+      const lockedFor = lockouts.recordFailure(request.ip);
+      if (lockedFor) {
+        sendLockedOut(reply, lockedFor);
+        return;
+      }
       reply.code(401).send({
         error: "UNAUTHORIZED",
-        message: "Invalid pre-shared key",
+        message: "Invalid device credential or pre-shared key",
         action: "Check your relay key in the app settings",
       });
       return;
     }
+
+    lockouts.recordSuccess(request.ip);
+    request.device = caller.device;
   };
 }
@@ -0,0 +1,137 @@
+import http from "node:http";
+import https from "node:https";
+import { rootCertificates, type PeerCertificate } from "node:tls";
+import type { RelayConfig } from "./config.js";
+import type { TlsMaterial } from "./tls.js";
+import { loadConfig } from "./config.js";
+import { printPairingBanner } from "./pairing.js";
+import { loadTlsMaterial, normalizeFingerprint, publicKeyPin } from "./tls.js";
+import { hookToken } from "./auth.js";
+import { HOOK_EVENTS } from "./sessions/hooks.js";
+
+/**
+ * Helper commands that talk to the running daemon over localhost.
+ * Usage: node dist/cli.js <command>
+ */
+
+const USAGE = `Usage: node dist/cli.js <command>
+
+Commands:
+  pair    Mint a one-time pairing code and print it as a QR code
+  hooks   Print Claude Code hook settings that report session state to the daemon
+`;
+
+/** Base URL of the local daemon — loopback unless it listens on one address only. */
+function daemonUrl(config: RelayConfig, tls: TlsMaterial | null): string {
+  const host = config.host === "0.0.0.0" || config.host === "::" ? "127.0.0.1" : config.host;
+  return `${tls ? "https" : "http"}://${host}:${config.port}`;
+}
+
+/**
+ * POST to the local daemon with the PSK. Over TLS, the daemon's certificate
+ * is pinned to the one in the config dir during the handshake, before the
+ * PSK is sent. The cert is added as a trust anchor so self-signed ones verify.
+ */
+async function postToDaemon(
+  config: RelayConfig,
+  path: string,
+): Promise<{ status: number; body: string }> {
+  const tls = await loadTlsMaterial(config);
+  const url = `${daemonUrl(config, tls)}${path}`;
+  const options: https.RequestOptions = {
+    method: "POST",
+    headers: { Authorization: `Bearer ${config.auth.psk}` },
+  };
+  if (tls) {
+    options.ca = [...rootCertificates, tls.cert];
+    options.checkServerIdentity = (_host: string, cert: PeerCertificate) =>
+      normalizeFingerprint(cert.fingerprint256) === normalizeFingerprint(tls.fingerprint)
+        ? undefined
+        : new Error(`Certificate presented by ${url} does not match ${config.tls.certPath}`);
+  }
+
+  return new Promise((resolve, reject) => {
+    const onResponse = (res: http.IncomingMessage): void => {
+      let body = "";
+      res.setEncoding("utf-8");
+      res.on("data", (chunk: string) => (body += chunk));
+      res.on("end", () => resolve({ status: res.statusCode ?? 0, body }));
+    };
+
+    const req = tls
+      ? https.request(url, options, onResponse)
+      : http.request(url, options, onResponse);
+    req.on("error", (err) => {
+      reject(new Error(`Cannot reach the daemon at ${url} — is it running? (${err.message})`));
+    });
+    req.end();
+  });
+}
+
+async function pair(): Promise<void> {
+  const config = loadConfig();
+  const res = await postToDaemon(config, "/api/pairing/codes");
+
+  if (res.status !== 200) {
+    throw new Error(`Daemon refused to mint a pairing code (HTTP ${res.status}): ${res.body}`);
+  }
+
+  const body = JSON.parse(res.body) as { code: string; expiresAt: string; payload: string };
+  printPairingBanner(body.payload, body.code, new Date(body.expiresAt));
+}
+
+/**
+ * Print a settings.json `hooks` block that pipes each hook's stdin JSON to
+ * POST /api/hooks with curl. Never blocks Claude: short timeout, and
+ * failures (daemon down) are ignored. Over TLS the daemon's public key is
+ * pinned instead of verifying the chain, so self-signed certs work.
+ */
+async function hooks(): Promise<void> {
+  const config = loadConfig();
+  if (!config.auth.psk) {
+    throw new Error("No PSK configured — set auth.psk in ~/.config/claude-conduit/config.yaml first");
+  }
+
+  const tls = await loadTlsMaterial(config);
+  const curl = [
+    "curl -s -o /dev/null --max-time 2",
+    ...(tls ? [`-k --pinnedpubkey 'sha256//${publicKeyPin(tls.cert)}'`] : []),
+    `-H 'Authorization: Bearer ${hookToken(config)}'`,
+    "-H 'Content-Type: application/json'",
+    `--data-binary @- ${daemonUrl(config, tls)}/api/hooks`,
+    "|| true",
+  ].join(" ");
+  const handler = { type: "command", command: curl };
+
+  const settings = {
+    hooks: Object.fromEntries(
+      HOOK_EVENTS.map((event) => [
+        event,
+        [event === "PreToolUse" ? { matcher: "*", hooks: [handler] } : { hooks: [handler] }],
+      ]),
+    ),
+  };
+
+  process.stderr.write("Merge this into ~/.claude/settings.json, then restart Claude Code:\n\n");
+  process.stdout.write(JSON.stringify(settings, null, 2) + "\n");
+}
+
+async function main(): Promise<void> {
+  const command = process.argv[2];
+  switch (command) {
+    case "pair":
+      await pair();
+      return;
+    case "hooks":
+      await hooks();
+      return;
+    default:
+      process.stdout.write(USAGE);
+      process.exit(command ? 1 : 0);
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -3,6 +3,30 @@ import { homedir } from "node:os";
 import { join } from "node:path";
 import { parse as parseYaml } from "yaml";
 import { randomBytes } from "node:crypto";
+import type { NotificationEvent, NotificationFilters } from "./notifications/types.js";
+import { NOTIFICATION_EVENTS } from "./notifications/types.js";
+import type { ModelPrice } from "./usage/types.js";
+import { DEFAULT_PRICES } from "./usage/usage.js";
+
+/** An outbound webhook POSTed on session state changes. */
+export interface WebhookConfig extends NotificationFilters {
+  url: string;
+  /** Extra request headers, e.g. Authorization. */
+  headers: Record<string, string>;
+  /** JSON body with {{placeholders}} in its strings; null sends the default payload. */
+  template: unknown;
+}
+
+/** A self-hosted push server that session notifications are published to. */
+export interface PushConfig extends NotificationFilters {
+  type: "ntfy" | "gotify";
+  /** ntfy: the topic URL (https://ntfy.sh/my-topic). Gotify: the server URL. */
+  url: string;
+  /** ntfy access token (optional) or Gotify application token. */
+  token: string;
+  /** Fixed priority instead of the per-event default (ntfy 1–5, Gotify 0–10). */
+  priority: number | null;
+}
 
 export interface RelayConfig {
   port: number;
@@ -11,6 +35,11 @@ export interface RelayConfig {
   auth: {
     psk: string;
   };
+  tls: {
+    enabled: boolean;
+    certPath: string;
+    keyPath: string;
+  };
   tmux: {
     defaultCols: number;
     defaultRows: number;
@@ -25,6 +54,28 @@ export interface RelayConfig {
     attachPerSession: string;
     wsHeartbeat: number;
     wsMaxMissedPongs: number;
+    authMaxFailures: number;
+    authLockoutSeconds: number;
+    authMaxLockoutSeconds: number;
+  };
+  audit: {
+    maxSizeMb: number;
+    maxFiles: number;
+  };
+  recording: {
+    enabled: boolean;
+    maxAgeDays: number;
+    maxTotalMb: number;
+  };
+  notifications: {
+    webhooks: WebhookConfig[];
+    push: PushConfig[];
+    /** Retries after a failed delivery, with exponential backoff. */
+    retries: number;
+  };
+  usage: {
+    /** USD per million tokens, by model ID or model ID without its date snapshot. */
+    prices: Record<string, ModelPrice>;
   };
   projectDirs: string[];
 }
@@ -40,6 +91,11 @@ function defaults(): RelayConfig {
     auth: {
       psk: "",
     },
+    tls: {
+      enabled: false,
+      certPath: join(CONFIG_DIR, "tls", "cert.pem"),
+      keyPath: join(CONFIG_DIR, "tls", "key.pem"),
+    },
     tmux: {
       defaultCols: 120,
       defaultRows: 40,
@@ -54,6 +110,26 @@ function defaults(): RelayConfig {
       attachPerSession: "1/5s",
       wsHeartbeat: 30,
       wsMaxMissedPongs: 3,
+      authMaxFailures: 5,
+      authLockoutSeconds: 60,
+      authMaxLockoutSeconds: 3600,
+    },
+    audit: {
+      maxSizeMb: 10,
+      maxFiles: 5,
+    },
+    recording: {
+      enabled: false,
+      maxAgeDays: 30,
+      maxTotalMb: 1024,
+    },
+    notifications: {
+      webhooks: [],
+      push: [],
+      retries: 3,
+    },
+    usage: {
+      prices: { ...DEFAULT_PRICES },
     },
     projectDirs: [
       join(homedir(), "projects"),
@@ -78,6 +154,8 @@ port: ${config.port}
 host: "${config.host}"
 auth:
   psk: "${psk}"
+tls:
+  enabled: ${config.tls.enabled}
 tmux:
   defaultCols: ${config.tmux.defaultCols}
   defaultRows: ${config.tmux.defaultRows}
@@ -88,6 +166,16 @@ claude:
 rateLimit:
   wsHeartbeat: ${config.rateLimit.wsHeartbeat}
   wsMaxMissedPongs: ${config.rateLimit.wsMaxMissedPongs}
+  authMaxFailures: ${config.rateLimit.authMaxFailures}
+  authLockoutSeconds: ${config.rateLimit.authLockoutSeconds}
+  authMaxLockoutSeconds: ${config.rateLimit.authMaxLockoutSeconds}
+audit:
+  maxSizeMb: ${config.audit.maxSizeMb}
+  maxFiles: ${config.audit.maxFiles}
+recording:
+  enabled: ${config.recording.enabled}
+  maxAgeDays: ${config.recording.maxAgeDays}
+  maxTotalMb: ${config.recording.maxTotalMb}
 `;
     writeFileSync(CONFIG_PATH, exampleYaml, { mode: 0o600 });
     return config;
@@ -102,6 +190,95 @@ rateLimit:
   }
 }
 
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+}
+
+/** The `events` and `projects` filters shared by webhooks and push targets. */
+function parseFilters(raw: Record<string, unknown>): NotificationFilters {
+  return {
+    events: stringList(raw.events).filter((e): e is NotificationEvent =>
+      NOTIFICATION_EVENTS.includes(e as NotificationEvent),
+    ),
+    projects: stringList(raw.projects).map(expandHome),
+  };
+}
+
+/** An http(s) URL that parses, or null. */
+function httpUrl(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:" ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Validate one `notifications.webhooks` entry; null if it has no usable URL. */
+function parseWebhook(raw: unknown): WebhookConfig | null {
+  if (!raw || typeof raw !== "object") return null;
+  const hook = raw as Record<string, unknown>;
+  const url = httpUrl(hook.url);
+  if (!url) return null;
+
+  const headers: Record<string, string> = {};
+  if (hook.headers && typeof hook.headers === "object") {
+    for (const [name, value] of Object.entries(hook.headers as Record<string, unknown>)) {
+      if (typeof value === "string") headers[name] = value;
+    }
+  }
+
+  return {
+    url,
+    ...parseFilters(hook),
+    headers,
+    template: hook.template ?? null,
+  };
+}
+
+/** Validate one `notifications.push` entry; null if it's unusable (Gotify needs a token). */
+function parsePush(raw: unknown): PushConfig | null {
+  if (!raw || typeof raw !== "object") return null;
+  const push = raw as Record<string, unknown>;
+  if (push.type !== "ntfy" && push.type !== "gotify") return null;
+  const url = httpUrl(push.url);
+  if (!url) return null;
+  const token = typeof push.token === "string" ? push.token : "";
+  if (push.type === "gotify" && !token) return null;
+
+  return {
+    type: push.type,
+    url: url.replace(/\/+$/, ""),
+    token,
+    ...parseFilters(push),
+    priority: typeof push.priority === "number" ? push.priority : null,
+  };
+}
+
+/** Validate one `usage.prices` entry; cache prices default to Anthropic's usual multiples of input. */
+function parsePrice(raw: unknown): ModelPrice | null {
+  if (!raw || typeof raw !== "object") return null;
+  const price = raw as Record<string, unknown>;
+  const rate = (value: unknown): number | null =>
+    typeof value === "number" && value >= 0 ? value : null;
+  const input = rate(price.input);
+  const output = rate(price.output);
+  if (input === null || output === null) return null;
+
+  return {
+    input,
+    output,
+    cacheWrite: rate(price.cacheWrite) ?? input * 1.25,
+    cacheRead: rate(price.cacheRead) ?? input * 0.1,
+  };
+}
+
+/** Resolve ~ in paths. */
+function expandHome(path: string): string {
+  return path.startsWith("~/") ? join(homedir(), path.slice(2)) : path;
+}
+
 function mergeConfig(
   base: RelayConfig,
   overrides: Record<string, unknown>,
@@ -117,6 +294,15 @@ function mergeConfig(
     result.auth = { ...result.auth, psk: auth.psk };
   }
 
+  const tls = overrides.tls as Record<string, unknown> | undefined;
+  if (tls) {
+    if (typeof tls.enabled === "boolean") result.tls.enabled = tls.enabled;
+    if (typeof tls.certPath === "string")
+      result.tls.certPath = expandHome(tls.certPath);
+    if (typeof tls.keyPath === "string")
+      result.tls.keyPath = expandHome(tls.keyPath);
+  }
+
   const tmux = overrides.tmux as Record<string, unknown> | undefined;
   if (tmux) {
     if (typeof tmux.defaultCols === "number")
@@ -143,6 +329,52 @@ function mergeConfig(
       result.rateLimit.wsHeartbeat = rateLimit.wsHeartbeat;
     if (typeof rateLimit.wsMaxMissedPongs === "number")
       result.rateLimit.wsMaxMissedPongs = rateLimit.wsMaxMissedPongs;
+    if (typeof rateLimit.authMaxFailures === "number")
+      result.rateLimit.authMaxFailures = rateLimit.authMaxFailures;
+    if (typeof rateLimit.authLockoutSeconds === "number")
+      result.rateLimit.authLockoutSeconds = rateLimit.authLockoutSeconds;
+    if (typeof rateLimit.authMaxLockoutSeconds === "number")
+      result.rateLimit.authMaxLockoutSeconds = rateLimit.authMaxLockoutSeconds;
+  }
+
+  const audit = overrides.audit as Record<string, unknown> | undefined;
+  if (audit) {
+    if (typeof audit.maxSizeMb === "number" && audit.maxSizeMb > 0)
+      result.audit.maxSizeMb = audit.maxSizeMb;
+    if (typeof audit.maxFiles === "number" && audit.maxFiles >= 1)
+      result.audit.maxFiles = Math.floor(audit.maxFiles);
+  }
+
+  const recording = overrides.recording as Record<string, unknown> | undefined;
+  if (recording) {
+    if (typeof recording.enabled === "boolean")
+      result.recording.enabled = recording.enabled;
+    if (typeof recording.maxAgeDays === "number" && recording.maxAgeDays > 0)
+      result.recording.maxAgeDays = recording.maxAgeDays;
+    if (typeof recording.maxTotalMb === "number" && recording.maxTotalMb > 0)
+      result.recording.maxTotalMb = recording.maxTotalMb;
+  }
+
+  const notifications = overrides.notifications as Record<string, unknown> | undefined;
+  if (notifications) {
+    if (Array.isArray(notifications.webhooks))
+      result.notifications.webhooks = notifications.webhooks
+        .map(parseWebhook)
+        .filter((w): w is WebhookConfig => w !== null);
+    if (Array.isArray(notifications.push))
+      result.notifications.push = notifications.push
+        .map(parsePush)
+        .filter((p): p is PushConfig => p !== null);
+    if (typeof notifications.retries === "number" && notifications.retries >= 0)
+      result.notifications.retries = Math.floor(notifications.retries);
+  }
+
+  const usage = overrides.usage as Record<string, unknown> | undefined;
+  if (usage?.prices && typeof usage.prices === "object") {
+    for (const [model, raw] of Object.entries(usage.prices as Record<string, unknown>)) {
+      const price = parsePrice(raw);
+      if (price) result.usage.prices[model] = price;
+    }
   }
 
   if (Array.isArray(overrides.projectDirs)) {
@@ -150,10 +382,7 @@ function mergeConfig(
       (d): d is string => typeof d === "string",
     );
     if (dirs.length > 0) {
-      // Resolve ~ in paths
-      result.projectDirs = dirs.map((d) =>
-        d.startsWith("~/") ? join(homedir(), d.slice(2)) : d,
-      );
+      result.projectDirs = dirs.map(expandHome);
     }
   }
 
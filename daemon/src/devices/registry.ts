@@ -0,0 +1,155 @@
+import { readFileSync, existsSync } from "node:fs";
+import { writeFile, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import type { FastifyBaseLogger } from "fastify";
+import type { Device, DeviceRecord, DeviceStore } from "./types.js";
+import { CONFIG_DIR } from "../config.js";
+
+const STORE_PATH = join(CONFIG_DIR, "devices.json");
+
+export const MAX_DEVICE_NAME = 64;
+
+function hashCredential(credential: string): string {
+  return createHash("sha256").update(credential, "utf-8").digest("base64url");
+}
+
+function toDevice(record: DeviceRecord): Device {
+  return {
+    id: record.id,
+    name: record.name,
+    createdAt: record.createdAt,
+    lastSeenAt: record.lastSeenAt,
+    lastSeenIp: record.lastSeenIp,
+  };
+}
+
+/**
+ * Registry of paired devices, each with its own long-lived credential.
+ * Persisted to devices.json under CONFIG_DIR. Credentials are only
+ * returned once, at registration; the store keeps their SHA-256 hash.
+ */
+export class DeviceRegistry {
+  private log: FastifyBaseLogger;
+  private devices = new Map<string, DeviceRecord>(); // id -> record
+  private byHash = new Map<string, DeviceRecord>(); // credentialHash -> record
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(log: FastifyBaseLogger) {
+    this.log = log.child({ module: "devices" });
+  }
+
+  load(): void {
+    if (!existsSync(STORE_PATH)) return;
+
+    try {
+      const raw = readFileSync(STORE_PATH, "utf-8");
+      const store = JSON.parse(raw) as DeviceStore;
+      if (store.version !== 1) return;
+
+      for (const record of store.devices) {
+        this.devices.set(record.id, record);
+        this.byHash.set(record.credentialHash, record);
+      }
+
+      this.log.info({ deviceCount: this.devices.size }, "Loaded device registry");
+    } catch (err) {
+      this.log.warn({ err }, "Failed to load device registry");
+    }
+  }
+
+  /** Flush any pending last-seen updates (used on shutdown). */
+  async stop(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      await this.saveNow().catch((err) => {
+        this.log.warn({ err }, "Failed to save device registry on shutdown");
+      });
+    }
+  }
+
+  list(): Device[] {
+    return Array.from(this.devices.values())
+      .map(toDevice)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  get(id: string): Device | undefined {
+    const record = this.devices.get(id);
+    return record ? toDevice(record) : undefined;
+  }
+
+  /** Register a new device. Returns the device and its credential (shown once). */
+  async register(name: string): Promise<{ device: Device; credential: string }> {
+    const credential = randomBytes(32).toString("base64url");
+    const record: DeviceRecord = {
+      id: randomUUID(),
+      name,
+      createdAt: new Date().toISOString(),
+      lastSeenAt: null,
+      lastSeenIp: null,
+      credentialHash: hashCredential(credential),
+    };
+
+    this.devices.set(record.id, record);
+    this.byHash.set(record.credentialHash, record);
+    await this.saveNow();
+
+    this.log.info({ deviceId: record.id, name }, "Device registered");
+    return { device: toDevice(record), credential };
+  }
+
+  /** Revoke a device. Returns false if no such device exists. */
+  async revoke(id: string): Promise<boolean> {
+    const record = this.devices.get(id);
+    if (!record) return false;
+
+    this.devices.delete(id);
+    this.byHash.delete(record.credentialHash);
+    await this.saveNow();
+
+    this.log.info({ deviceId: id, name: record.name }, "Device revoked");
+    return true;
+  }
+
+  /**
+   * Resolve a bearer credential to a device, recording last-seen time and IP.
+   * Returns null if the credential doesn't belong to any device.
+   */
+  authenticate(credential: string, ip: string): Device | null {
+    const record = this.byHash.get(hashCredential(credential));
+    if (!record) return null;
+
+    record.lastSeenAt = new Date().toISOString();
+    record.lastSeenIp = ip;
+    this.saveDebounced();
+    return toDevice(record);
+  }
+
+  /** Debounced save — last-seen updates happen on every request. */
+  private saveDebounced(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.saveNow().catch((err) => {
+        this.log.warn({ err }, "Failed to save device registry");
+      });
+    }, 5_000);
+  }
+
+  private async saveNow(): Promise<void> {
+    if (!existsSync(CONFIG_DIR)) {
+      await mkdir(CONFIG_DIR, { recursive: true, mode: 0o700 });
+    }
+
+    const store: DeviceStore = {
+      version: 1,
+      devices: Array.from(this.devices.values()),
+    };
+
+    await writeFile(STORE_PATH, JSON.stringify(store, null, 2), {
+      mode: 0o600,
+    });
+  }
+}
@@ -0,0 +1,18 @@
+/** A paired device as exposed over the API (never includes the credential). */
+export interface Device {
+  id: string;
+  name: string;
+  createdAt: string;
+  lastSeenAt: string | null;
+  lastSeenIp: string | null;
+}
+
+export interface DeviceRecord extends Device {
+  /** SHA-256 of the device credential (base64url). The credential itself is never stored. */
+  credentialHash: string;
+}
+
+export interface DeviceStore {
+  version: 1;
+  devices: DeviceRecord[];
+}
@@ -3,16 +3,45 @@ import fastifyWebsocket from "@fastify/websocket";
 import fastifyCors from "@fastify/cors";
 import type { WebSocket } from "ws";
 import { loadConfig } from "./config.js";
-import { createAuthHook, AttachTokens, verifyPsk, isValidSessionId } from "./auth.js";
+import {
+  createAuthHook,
+  AttachTokens,
+  PairingCodes,
+  AuthLockouts,
+  resolveCredential,
+  isValidSessionId,
+} from "./auth.js";
+import { DeviceRegistry } from "./devices/registry.js";
+import { AuditLog, createAuditHook } from "./audit/log.js";
+import { Recordings } from "./recording/recordings.js";
 import { SessionDiscovery } from "./sessions/discovery.js";
 import { SessionRegistry } from "./sessions/registry.js";
 import { TmuxManager } from "./tmux/manager.js";
 import { TerminalBridge } from "./terminal/bridge.js";
+import type { TerminalOrigin, AttachMode } from "./terminal/bridge.js";
+import { parseProtocolVersion } from "./terminal/protocol.js";
+import { PromptQueue } from "./queue/queue.js";
+import type { QueuedPrompt } from "./queue/types.js";
+import { SessionNotifier } from "./notifications/notifier.js";
+import { Webhooks } from "./notifications/webhooks.js";
+import { PushPublisher } from "./notifications/push.js";
+import type { SessionNotification } from "./notifications/types.js";
 import { registerStatusRoutes } from "./routes/status.js";
 import { registerSessionRoutes } from "./routes/sessions.js";
 import { registerAttachRoutes } from "./routes/attach.js";
 import { registerNewSessionRoutes } from "./routes/newSession.js";
 import { registerStreamRoutes } from "./routes/stream.js";
+import { registerSessionEventRoutes } from "./routes/events.js";
+import { registerDeviceRoutes } from "./routes/devices.js";
+import { registerPairingRoutes } from "./routes/pairing.js";
+import { registerAuditRoutes } from "./routes/audit.js";
+import { registerRecordingRoutes } from "./routes/recordings.js";
+import { registerQueueRoutes } from "./routes/queue.js";
+import { registerHookRoutes } from "./routes/hooks.js";
+import { registerNotificationRoutes } from "./routes/notifications.js";
+import { registerUsageRoutes } from "./routes/usage.js";
+import { pairingPayload, printPairingBanner } from "./pairing.js";
+import { loadTlsMaterial } from "./tls.js";
 
 async function main(): Promise<void> {
   const config = loadConfig();
@@ -24,7 +53,11 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  // Optional TLS — self-signed cert is generated on first run if none configured
+  const tls = await loadTlsMaterial(config);
+
   const app = Fastify({
+    https: tls ? { cert: tls.cert, key: tls.key } : null,
     logger: {
       level: process.env.LOG_LEVEL ?? "info",
       transport:
@@ -49,6 +82,10 @@ async function main(): Promise<void> {
 
   const log = app.log;
 
+  if (tls) {
+    log.info({ fingerprint: tls.fingerprint }, "TLS enabled");
+  }
+
   // CORS for mobile WebView
   await app.register(fastifyCors, {
     origin: true, // Allow all origins (single-user daemon)
@@ -58,30 +95,121 @@ async function main(): Promise<void> {
   // Register WebSocket support
   await app.register(fastifyWebsocket);
 
+  // Paired devices — each has its own credential; the PSK remains a bootstrap fallback
+  const devices = new DeviceRegistry(log);
+  devices.load();
+
   // Auth hook for REST routes (WS has its own auth via attach tokens)
-  const authHook = createAuthHook(config);
+  app.decorateRequest("device", null);
+  // Per-IP failed-auth lockouts, shared by REST, WS and pairing exchange
+  const lockouts = new AuthLockouts(config.rateLimit, log);
+  const authHook = createAuthHook(config, devices, lockouts);
   app.addHook("onRequest", authHook);
 
+  // Audit trail of mutating requests and auth failures
+  const audit = new AuditLog(config, log);
+  audit.load();
+  app.decorateRequest("auditDetail", null);
+  app.addHook("onResponse", createAuditHook(audit));
+
   // Initialize services
   const discovery = new SessionDiscovery(config, log);
-  const bridge = new TerminalBridge(config, log);
+  // Optional asciicast recordings of every bridged terminal
+  const recordings = new Recordings(config, log);
+  const bridge = new TerminalBridge(config, log, recordings);
   // TmuxManager uses bridge as single source of truth for active connections
   const tmuxManager = new TmuxManager(config, log, (id) => bridge.hasActiveTerminal(id));
   const attachTokens = new AttachTokens();
+  const pairingCodes = new PairingCodes();
   // Registry composes discovery + tmux + bridge state into a unified view
-  const registry = new SessionRegistry(discovery, tmuxManager, bridge, log);
+  const registry = new SessionRegistry(discovery, tmuxManager, bridge, config, log);
+  // Prompts held until their session is waiting for input
+  const promptQueue = new PromptQueue(discovery, registry, tmuxManager, log);
+  promptQueue.load();
+  // Outbound notifications when a session finishes, needs permission or exits
+  const notifier = new SessionNotifier(discovery, registry, log);
+  const webhooks = new Webhooks(config, log);
+  const push = new PushPublisher(config, log);
+  notifier.on("notify", (notification: SessionNotification) => {
+    webhooks.send(notification);
+    push.send(notification);
+  });
+
+  bridge.on("attach", (sessionId: string, origin: TerminalOrigin, mode: AttachMode) => {
+    audit.record({
+      action: "terminal.attach",
+      ip: origin.ip,
+      deviceId: origin.device?.id ?? null,
+      deviceName: origin.device?.name ?? null,
+      sessionId,
+      detail: { mode },
+    });
+  });
+  bridge.on("takeover", (sessionId: string, evicted: TerminalOrigin, by: TerminalOrigin) => {
+    audit.record({
+      action: "terminal.takeover",
+      ip: by.ip,
+      deviceId: by.device?.id ?? null,
+      deviceName: by.device?.name ?? null,
+      sessionId,
+      detail: {
+        evicted: { ip: evicted.ip, deviceId: evicted.device?.id ?? null, deviceName: evicted.device?.name ?? null },
+      },
+    });
+  });
+  bridge.on(
+    "detach",
+    (sessionId: string, origin: TerminalOrigin, durationMs: number, mode: AttachMode) => {
+      audit.record({
+        action: "terminal.detach",
+        ip: origin.ip,
+        deviceId: origin.device?.id ?? null,
+        deviceName: origin.device?.name ?? null,
+        sessionId,
+        detail: { mode, durationMs },
+      });
+    },
+  );
+
+  promptQueue.on("delivered", (prompt: QueuedPrompt) => {
+    audit.record({
+      action: "queue.delivered",
+      ip: null,
+      deviceId: prompt.deviceId,
+      deviceName: prompt.deviceId ? devices.get(prompt.deviceId)?.name ?? null : null,
+      sessionId: prompt.sessionId,
+      detail: { promptId: prompt.id, queuedAt: prompt.createdAt },
+    });
+  });
 
   // Register REST routes
-  registerStatusRoutes(app, config, tmuxManager);
+  registerStatusRoutes(app, config, tmuxManager, tls, lockouts);
   registerSessionRoutes(app, registry, tmuxManager);
   registerAttachRoutes(app, registry, tmuxManager, attachTokens);
   registerNewSessionRoutes(app, tmuxManager, attachTokens, config);
   registerStreamRoutes(app, registry, discovery);
+  registerSessionEventRoutes(app, registry, discovery, bridge);
+  registerDeviceRoutes(app, devices);
+  registerPairingRoutes(app, config, devices, pairingCodes, lockouts, tls);
+  registerAuditRoutes(app, audit);
+  registerRecordingRoutes(app, recordings);
+  registerQueueRoutes(app, promptQueue, registry);
+  registerHookRoutes(app, registry);
+  registerNotificationRoutes(app, webhooks, push, registry);
+  registerUsageRoutes(app, registry);
 
   // WebSocket terminal endpoint
   app.get<{
     Params: { sessionId: string };
-    Querystring: { cols?: string; rows?: string; token?: string };
+    Querystring: {
+      cols?: string;
+      rows?: string;
+      token?: string;
+      scrollback?: string;
+      proto?: string;
+      stream?: string;
+      resume?: string;
+    };
   }>(
     "/terminal/:sessionId",
     { websocket: true },
@@ -89,6 +217,12 @@ async function main(): Promise<void> {
       const { sessionId } = request.params;
       const cols = parseInt(request.query.cols ?? "", 10) || config.tmux.defaultCols;
       const rows = parseInt(request.query.rows ?? "", 10) || config.tmux.defaultRows;
+      // Pane history to replay on attach — clients may ask for less (or 0), never more
+      const requested = parseInt(request.query.scrollback ?? "", 10);
+      const scrollback = Math.min(
+        requested >= 0 ? requested : config.tmux.scrollbackLines,
+        config.tmux.scrollbackLines,
+      );
 
       // Validate session ID format
       if (!isValidSessionId(sessionId)) {
@@ -96,26 +230,51 @@ async function main(): Promise<void> {
         return;
       }
 
+      const version = parseProtocolVersion(request.query.proto);
+      if (version === null) {
+        socket.close(4400, "Unsupported protocol version");
+        return;
+      }
+      // v2 reconnects pass the stream they were on and the first byte they're missing
+      const resumeSeq = Number(request.query.resume);
+      const resume =
+        request.query.stream && Number.isSafeInteger(resumeSeq) && resumeSeq >= 0
+          ? { stream: request.query.stream, seq: resumeSeq }
+          : null;
+
       // Auth: require a valid attach token (generated by POST /attach)
-      // Fallback: PSK via Authorization header (for debugging with wscat)
+      // Fallback: device credential or PSK via Authorization header (for debugging with wscat)
       const attachToken = request.query.token;
       const authHeader = request.headers.authorization?.slice(7);
 
-      let authorized = false;
+      let origin: TerminalOrigin | null = null;
+      let mode: AttachMode = "control";
+      let takeover = false;
 
       if (attachToken) {
-        const tokenSessionId = attachTokens.consume(attachToken);
-        if (tokenSessionId === sessionId) {
-          authorized = true;
+        const grant = attachTokens.consume(attachToken);
+        if (grant?.sessionId === sessionId) {
+          origin = { ip: request.ip, device: grant.device };
+          mode = grant.mode;
+          takeover = grant.takeover;
         }
       }
 
-      if (!authorized && authHeader && config.debug) {
-        authorized = verifyPsk(authHeader, config.auth.psk);
+      if (!origin && authHeader && config.debug) {
+        const caller = resolveCredential(authHeader, request.ip, config, devices);
+        if (caller) origin = { ip: request.ip, device: caller.device };
       }
 
-      if (!authorized) {
+      if (!origin) {
         log.warn({ ip: request.ip, sessionId }, "Unauthorized WS connection attempt");
+        lockouts.recordFailure(request.ip);
+        audit.record({
+          action: "terminal.denied",
+          ip: request.ip,
+          deviceId: null,
+          deviceName: null,
+          sessionId,
+        });
         socket.close(4401, "Unauthorized");
         return;
       }
@@ -125,7 +284,16 @@ async function main(): Promise<void> {
 
       // Attach
       bridge
-        .attach(sessionId, tmuxSession, socket, cols, rows)
+        .attach(sessionId, tmuxSession, socket, {
+          cols,
+          rows,
+          origin,
+          mode,
+          takeover,
+          scrollback,
+          version,
+          resume,
+        })
         .catch((err) => {
           log.error({ err, sessionId }, "Failed to attach terminal");
           socket.close(4500, "Failed to attach terminal");
@@ -135,7 +303,10 @@ async function main(): Promise<void> {
 
   // Startup
   await discovery.start();
+  promptQueue.start();
+  notifier.start();
   bridge.start();
+  recordings.start();
   tmuxManager.startCacheRefresh();
 
   // Reconcile existing tmux sessions + clean orphaned PTYs
@@ -152,12 +323,28 @@ async function main(): Promise<void> {
     "Claude Conduit daemon started",
   );
 
+  // First run: no devices paired yet — print a pairing QR code so the
+  // app can be onboarded without typing the PSK.
+  if (devices.list().length === 0) {
+    const { code, expiresAt } = pairingCodes.generate();
+    printPairingBanner(pairingPayload(config, code, tls), code, expiresAt);
+  }
+
   // Graceful shutdown
   const shutdown = async (signal: string): Promise<void> => {
     log.info({ signal }, "Shutting down...");
+    await promptQueue.stop();
     await bridge.stop();
-    discovery.stop();
+    await recordings.stop();
+    notifier.stop();
+    webhooks.stop();
+    push.stop();
+    await audit.stop();
+    await discovery.stop();
     attachTokens.stop();
+    pairingCodes.stop();
+    lockouts.stop();
+    await devices.stop();
     tmuxManager.stopCacheRefresh();
     await app.close();
     process.exit(0);
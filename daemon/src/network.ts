@@ -0,0 +1,11 @@
+import { networkInterfaces } from "node:os";
+
+/** First non-internal IPv4 address — what a phone on the same network would dial. */
+export function lanAddress(): string {
+  for (const addrs of Object.values(networkInterfaces())) {
+    for (const addr of addrs ?? []) {
+      if (addr.family === "IPv4" && !addr.internal) return addr.address;
+    }
+  }
+  return "127.0.0.1";
+}
@@ -0,0 +1,80 @@
+import type { FastifyBaseLogger } from "fastify";
+
+const REQUEST_TIMEOUT_MS = 10_000;
+// Retry delays: 2s, 8s, 32s, ...
+const RETRY_BASE_MS = 2_000;
+const RETRY_FACTOR = 4;
+
+/** Outcome of one POST. */
+export interface PostResult {
+  ok: boolean;
+  status: number | null; // null when no response arrived
+  error: string | null;
+}
+
+/** POST a JSON body, never throwing — failures come back as the result. */
+export async function postJson(
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+): Promise<PostResult> {
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    // Drain the body so the connection can be reused
+    await res.arrayBuffer().catch(() => undefined);
+    return { ok: res.ok, status: res.status, error: res.ok ? null : res.statusText };
+  } catch (err) {
+    return { ok: false, status: null, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Re-runs failed deliveries with exponential backoff. Network errors, 429s
+ * and 5xx responses are retried; other 4xx responses won't get better.
+ */
+export class Retrier {
+  private retries: number;
+  private log: FastifyBaseLogger;
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+
+  constructor(retries: number, log: FastifyBaseLogger) {
+    this.retries = retries;
+    this.log = log;
+  }
+
+  /** Run `post` until it succeeds or gives up, then call `onFailure` if it never did. */
+  run(
+    post: () => Promise<PostResult>,
+    onFailure: (result: PostResult, attempts: number) => void,
+    attempt = 0,
+  ): void {
+    post().then((result) => {
+      if (result.ok) return;
+
+      const retryable = result.status === null || result.status === 429 || result.status >= 500;
+      if (!retryable || attempt >= this.retries) {
+        onFailure(result, attempt + 1);
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        this.run(post, onFailure, attempt + 1);
+      }, RETRY_BASE_MS * RETRY_FACTOR ** attempt);
+      this.timers.add(timer);
+    }).catch((err) => {
+      // A bug in a callback mustn't become an unhandled rejection and take the daemon down
+      this.log.error({ err }, "Notification delivery failed");
+    });
+  }
+
+  stop(): void {
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+  }
+}
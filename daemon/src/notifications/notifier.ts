@@ -0,0 +1,152 @@
+import { EventEmitter } from "node:events";
+import type { FastifyBaseLogger } from "fastify";
+import type { SessionDiscovery } from "../sessions/discovery.js";
+import type { ClaudeState, SessionRegistry } from "../sessions/registry.js";
+import type {
+  NotificationEvent,
+  NotificationFilters,
+  NotificationPayload,
+  SessionNotification,
+} from "./types.js";
+
+// tmux sessions can exit without touching the session files — poll for that
+const POLL_INTERVAL_MS = 15_000;
+
+const TITLES: Record<NotificationEvent, string> = {
+  waiting: "Claude is waiting",
+  needs_permission: "Claude needs permission",
+  exited: "Session ended",
+};
+
+/** Which notification, if any, a state change is. */
+function transitionEvent(previous: ClaudeState, state: ClaudeState): NotificationEvent | null {
+  if (state === previous) return null;
+  if (state === "needs_permission") return "needs_permission";
+  if (state === "waiting" && (previous === "thinking" || previous === "needs_permission")) {
+    return "waiting";
+  }
+  if (state === "idle" && previous !== "unknown") return "exited";
+  return null;
+}
+
+/** Short description of a tool call: the command, file or URL it's about. */
+function describeTool(input: unknown): string {
+  if (!input || typeof input !== "object") return "";
+  const args = input as Record<string, unknown>;
+  for (const key of ["command", "file_path", "url", "pattern", "description"]) {
+    if (typeof args[key] === "string") return args[key] as string;
+  }
+  return "";
+}
+
+/** Flatten a notification for webhook bodies and templates. */
+export function notificationPayload(notification: SessionNotification): NotificationPayload {
+  const { event, session } = notification;
+  const tool = session.pendingTool;
+  const message = tool
+    ? [tool.name, describeTool(tool.input)].filter(Boolean).join(": ")
+    : session.lastMessagePreview;
+
+  return {
+    event,
+    sessionId: session.id,
+    projectName: session.projectName,
+    projectPath: session.projectPath,
+    state: session.claudeState,
+    previousState: notification.previousState,
+    title: `${session.projectName}: ${TITLES[event]}`,
+    message,
+    tool: tool?.name ?? "",
+    timestamp: notification.at,
+  };
+}
+
+/** Whether a target's event and project filters let a notification through. */
+export function wantsNotification(filters: NotificationFilters, payload: NotificationPayload): boolean {
+  if (filters.events.length > 0 && !filters.events.includes(payload.event)) return false;
+  if (filters.projects.length > 0) {
+    return filters.projects.some((p) => p === payload.projectName || p === payload.projectPath);
+  }
+  return true;
+}
+
+/**
+ * Watches every session's claudeState and emits a notification when it
+ * finishes a turn (thinking → waiting), stops at a permission prompt, or
+ * its tmux session exits. Checks on each discovery change and hook event,
+ * and every 15s; the first check only records where things stand, so a
+ * restart doesn't replay old news.
+ *
+ * Events: "notify" (notification: SessionNotification)
+ */
+export class SessionNotifier extends EventEmitter {
+  private log: FastifyBaseLogger;
+  private discovery: SessionDiscovery;
+  private registry: SessionRegistry;
+  private states = new Map<string, ClaudeState>(); // sessionId -> last seen state
+  private seeded = false;
+  private checking: Promise<void> | null = null;
+  private recheck = false;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(discovery: SessionDiscovery, registry: SessionRegistry, log: FastifyBaseLogger) {
+    super();
+    this.log = log.child({ module: "notifier" });
+    this.discovery = discovery;
+    this.registry = registry;
+  }
+
+  start(): void {
+    this.discovery.on("change", () => this.check());
+    this.registry.on("change", () => this.check());
+    this.pollTimer = setInterval(() => this.check(), POLL_INTERVAL_MS);
+    this.check();
+  }
+
+  stop(): void {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+  }
+
+  /** Compare every session against its last seen state. Coalesces overlapping calls. */
+  private check(): void {
+    if (this.checking) {
+      this.recheck = true;
+      return;
+    }
+    this.checking = this.checkNow()
+      .catch((err) => this.log.warn({ err }, "Session state check failed"))
+      .finally(() => {
+        this.checking = null;
+        if (this.recheck) {
+          this.recheck = false;
+          this.check();
+        }
+      });
+  }
+
+  private async checkNow(): Promise<void> {
+    const sessions = await this.registry.listSessions();
+    const at = new Date().toISOString();
+    const seen = new Set<string>();
+
+    for (const session of sessions) {
+      seen.add(session.id);
+      const previous = this.states.get(session.id);
+      this.states.set(session.id, session.claudeState);
+      if (!this.seeded || previous === undefined) continue;
+
+      const event = transitionEvent(previous, session.claudeState);
+      if (!event) continue;
+
+      this.log.info({ sessionId: session.id, event, previous }, "Session state notification");
+      const notification: SessionNotification = { event, session, previousState: previous, at };
+      this.emit("notify", notification);
+    }
+
+    // Forget sessions whose files are gone
+    for (const sessionId of this.states.keys()) {
+      if (!seen.has(sessionId)) this.states.delete(sessionId);
+    }
+    this.seeded = true;
+  }
+}
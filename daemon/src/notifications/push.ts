@@ -0,0 +1,141 @@
+import type { FastifyBaseLogger } from "fastify";
+import type { PushConfig, RelayConfig } from "../config.js";
+import type {
+  NotificationEvent,
+  NotificationPayload,
+  NotificationResult,
+  SessionNotification,
+} from "./types.js";
+import type { PostResult } from "./http.js";
+import { notificationPayload, wantsNotification } from "./notifier.js";
+import { sessionDeepLink } from "./types.js";
+import { postJson, Retrier } from "./http.js";
+
+// Default priorities: a permission prompt blocks Claude, an exit is just news
+const NTFY_PRIORITY: Record<NotificationEvent, number> = {
+  needs_permission: 4, // high
+  waiting: 3, // default
+  exited: 2, // low
+};
+const GOTIFY_PRIORITY: Record<NotificationEvent, number> = {
+  needs_permission: 8,
+  waiting: 5,
+  exited: 2,
+};
+
+// ntfy renders emoji shortcodes among the tags as icons
+const NTFY_TAGS: Record<NotificationEvent, string> = {
+  needs_permission: "warning",
+  waiting: "white_check_mark",
+  exited: "checkered_flag",
+};
+
+/**
+ * ntfy's JSON publishing: POST to the server root with the topic in the
+ * body. Unlike the header API it takes non-ASCII titles as-is.
+ */
+function ntfyRequest(target: PushConfig, payload: NotificationPayload): { url: string; body: unknown } {
+  const url = new URL(target.url);
+  const topic = url.pathname.split("/").pop() ?? "";
+  url.pathname = url.pathname.slice(0, url.pathname.length - topic.length);
+
+  return {
+    url: url.toString(),
+    body: {
+      topic,
+      title: payload.title,
+      message: payload.message || payload.title,
+      priority: target.priority ?? NTFY_PRIORITY[payload.event],
+      tags: [NTFY_TAGS[payload.event], payload.projectName],
+      click: sessionDeepLink(payload.sessionId),
+    },
+  };
+}
+
+/** Gotify's message API; the click URL goes in the Android client's extras. */
+function gotifyRequest(target: PushConfig, payload: NotificationPayload): { url: string; body: unknown } {
+  return {
+    url: `${target.url}/message`,
+    body: {
+      title: payload.title,
+      message: payload.message || payload.title,
+      priority: target.priority ?? GOTIFY_PRIORITY[payload.event],
+      extras: {
+        "client::display": { contentType: "text/plain" },
+        "client::notification": { click: { url: sessionDeepLink(payload.sessionId) } },
+      },
+    },
+  };
+}
+
+/**
+ * Publishes session notifications to the ntfy and Gotify servers in
+ * `notifications.push`, so phones get real push notifications without
+ * APNs. Tapping one opens the session in the app. Failed publishes are
+ * retried in the background like webhooks.
+ */
+export class PushPublisher {
+  private log: FastifyBaseLogger;
+  private targets: PushConfig[];
+  private retrier: Retrier;
+
+  constructor(config: RelayConfig, log: FastifyBaseLogger) {
+    this.log = log.child({ module: "push" });
+    this.targets = config.notifications.push;
+    this.retrier = new Retrier(config.notifications.retries, this.log);
+  }
+
+  get count(): number {
+    return this.targets.length;
+  }
+
+  /** Publish a notification to every matching push target. */
+  send(notification: SessionNotification): void {
+    const payload = notificationPayload(notification);
+    this.targets.forEach((target, index) => {
+      if (!wantsNotification(target, payload)) return;
+      this.retrier.run(
+        () => this.publish(target, payload),
+        (result, attempts) => {
+          this.log.warn(
+            {
+              target: index,
+              type: target.type,
+              host: new URL(target.url).host,
+              event: payload.event,
+              ...result,
+              attempts,
+            },
+            "Push notification failed",
+          );
+        },
+      );
+    });
+  }
+
+  /** Publish a sample payload to one target (or all of them) once, ignoring filters. */
+  async test(payload: NotificationPayload, index?: number): Promise<NotificationResult[]> {
+    const indexes = index === undefined ? this.targets.map((_, i) => i) : [index];
+    return Promise.all(
+      indexes.map(async (i) => ({
+        kind: this.targets[i].type,
+        index: i,
+        host: new URL(this.targets[i].url).host,
+        ...(await this.publish(this.targets[i], payload)),
+      })),
+    );
+  }
+
+  stop(): void {
+    this.retrier.stop();
+  }
+
+  private publish(target: PushConfig, payload: NotificationPayload): Promise<PostResult> {
+    const { url, body } =
+      target.type === "ntfy" ? ntfyRequest(target, payload) : gotifyRequest(target, payload);
+    const headers: Record<string, string> = {};
+    if (target.type === "ntfy" && target.token) headers.Authorization = `Bearer ${target.token}`;
+    if (target.type === "gotify") headers["X-Gotify-Key"] = target.token;
+    return postJson(url, body, headers);
+  }
+}
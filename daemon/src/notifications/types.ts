@@ -0,0 +1,57 @@
+import type { ClaudeState, SessionView } from "../sessions/registry.js";
+
+/** Session state changes worth telling someone about. */
+export const NOTIFICATION_EVENTS = ["waiting", "needs_permission", "exited"] as const;
+export type NotificationEvent = (typeof NOTIFICATION_EVENTS)[number];
+
+/** Which notifications a target wants. Empty lists mean all. */
+export interface NotificationFilters {
+  events: NotificationEvent[];
+  /** Project names or full paths. */
+  projects: string[];
+}
+
+/** How a notification target responded to a test notification. */
+export interface NotificationResult {
+  kind: "webhook" | "ntfy" | "gotify";
+  /** Position in notifications.webhooks or notifications.push. */
+  index: number;
+  /** Host only — URLs often carry secrets in the path. */
+  host: string;
+  ok: boolean;
+  status: number | null;
+  error: string | null;
+}
+
+/** A session state change, as emitted by SessionNotifier. */
+export interface SessionNotification {
+  event: NotificationEvent;
+  session: SessionView;
+  previousState: ClaudeState;
+  at: string; // ISO timestamp
+}
+
+/**
+ * Flat view of a notification — the default webhook body, and the
+ * {{placeholders}} available to templates.
+ */
+export interface NotificationPayload {
+  event: NotificationEvent;
+  sessionId: string;
+  projectName: string;
+  projectPath: string;
+  state: ClaudeState;
+  previousState: ClaudeState;
+  /** One-line summary, e.g. "my-app: Claude needs permission". */
+  title: string;
+  /** Detail: the tool awaiting approval, or the last message. */
+  message: string;
+  /** Name of the tool awaiting approval, if any. */
+  tool: string;
+  timestamp: string;
+}
+
+/** Link that opens a session in the app. */
+export function sessionDeepLink(sessionId: string): string {
+  return `claude-conduit://session/${sessionId}`;
+}
@@ -0,0 +1,85 @@
+import type { FastifyBaseLogger } from "fastify";
+import type { RelayConfig, WebhookConfig } from "../config.js";
+import type { NotificationPayload, NotificationResult, SessionNotification } from "./types.js";
+import { notificationPayload, wantsNotification } from "./notifier.js";
+import type { PostResult } from "./http.js";
+import { postJson, Retrier } from "./http.js";
+
+/** Substitute {{placeholders}} in every string of a template. */
+function render(template: unknown, payload: NotificationPayload): unknown {
+  if (typeof template === "string") {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+      key in payload ? String(payload[key as keyof NotificationPayload]) : match,
+    );
+  }
+  if (Array.isArray(template)) return template.map((item) => render(item, payload));
+  if (template && typeof template === "object") {
+    return Object.fromEntries(
+      Object.entries(template as Record<string, unknown>).map(([k, v]) => [k, render(v, payload)]),
+    );
+  }
+  return template;
+}
+
+/**
+ * POSTs session notifications to the webhooks in `notifications.webhooks`.
+ * The body is the flat NotificationPayload, or the webhook's template
+ * rendered with it. Failed deliveries are retried in the background.
+ */
+export class Webhooks {
+  private log: FastifyBaseLogger;
+  private hooks: WebhookConfig[];
+  private retrier: Retrier;
+
+  constructor(config: RelayConfig, log: FastifyBaseLogger) {
+    this.log = log.child({ module: "webhooks" });
+    this.hooks = config.notifications.webhooks;
+    this.retrier = new Retrier(config.notifications.retries, this.log);
+  }
+
+  get count(): number {
+    return this.hooks.length;
+  }
+
+  /** Deliver a notification to every matching webhook. */
+  send(notification: SessionNotification): void {
+    const payload = notificationPayload(notification);
+    this.hooks.forEach((hook, index) => {
+      if (!wantsNotification(hook, payload)) return;
+      this.retrier.run(
+        () => this.post(hook, payload),
+        (result, attempts) => {
+          this.log.warn(
+            { webhook: index, host: new URL(hook.url).host, event: payload.event, ...result, attempts },
+            "Webhook delivery failed",
+          );
+        },
+      );
+    });
+  }
+
+  /**
+   * Fire a sample payload at one webhook (or all of them) once, ignoring
+   * filters, and report how each responded.
+   */
+  async test(payload: NotificationPayload, index?: number): Promise<NotificationResult[]> {
+    const indexes = index === undefined ? this.hooks.map((_, i) => i) : [index];
+    return Promise.all(
+      indexes.map(async (i) => ({
+        kind: "webhook" as const,
+        index: i,
+        host: new URL(this.hooks[i].url).host,
+        ...(await this.post(this.hooks[i], payload)),
+      })),
+    );
+  }
+
+  stop(): void {
+    this.retrier.stop();
+  }
+
+  private post(hook: WebhookConfig, payload: NotificationPayload): Promise<PostResult> {
+    const body = hook.template === null ? payload : render(hook.template, payload);
+    return postJson(hook.url, body, hook.headers);
+  }
+}
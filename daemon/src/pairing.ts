@@ -0,0 +1,52 @@
+import qrcode from "qrcode-terminal";
+import type { RelayConfig } from "./config.js";
+import type { TlsMaterial } from "./tls.js";
+import { normalizeFingerprint } from "./tls.js";
+import { lanAddress } from "./network.js";
+
+const PAIRING_SCHEME = "claude-conduit://pair";
+
+/**
+ * Build the pairing link encoded in the QR code. With TLS on, the link also
+ * carries the certificate fingerprint so the app can pin it from the start.
+ */
+export function pairingPayload(
+  config: RelayConfig,
+  code: string,
+  tls: TlsMaterial | null,
+): string {
+  const host =
+    config.host === "0.0.0.0" || config.host === "::" ? lanAddress() : config.host;
+  const params = [
+    `host=${encodeURIComponent(host)}`,
+    `port=${config.port}`,
+    `code=${encodeURIComponent(code)}`,
+  ];
+  if (tls) {
+    params.push("tls=1", `fp=${normalizeFingerprint(tls.fingerprint)}`);
+  }
+  return `${PAIRING_SCHEME}?${params.join("&")}`;
+}
+
+/** Format a code for display, e.g. ABCD-EFGH. */
+export function formatPairingCode(code: string): string {
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+/** Print a QR code plus the human-readable pairing details to stdout. */
+export function printPairingBanner(payload: string, code: string, expiresAt: Date): void {
+  qrcode.generate(payload, { small: true }, (qr) => {
+    const lines = [
+      "",
+      "  Pair a device: scan this QR code with your phone's camera,",
+      "  or enter the code in the Claude Conduit app.",
+      "",
+      qr,
+      `  Code:    ${formatPairingCode(code)}`,
+      `  Link:    ${payload}`,
+      `  Expires: ${expiresAt.toLocaleTimeString()}`,
+      "",
+    ];
+    process.stdout.write(lines.join("\n") + "\n");
+  });
+}
@@ -0,0 +1,259 @@
+import { EventEmitter } from "node:events";
+import { readFileSync, existsSync } from "node:fs";
+import { writeFile, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { randomUUID } from "node:crypto";
+import type { FastifyBaseLogger } from "fastify";
+import type { QueuedPrompt, PromptQueueStore } from "./types.js";
+import type { SessionDiscovery } from "../sessions/discovery.js";
+import type { ClaudeState, SessionRegistry } from "../sessions/registry.js";
+import type { TmuxManager } from "../tmux/manager.js";
+import { CONFIG_DIR } from "../config.js";
+import { typeIntoPane } from "../tmux/input.js";
+
+const STORE_PATH = join(CONFIG_DIR, "queue.json");
+
+export const MAX_QUEUED_PER_SESSION = 20;
+
+/**
+ * Per-session queues of prompts to send once Claude is done. Whenever
+ * discovery or a hook event reports a change, sessions with queued prompts
+ * are checked; each time one turns `waiting`, the next prompt is typed into
+ * its tmux pane — one per turn, so they run in order. Persisted to
+ * queue.json under CONFIG_DIR so nothing is lost across restarts.
+ *
+ * Events: "delivered" (prompt: QueuedPrompt)
+ */
+export class PromptQueue extends EventEmitter {
+  private log: FastifyBaseLogger;
+  private discovery: SessionDiscovery;
+  private registry: SessionRegistry;
+  private tmuxManager: TmuxManager;
+  private queues = new Map<string, QueuedPrompt[]>(); // sessionId -> prompts in order
+  // Last state seen per queued session, to spot the transition to "waiting"
+  private lastState = new Map<string, ClaudeState>();
+  // When each session's last prompt was typed in (ms). Until its JSONL has
+  // been written since, a "waiting" state is still from before that prompt.
+  // Kept after the queue empties, so a prompt queued right away still waits.
+  private deliveredAt = new Map<string, number>();
+  private checking: Promise<void> | null = null;
+  private recheck = false;
+  private stopped = false;
+  private onChange = (): void => this.check();
+
+  constructor(
+    discovery: SessionDiscovery,
+    registry: SessionRegistry,
+    tmuxManager: TmuxManager,
+    log: FastifyBaseLogger,
+  ) {
+    super();
+    this.log = log.child({ module: "queue" });
+    this.discovery = discovery;
+    this.registry = registry;
+    this.tmuxManager = tmuxManager;
+  }
+
+  load(): void {
+    if (!existsSync(STORE_PATH)) return;
+
+    try {
+      const raw = readFileSync(STORE_PATH, "utf-8");
+      const store = JSON.parse(raw) as PromptQueueStore;
+      if (store.version !== 1) return;
+
+      for (const prompt of store.prompts) {
+        const queue = this.queues.get(prompt.sessionId) ?? [];
+        queue.push(prompt);
+        this.queues.set(prompt.sessionId, queue);
+      }
+
+      this.log.info({ queued: store.prompts.length }, "Loaded prompt queue");
+    } catch (err) {
+      this.log.warn({ err }, "Failed to load prompt queue");
+    }
+  }
+
+  start(): void {
+    this.discovery.on("change", this.onChange);
+    // Hook events (Stop) report waiting without discovery's debounce
+    this.registry.on("change", this.onChange);
+    // Prompts queued before a restart may already be due
+    this.check();
+  }
+
+  /** Stop delivering, waiting for a delivery already under way so nothing is typed after shutdown. */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.discovery.off("change", this.onChange);
+    this.registry.off("change", this.onChange);
+    await this.checking;
+  }
+
+  list(sessionId: string): QueuedPrompt[] {
+    return [...(this.queues.get(sessionId) ?? [])];
+  }
+
+  /**
+   * Queue a prompt. Returns null if the session's queue is full. If Claude
+   * is already waiting, it's sent right away instead of holding until the
+   * next turn ends.
+   */
+  async enqueue(sessionId: string, text: string, deviceId: string | null): Promise<QueuedPrompt | null> {
+    const queue = this.queues.get(sessionId) ?? [];
+    if (queue.length >= MAX_QUEUED_PER_SESSION) return null;
+
+    const prompt: QueuedPrompt = {
+      id: randomUUID(),
+      sessionId,
+      text,
+      createdAt: new Date().toISOString(),
+      deviceId,
+    };
+    queue.push(prompt);
+    this.queues.set(sessionId, queue);
+    await this.saveNow();
+
+    this.log.info({ sessionId, promptId: prompt.id }, "Prompt queued");
+    // Forget the last state so a session that's already waiting counts as due
+    this.lastState.delete(sessionId);
+    this.check();
+    return prompt;
+  }
+
+  /** Remove a queued prompt. Returns false if it isn't queued (or was already sent). */
+  async cancel(sessionId: string, promptId: string): Promise<boolean> {
+    if (!this.remove(sessionId, promptId)) return false;
+    await this.saveNow();
+    return true;
+  }
+
+  /**
+   * Put a session's queue in the given order. `ids` must name every queued
+   * prompt exactly once; returns false otherwise.
+   */
+  async reorder(sessionId: string, ids: string[]): Promise<boolean> {
+    const queue = this.queues.get(sessionId) ?? [];
+    const byId = new Map(queue.map((p) => [p.id, p]));
+    if (ids.length !== queue.length || new Set(ids).size !== ids.length) return false;
+    if (!ids.every((id) => byId.has(id))) return false;
+
+    this.queues.set(sessionId, ids.map((id) => byId.get(id) as QueuedPrompt));
+    await this.saveNow();
+    return true;
+  }
+
+  /** Check queued sessions for a transition to waiting. Coalesces overlapping calls. */
+  private check(): void {
+    if (this.stopped) return;
+    if (this.checking) {
+      this.recheck = true;
+      return;
+    }
+    this.checking = this.checkNow()
+      .catch((err) => this.log.warn({ err }, "Prompt queue check failed"))
+      .finally(() => {
+        this.checking = null;
+        if (this.recheck) {
+          this.recheck = false;
+          this.check();
+        }
+      });
+  }
+
+  private async checkNow(): Promise<void> {
+    for (const sessionId of [...this.queues.keys()]) {
+      if (this.stopped) return;
+      try {
+        await this.checkSession(sessionId);
+      } catch (err) {
+        // Forget the state so the next check retries instead of waiting for a new transition
+        this.lastState.delete(sessionId);
+        this.log.warn({ err, sessionId }, "Failed to deliver queued prompt");
+      }
+    }
+
+    // Drop states of sessions that no longer have anything queued
+    for (const sessionId of this.lastState.keys()) {
+      if (!this.queues.has(sessionId)) this.lastState.delete(sessionId);
+    }
+  }
+
+  private async checkSession(sessionId: string): Promise<void> {
+    const session = await this.registry.getSession(sessionId);
+    const delivered = this.deliveredAt.get(sessionId);
+    if (delivered !== undefined) {
+      // The last prompt hasn't reached the JSONL yet, so whatever state the
+      // registry reports predates it — a hook from another session can
+      // trigger this check in that window
+      if (!session || Date.parse(session.timestamp) <= delivered) return;
+      this.deliveredAt.delete(sessionId);
+    }
+
+    const state = session?.claudeState ?? "unknown";
+    const previous = this.lastState.get(sessionId);
+    this.lastState.set(sessionId, state);
+
+    if (state !== "waiting" || previous === "waiting") return;
+    await this.deliverNext(sessionId);
+  }
+
+  private async deliverNext(sessionId: string): Promise<void> {
+    const prompt = this.queues.get(sessionId)?.[0];
+    if (!prompt) return;
+
+    const tmuxName = this.tmuxManager.tmuxName(sessionId);
+    if (!(await this.tmuxManager.hasSession(tmuxName))) {
+      // Try again on a later check, once the session is back in tmux
+      this.lastState.delete(sessionId);
+      return;
+    }
+
+    // Out of the queue before typing, so a cancel from here on reports it as already sent
+    this.remove(sessionId, prompt.id);
+    try {
+      await typeIntoPane(tmuxName, prompt.text, true);
+    } catch (err) {
+      const queue = this.queues.get(sessionId) ?? [];
+      queue.unshift(prompt);
+      this.queues.set(sessionId, queue);
+      throw err;
+    }
+    // Claude is working on it now — the next "waiting" is a new transition
+    // even if discovery's debounce never shows us the thinking phase
+    this.lastState.set(sessionId, "thinking");
+    this.deliveredAt.set(sessionId, Date.now());
+    await this.saveNow();
+
+    this.log.info(
+      { sessionId, promptId: prompt.id, remaining: this.queues.get(sessionId)?.length ?? 0 },
+      "Delivered queued prompt",
+    );
+    this.emit("delivered", prompt);
+  }
+
+  private remove(sessionId: string, promptId: string): boolean {
+    const queue = this.queues.get(sessionId) ?? [];
+    const index = queue.findIndex((p) => p.id === promptId);
+    if (index === -1) return false;
+
+    queue.splice(index, 1);
+    if (queue.length === 0) this.queues.delete(sessionId);
+    return true;
+  }
+
+  private async saveNow(): Promise<void> {
+    if (!existsSync(CONFIG_DIR)) {
+      await mkdir(CONFIG_DIR, { recursive: true, mode: 0o700 });
+    }
+
+    const store: PromptQueueStore = {
+      version: 1,
+      prompts: [...this.queues.values()].flat(),
+    };
+
+    await writeFile(STORE_PATH, JSON.stringify(store, null, 2), {
+      mode: 0o600,
+    });
+  }
+}
@@ -0,0 +1,15 @@
+/** A message waiting to be typed into a session once Claude is idle. */
+export interface QueuedPrompt {
+  id: string;
+  sessionId: string;
+  text: string;
+  createdAt: string; // ISO 8601
+  /** Device that queued it, null for the PSK. */
+  deviceId: string | null;
+}
+
+export interface PromptQueueStore {
+  version: 1;
+  /** All sessions' queues, each session's in delivery order. */
+  prompts: QueuedPrompt[];
+}
@@ -0,0 +1,217 @@
+import { createWriteStream, existsSync, mkdirSync, type WriteStream } from "node:fs";
+import { readdir, rmdir, stat, unlink } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type { FastifyBaseLogger } from "fastify";
+import type { AsciicastHeader, RecordingInfo } from "./types.js";
+import type { RelayConfig } from "../config.js";
+import { CONFIG_DIR } from "../config.js";
+
+const RECORDINGS_DIR = join(CONFIG_DIR, "recordings");
+const RECORDING_ID_RE = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z$/;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000; // 1h
+
+function sessionDir(sessionId: string): string {
+  return join(RECORDINGS_DIR, sessionId);
+}
+
+/** "2026-01-31T09:15:00.000Z" → "2026-01-31T09-15-00-000Z" (safe as a file name). */
+function recordingId(date: Date): string {
+  return date.toISOString().replace(/[:.]/g, "-");
+}
+
+/** Inverse of recordingId. */
+function startedAt(id: string): string {
+  return id.replace(/T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/, "T$1:$2:$3.$4Z");
+}
+
+/**
+ * One asciicast v2 file being written for a PTY: a JSON header line, then
+ * one `[seconds, code, data]` event per line — "o" for output, "r" for
+ * resizes. A write error stops the recording; the terminal carries on.
+ */
+export class Recording {
+  readonly path: string;
+  private stream: WriteStream;
+  private started = process.hrtime.bigint();
+  private closed = false;
+  private onClose: () => void;
+
+  constructor(
+    path: string,
+    header: AsciicastHeader,
+    log: FastifyBaseLogger,
+    onClose: () => void,
+  ) {
+    this.path = path;
+    this.onClose = onClose;
+    this.stream = createWriteStream(path, { flags: "a", mode: 0o600 });
+    this.stream.on("error", (err) => {
+      log.warn({ err, path }, "Recording write failed, stopping recording");
+      this.close();
+    });
+    this.stream.write(JSON.stringify(header) + "\n");
+  }
+
+  output(data: string): void {
+    this.event("o", data);
+  }
+
+  resize(cols: number, rows: number): void {
+    this.event("r", `${cols}x${rows}`);
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.stream.end();
+    this.onClose();
+  }
+
+  private event(code: "o" | "r", data: string): void {
+    if (this.closed) return;
+    const seconds = Number(process.hrtime.bigint() - this.started) / 1e9;
+    this.stream.write(JSON.stringify([Number(seconds.toFixed(6)), code, data]) + "\n");
+  }
+}
+
+/**
+ * Asciicast recordings of bridged terminals under CONFIG_DIR/recordings,
+ * one directory per session and one file per PTY. Old recordings are pruned
+ * by age and total size on startup, hourly and whenever one finishes.
+ */
+export class Recordings {
+  private log: FastifyBaseLogger;
+  private config: RelayConfig["recording"];
+  private active = new Set<string>();
+  private pruneTimer: ReturnType<typeof setInterval> | null = null;
+  private pruning: Promise<void> | null = null;
+
+  constructor(config: RelayConfig, log: FastifyBaseLogger) {
+    this.log = log.child({ module: "recording" });
+    this.config = config.recording;
+  }
+
+  start(): void {
+    this.prune();
+    this.pruneTimer = setInterval(() => this.prune(), PRUNE_INTERVAL_MS);
+  }
+
+  async stop(): Promise<void> {
+    if (this.pruneTimer) clearInterval(this.pruneTimer);
+    await this.pruning;
+  }
+
+  /** Start recording a PTY, or null when recording is disabled. */
+  open(sessionId: string, cols: number, rows: number): Recording | null {
+    if (!this.config.enabled) return null;
+
+    const dir = sessionDir(sessionId);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true, mode: 0o700 });
+
+    const now = new Date();
+    const path = join(dir, `${recordingId(now)}.cast`);
+    this.active.add(path);
+    this.log.info({ sessionId, path }, "Recording terminal");
+
+    return new Recording(
+      path,
+      {
+        version: 2,
+        width: cols,
+        height: rows,
+        timestamp: Math.floor(now.getTime() / 1000),
+        title: sessionId,
+        env: { TERM: "xterm-256color" },
+      },
+      this.log,
+      () => {
+        this.active.delete(path);
+        this.prune();
+      },
+    );
+  }
+
+  /** Recordings for a session, newest first. */
+  async list(sessionId: string): Promise<RecordingInfo[]> {
+    const dir = sessionDir(sessionId);
+    if (!existsSync(dir)) return [];
+
+    const recordings: RecordingInfo[] = [];
+    for (const name of await readdir(dir)) {
+      const id = name.replace(/\.cast$/, "");
+      if (!name.endsWith(".cast") || !RECORDING_ID_RE.test(id)) continue;
+      const path = join(dir, name);
+      try {
+        const info = await stat(path);
+        recordings.push({
+          id,
+          sessionId,
+          startedAt: startedAt(id),
+          sizeBytes: info.size,
+          active: this.active.has(path),
+        });
+      } catch {
+        // Pruned while listing
+      }
+    }
+    return recordings.sort((a, b) => b.id.localeCompare(a.id));
+  }
+
+  /** File path of a recording, or null if the ID is malformed or unknown. */
+  resolve(sessionId: string, id: string): string | null {
+    if (!RECORDING_ID_RE.test(id)) return null;
+    const path = join(sessionDir(sessionId), `${id}.cast`);
+    return existsSync(path) ? path : null;
+  }
+
+  /** Delete finished recordings past maxAgeDays, then oldest first until under maxTotalMb. */
+  private prune(): void {
+    if (this.pruning) return;
+    this.pruning = this.pruneNow()
+      .catch((err) => this.log.warn({ err }, "Failed to prune recordings"))
+      .finally(() => {
+        this.pruning = null;
+      });
+  }
+
+  private async pruneNow(): Promise<void> {
+    if (!existsSync(RECORDINGS_DIR)) return;
+
+    const files: Array<{ path: string; mtime: number; size: number }> = [];
+    for (const sessionId of await readdir(RECORDINGS_DIR)) {
+      const dir = sessionDir(sessionId);
+      const names = await readdir(dir).catch(() => [] as string[]);
+      for (const name of names) {
+        if (!name.endsWith(".cast")) continue;
+        const path = join(dir, name);
+        const info = await stat(path).catch(() => null);
+        if (info) files.push({ path, mtime: info.mtimeMs, size: info.size });
+      }
+    }
+
+    const cutoff = Date.now() - this.config.maxAgeDays * 24 * 60 * 60 * 1000;
+    const maxBytes = this.config.maxTotalMb * 1024 * 1024;
+    let total = files.reduce((sum, f) => sum + f.size, 0);
+    let removed = 0;
+
+    files.sort((a, b) => a.mtime - b.mtime);
+    for (const file of files) {
+      if (this.active.has(file.path)) continue;
+      if (file.mtime >= cutoff && total <= maxBytes) continue;
+      await unlink(file.path).catch(() => {});
+      total -= file.size;
+      removed++;
+    }
+
+    // Drop session directories left empty (unless a recording is opening there)
+    const activeDirs = new Set([...this.active].map((path) => dirname(path)));
+    for (const sessionId of await readdir(RECORDINGS_DIR)) {
+      const dir = sessionDir(sessionId);
+      if (!activeDirs.has(dir)) await rmdir(dir).catch(() => {});
+    }
+
+    if (removed > 0) {
+      this.log.info({ removed, remainingBytes: total }, "Pruned old recordings");
+    }
+  }
+}
@@ -0,0 +1,20 @@
+/** A recorded terminal session, as listed by the API. */
+export interface RecordingInfo {
+  /** Start time with ":" and "." replaced, e.g. "2026-01-31T09-15-00-000Z". Also the file stem. */
+  id: string;
+  sessionId: string;
+  startedAt: string; // ISO 8601
+  sizeBytes: number;
+  /** Still being written — the PTY is running. */
+  active: boolean;
+}
+
+/** Asciicast v2 header line. https://docs.asciinema.org/manual/asciicast/v2/ */
+export interface AsciicastHeader {
+  version: 2;
+  width: number;
+  height: number;
+  timestamp: number; // Unix seconds
+  title?: string;
+  env?: Record<string, string>;
+}
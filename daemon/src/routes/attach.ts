@@ -34,10 +34,23 @@ export function registerAttachRoutes(
   });
 
   // POST /api/sessions/:id/attach — create/attach tmux session
-  app.post<{ Params: { id: string } }>(
+  // Body: { mode?: "control" | "observe", takeover?: boolean }
+  // observe issues a view-only token; takeover evicts the current controller
+  app.post<{ Params: { id: string }; Body: { mode?: string; takeover?: boolean } }>(
     "/api/sessions/:id/attach",
     async (request, reply) => {
       const sessionId = request.params.id;
+      const mode = request.body?.mode ?? "control";
+      const takeover = request.body?.takeover === true;
+
+      if (mode !== "control" && mode !== "observe") {
+        reply.code(400).send({
+          error: "INVALID_MODE",
+          message: "mode must be \"control\" or \"observe\"",
+          action: "Omit mode to take control, or pass \"observe\" to watch",
+        });
+        return;
+      }
 
       // Validate session ID format
       if (!isValidSessionId(sessionId)) {
@@ -65,6 +78,27 @@ export function registerAttachRoutes(
         return;
       }
 
+      // Observers join the running terminal — nothing to create, no conflict checks
+      if (mode === "observe") {
+        if (!(await tmuxManager.hasSession(tmuxName))) {
+          reply.code(409).send({
+            error: "NOT_RUNNING",
+            message: "Session isn't running — there's nothing to watch",
+            action: "Open the session normally to start it",
+          });
+          return;
+        }
+
+        const token = attachTokens.generate(sessionId, request.device, "observe");
+        return {
+          wsUrl: `/terminal/${sessionId}`,
+          tmuxSession: tmuxName,
+          existed: true,
+          mode,
+          attachToken: token,
+        };
+      }
+
       // Rate limit: 1 attach per session per 5 seconds
       const now = Date.now();
       const lastAttach = lastAttachTime.get(sessionId);
@@ -80,19 +114,24 @@ export function registerAttachRoutes(
 
       try {
         const projectPath = registry.getSessionProjectPath(sessionId);
-        const result = await tmuxManager.attach(sessionId, projectPath);
+        const result = await tmuxManager.attach(sessionId, projectPath, takeover);
 
         // Generate single-use attach token for the WS connection
-        const token = attachTokens.generate(sessionId);
+        const token = attachTokens.generate(sessionId, request.device, mode, takeover);
+        if (takeover) request.auditDetail = { takeover };
 
         return {
           wsUrl: `/terminal/${sessionId}`,
           tmuxSession: result.tmuxSession,
           existed: result.existed,
+          mode,
           attachToken: token,
         };
       } catch (err) {
         if (err instanceof SessionConflictError) {
+          // A refused attach doesn't count toward the rate limit, so the
+          // client can retry straight away with takeover or observe
+          lastAttachTime.delete(sessionId);
           reply.code(409).send({
             error: err.code,
             message: err.message,
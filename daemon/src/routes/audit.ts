@@ -0,0 +1,41 @@
+import type { FastifyInstance } from "fastify";
+import type { AuditLog } from "../audit/log.js";
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+/** Parse an ISO 8601 timestamp or epoch milliseconds. Returns null if invalid. */
+function parseTime(value: string): Date | null {
+  const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function registerAuditRoutes(app: FastifyInstance, audit: AuditLog): void {
+  // GET /api/audit?since=&until=&limit= — audit entries in a time range, oldest first
+  app.get<{ Querystring: { since?: string; until?: string; limit?: string } }>(
+    "/api/audit",
+    async (request, reply) => {
+      const { since, until, limit } = request.query;
+
+      const sinceDate = since ? parseTime(since) : undefined;
+      const untilDate = until ? parseTime(until) : undefined;
+      if (sinceDate === null || untilDate === null) {
+        reply.code(400).send({
+          error: "INVALID_RANGE",
+          message: "since and until must be ISO 8601 timestamps or epoch milliseconds",
+          action: "Check the time range and try again",
+        });
+        return;
+      }
+
+      const parsedLimit = parseInt(limit ?? "", 10);
+      const entries = await audit.query({
+        since: sinceDate,
+        until: untilDate,
+        limit: parsedLimit > 0 ? Math.min(parsedLimit, MAX_LIMIT) : DEFAULT_LIMIT,
+      });
+
+      return { entries };
+    },
+  );
+}
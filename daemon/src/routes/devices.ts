@@ -0,0 +1,73 @@
+import type { FastifyInstance } from "fastify";
+import type { DeviceRegistry } from "../devices/registry.js";
+import { MAX_DEVICE_NAME } from "../devices/registry.js";
+
+export function registerDeviceRoutes(
+  app: FastifyInstance,
+  devices: DeviceRegistry,
+): void {
+  // GET /api/devices — list paired devices
+  app.get("/api/devices", async (request) => {
+    return devices.list().map((d) => ({
+      ...d,
+      current: d.id === request.device?.id,
+    }));
+  });
+
+  // POST /api/devices — register a new device (PSK only), returns its credential once
+  app.post<{ Body: { name?: unknown } }>(
+    "/api/devices",
+    async (request, reply) => {
+      if (request.device) {
+        reply.code(403).send({
+          error: "FORBIDDEN",
+          message: "Only the relay key can register new devices",
+          action: "Register the device using the pre-shared key from the daemon config",
+        });
+        return;
+      }
+
+      const rawName = request.body?.name;
+      if (rawName !== undefined && typeof rawName !== "string") {
+        reply.code(400).send({
+          error: "INVALID_INPUT",
+          message: "name must be a string",
+          action: "Provide a short name for this device",
+        });
+        return;
+      }
+
+      const name = rawName?.trim();
+      if (!name || name.length > MAX_DEVICE_NAME) {
+        reply.code(400).send({
+          error: "INVALID_NAME",
+          message: `Device name is required (max ${MAX_DEVICE_NAME} characters)`,
+          action: "Provide a short name for this device",
+        });
+        return;
+      }
+
+      const { device, credential } = await devices.register(name);
+      request.auditDetail = { registered: { id: device.id, name: device.name } };
+      return { device, credential };
+    },
+  );
+
+  // POST /api/devices/:id/revoke — revoke a device's credential
+  app.post<{ Params: { id: string } }>(
+    "/api/devices/:id/revoke",
+    async (request, reply) => {
+      const revoked = await devices.revoke(request.params.id);
+      if (!revoked) {
+        reply.code(404).send({
+          error: "NOT_FOUND",
+          message: "Device not found",
+          action: "Check the device ID and try again",
+        });
+        return;
+      }
+
+      return { success: true };
+    },
+  );
+}
@@ -0,0 +1,221 @@
+import type { FastifyInstance } from "fastify";
+import { stat } from "node:fs/promises";
+import type { SessionRegistry, SessionView } from "../sessions/registry.js";
+import type { SessionDiscovery } from "../sessions/discovery.js";
+import type { TerminalBridge } from "../terminal/bridge.js";
+import type { TerminalOrigin, AttachMode } from "../terminal/client.js";
+import { isValidSessionId } from "../auth.js";
+import { readTranscriptFrom } from "../sessions/transcript.js";
+
+// Catches what no event announces, like the tmux session exiting
+const POLL_INTERVAL_MS = 10_000;
+const KEEPALIVE_INTERVAL_MS = 30_000;
+
+/** One client's view of a session, updated as events arrive. */
+interface SessionWatcher {
+  /** Tail the JSONL and compare state. */
+  update(): void;
+  /** A terminal client attached or detached. */
+  terminal(event: "attach" | "detach", origin: TerminalOrigin, mode: AttachMode): void;
+}
+
+/**
+ * Per-session SSE endpoint for a chat view that wants to follow one session.
+ *
+ * Tails the session's JSONL from a byte offset (`?from=`, the Last-Event-ID
+ * header, or by default the current end of the file) and sends:
+ *   session   — the full SessionView, once on connect
+ *   messages  — { messages, end } for transcript lines appended since the last read
+ *   state     — { claudeState, previousState, pendingTool } on a state change
+ *   tmux      — { tmuxStatus, previousStatus } when the tmux session starts or exits
+ *   attach / detach — { mode, device, hasActiveConnection, observerCount }
+ *   removed   — the JSONL is gone; the stream ends
+ * Every event's ID is the transcript offset read up to, so a reconnecting
+ * client picks up exactly where it stopped.
+ */
+export function registerSessionEventRoutes(
+  app: FastifyInstance,
+  registry: SessionRegistry,
+  discovery: SessionDiscovery,
+  bridge: TerminalBridge,
+): void {
+  // One listener per emitter, dispatched by session — not one per client
+  const watchers = new Map<string, Set<SessionWatcher>>();
+  const forSession = (sessionId: string): Set<SessionWatcher> => watchers.get(sessionId) ?? new Set();
+
+  discovery.on("updated", (sessionId: string) => {
+    for (const watcher of forSession(sessionId)) watcher.update();
+  });
+  registry.on("change", (sessionId: string) => {
+    for (const watcher of forSession(sessionId)) watcher.update();
+  });
+  bridge.on("attach", (sessionId: string, origin: TerminalOrigin, mode: AttachMode) => {
+    for (const watcher of forSession(sessionId)) watcher.terminal("attach", origin, mode);
+  });
+  bridge.on("detach", (sessionId: string, origin: TerminalOrigin, _durationMs: number, mode: AttachMode) => {
+    for (const watcher of forSession(sessionId)) watcher.terminal("detach", origin, mode);
+  });
+
+  // GET /api/sessions/:id/events?from= — SSE stream of one session's activity
+  app.get<{ Params: { id: string }; Querystring: { from?: string } }>(
+    "/api/sessions/:id/events",
+    async (request, reply) => {
+      const sessionId = request.params.id;
+      if (!isValidSessionId(sessionId)) {
+        reply.code(400).send({
+          error: "INVALID_SESSION_ID",
+          message: "Session ID must be a valid UUID",
+          action: "Check the session ID format",
+        });
+        return;
+      }
+
+      const filePath = registry.getSessionFile(sessionId);
+      const initial = await registry.getSession(sessionId);
+      if (!filePath || !initial) {
+        reply.code(404).send({
+          error: "NOT_FOUND",
+          message: "Session not found",
+          action: "Check the session ID and try again",
+        });
+        return;
+      }
+
+      // An explicit ?from= wins over the ID of the last event a reconnecting client saw
+      const header = request.headers["last-event-id"];
+      const requested = request.query.from ?? (Array.isArray(header) ? header[0] : header);
+      const from = requested !== undefined ? Number(requested) : undefined;
+      const { size } = await stat(filePath);
+      if (from !== undefined && !(Number.isSafeInteger(from) && from >= 0 && from <= size)) {
+        reply.code(400).send({
+          error: "INVALID_OFFSET",
+          message: "from must be a byte offset within the transcript, such as a transcript page's end",
+          action: "Omit from to follow the session from now on",
+        });
+        return;
+      }
+
+      reply.raw.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no", // Disable nginx buffering if proxied
+      });
+
+      let offset = from ?? size;
+      let last: SessionView = initial;
+      let closed = false;
+      let checking: Promise<void> | null = null;
+      let recheck = false;
+
+      const send = (event: string, data: unknown): void => {
+        if (closed || reply.raw.writableEnded) return;
+        try {
+          reply.raw.write(`id: ${offset}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        } catch {
+          closed = true;
+        }
+      };
+
+      const checkNow = async (): Promise<void> => {
+        const view = await registry.getSession(sessionId);
+        if (!view) {
+          send("removed", { id: sessionId });
+          stop();
+          reply.raw.end();
+          return;
+        }
+
+        const tail = await readTranscriptFrom(filePath, offset);
+        if (tail && tail.end > offset) {
+          offset = tail.end;
+          if (tail.messages.length > 0) send("messages", { messages: tail.messages, end: offset });
+        }
+        if (view.claudeState !== last.claudeState || view.pendingTool?.id !== last.pendingTool?.id) {
+          send("state", {
+            claudeState: view.claudeState,
+            previousState: last.claudeState,
+            pendingTool: view.pendingTool,
+          });
+        }
+        if (view.tmuxStatus !== last.tmuxStatus) {
+          send("tmux", { tmuxStatus: view.tmuxStatus, previousStatus: last.tmuxStatus });
+        }
+        last = view;
+      };
+
+      // Coalesces overlapping calls, so reads never race on the offset
+      const update = (): void => {
+        if (closed) return;
+        if (checking) {
+          recheck = true;
+          return;
+        }
+        checking = checkNow()
+          .catch((err) => request.log.warn({ err, sessionId }, "Session event check failed"))
+          .finally(() => {
+            checking = null;
+            if (recheck) {
+              recheck = false;
+              update();
+            }
+          });
+      };
+
+      const watcher: SessionWatcher = {
+        update,
+        terminal: (event, origin, mode) => {
+          registry
+            .getSession(sessionId)
+            .then((view) => {
+              if (!view || closed) return;
+              send(event, {
+                mode,
+                device: origin.device?.name ?? null,
+                hasActiveConnection: view.hasActiveConnection,
+                observerCount: view.observerCount,
+              });
+            })
+            .catch(() => {});
+        },
+      };
+
+      const poll = setInterval(update, POLL_INTERVAL_MS);
+      const keepAlive = setInterval(() => {
+        if (closed || reply.raw.writableEnded) return;
+        try {
+          reply.raw.write(": keepalive\n\n");
+        } catch {
+          closed = true;
+        }
+      }, KEEPALIVE_INTERVAL_MS);
+
+      const set = forSession(sessionId);
+      set.add(watcher);
+      watchers.set(sessionId, set);
+
+      // Nothing is written after this — on disconnect, or before ending the stream ourselves
+      const stop = (): void => {
+        closed = true;
+        clearInterval(poll);
+        clearInterval(keepAlive);
+        set.delete(watcher);
+        if (set.size === 0 && watchers.get(sessionId) === set) watchers.delete(sessionId);
+      };
+
+      send("session", initial);
+      // Anything appended between `from` and now goes out right away
+      if (offset < size) update();
+
+      request.log.info({ sessionId, from: offset }, "Session event client connected");
+
+      reply.raw.on("close", () => {
+        stop();
+        request.log.info({ sessionId }, "Session event client disconnected");
+      });
+
+      // Prevent Fastify from ending the response
+      return reply;
+    },
+  );
+}
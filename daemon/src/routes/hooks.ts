@@ -0,0 +1,22 @@
+import type { FastifyInstance } from "fastify";
+import type { SessionRegistry } from "../sessions/registry.js";
+import { parseHookPayload, HOOK_EVENTS } from "../sessions/hooks.js";
+
+export function registerHookRoutes(app: FastifyInstance, registry: SessionRegistry): void {
+  // POST /api/hooks — Claude Code hook events (local only, hook token auth)
+  // Body: the hook's stdin JSON, posted as-is (see `npm run hooks`)
+  app.post("/api/hooks", async (request, reply) => {
+    const hook = parseHookPayload(request.body);
+    if (!hook) {
+      reply.code(400).send({
+        error: "INVALID_HOOK",
+        message: `Expected a ${HOOK_EVENTS.join(", ")} hook payload with a session_id`,
+        action: "Regenerate the hook config with `npm run hooks`",
+      });
+      return;
+    }
+
+    registry.recordHook(hook);
+    return { success: true };
+  });
+}
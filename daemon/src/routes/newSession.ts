@@ -104,7 +104,8 @@ export function registerNewSessionRoutes(
 
       try {
         const result = await tmuxManager.createNew(resolved);
-        const token = attachTokens.generate(result.sessionId);
+        const token = attachTokens.generate(result.sessionId, request.device);
+        request.auditDetail = { sessionId: result.sessionId, projectPath: resolved };
 
         return {
           sessionId: result.sessionId,
@@ -0,0 +1,71 @@
+import type { FastifyInstance } from "fastify";
+import type { Webhooks } from "../notifications/webhooks.js";
+import type { PushPublisher } from "../notifications/push.js";
+import type { SessionRegistry } from "../sessions/registry.js";
+import type { NotificationPayload } from "../notifications/types.js";
+
+/** Position in a list of `count` targets: undefined if not given, null if out of range. */
+function parseIndex(value: unknown, count: number): number | undefined | null {
+  if (value === undefined) return undefined;
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 && value < count
+    ? value
+    : null;
+}
+
+export function registerNotificationRoutes(
+  app: FastifyInstance,
+  webhooks: Webhooks,
+  push: PushPublisher,
+  registry: SessionRegistry,
+): void {
+  // POST /api/notifications/test — send a sample notification to the configured targets
+  // Body: { webhook?: number } or { push?: number } to fire just that one
+  app.post<{ Body: { webhook?: unknown; push?: unknown } }>(
+    "/api/notifications/test",
+    async (request, reply) => {
+      if (webhooks.count === 0 && push.count === 0) {
+        reply.code(409).send({
+          error: "NO_TARGETS",
+          message: "No webhooks or push servers are configured",
+          action: "Add notifications.webhooks or notifications.push to config.yaml and restart the daemon",
+        });
+        return;
+      }
+
+      const webhook = parseIndex(request.body?.webhook, webhooks.count);
+      const target = parseIndex(request.body?.push, push.count);
+      if (webhook === null || target === null) {
+        reply.code(400).send({
+          error: "INVALID_TARGET",
+          message: "webhook and push must be positions in notifications.webhooks and notifications.push",
+          action: "Check the target's position in config.yaml (counting from 0)",
+        });
+        return;
+      }
+
+      // Sample from the most recent session, so templates render realistically
+      const [session] = await registry.listSessions();
+      const payload: NotificationPayload = {
+        event: "waiting",
+        sessionId: session?.id ?? "",
+        projectName: session?.projectName ?? "claude-conduit",
+        projectPath: session?.projectPath ?? "",
+        state: "waiting",
+        previousState: "thinking",
+        title: "Test notification from Claude Conduit",
+        message: session?.lastMessagePreview || "Notifications are working.",
+        tool: "",
+        timestamp: new Date().toISOString(),
+      };
+
+      // One target if asked for, else everything
+      const all = webhook === undefined && target === undefined;
+      const results = [
+        ...(all || webhook !== undefined ? await webhooks.test(payload, webhook) : []),
+        ...(all || target !== undefined ? await push.test(payload, target) : []),
+      ];
+      request.auditDetail = { targets: results.length, failed: results.filter((r) => !r.ok).length };
+      return { results };
+    },
+  );
+}
@@ -0,0 +1,83 @@
+import type { FastifyInstance } from "fastify";
+import type { RelayConfig } from "../config.js";
+import type { DeviceRegistry } from "../devices/registry.js";
+import { MAX_DEVICE_NAME } from "../devices/registry.js";
+import type { PairingCodes, AuthLockouts } from "../auth.js";
+import { sendLockedOut } from "../auth.js";
+import type { TlsMaterial } from "../tls.js";
+import { pairingPayload } from "../pairing.js";
+
+export function registerPairingRoutes(
+  app: FastifyInstance,
+  config: RelayConfig,
+  devices: DeviceRegistry,
+  pairingCodes: PairingCodes,
+  lockouts: AuthLockouts,
+  tls: TlsMaterial | null,
+): void {
+  // POST /api/pairing/codes — mint a one-time pairing code (PSK only)
+  app.post("/api/pairing/codes", async (request, reply) => {
+    if (request.device) {
+      reply.code(403).send({
+        error: "FORBIDDEN",
+        message: "Only the relay key can mint pairing codes",
+        action: "Run `npm run pair` on the Mac running the daemon",
+      });
+      return;
+    }
+
+    const { code, expiresAt } = pairingCodes.generate();
+    return {
+      code,
+      expiresAt: expiresAt.toISOString(),
+      payload: pairingPayload(config, code, tls),
+    };
+  });
+
+  // POST /api/pairing/exchange — trade a pairing code for a device credential (no auth)
+  app.post<{ Body: { code?: unknown; name?: unknown } }>(
+    "/api/pairing/exchange",
+    async (request, reply) => {
+      const { code, name: rawName } = request.body ?? {};
+      if (rawName !== undefined && typeof rawName !== "string") {
+        reply.code(400).send({
+          error: "INVALID_INPUT",
+          message: "name must be a string",
+          action: "Provide a short name for this device",
+        });
+        return;
+      }
+
+      const name = rawName?.trim();
+
+      if (!name || name.length > MAX_DEVICE_NAME) {
+        reply.code(400).send({
+          error: "INVALID_NAME",
+          message: `Device name is required (max ${MAX_DEVICE_NAME} characters)`,
+          action: "Provide a short name for this device",
+        });
+        return;
+      }
+
+      if (!code || typeof code !== "string" || !pairingCodes.consume(code)) {
+        request.log.warn({ ip: request.ip }, "Invalid pairing code");
+        const lockedFor = lockouts.recordFailure(request.ip);
+        if (lockedFor) {
+          sendLockedOut(reply, lockedFor);
+          return;
+        }
+        reply.code(401).send({
+          error: "INVALID_PAIRING_CODE",
+          message: "Pairing code is invalid or expired",
+          action: "Run `npm run pair` on your Mac to get a new code",
+        });
+        return;
+      }
+
+      lockouts.recordSuccess(request.ip);
+      const { device, credential } = await devices.register(name);
+      request.auditDetail = { registered: { id: device.id, name: device.name } };
+      return { device, credential };
+    },
+  );
+}
@@ -0,0 +1,138 @@
+import type { FastifyInstance } from "fastify";
+import type { PromptQueue } from "../queue/queue.js";
+import type { SessionRegistry } from "../sessions/registry.js";
+import { MAX_QUEUED_PER_SESSION } from "../queue/queue.js";
+import { isValidSessionId } from "../auth.js";
+
+const MAX_PROMPT_CHARS = 10_000;
+
+export function registerQueueRoutes(
+  app: FastifyInstance,
+  queue: PromptQueue,
+  registry: SessionRegistry,
+): void {
+  // GET /api/sessions/:id/queue — prompts waiting to be sent, in delivery order
+  app.get<{ Params: { id: string } }>(
+    "/api/sessions/:id/queue",
+    async (request, reply) => {
+      if (!isValidSessionId(request.params.id)) {
+        reply.code(400).send({
+          error: "INVALID_SESSION_ID",
+          message: "Session ID must be a valid UUID",
+          action: "Check the session ID format",
+        });
+        return;
+      }
+
+      return { prompts: queue.list(request.params.id) };
+    },
+  );
+
+  // POST /api/sessions/:id/queue — queue a prompt for when Claude is next waiting
+  // Body: { text: string }
+  app.post<{ Params: { id: string }; Body: { text?: unknown } }>(
+    "/api/sessions/:id/queue",
+    async (request, reply) => {
+      const sessionId = request.params.id;
+      if (!isValidSessionId(sessionId)) {
+        reply.code(400).send({
+          error: "INVALID_SESSION_ID",
+          message: "Session ID must be a valid UUID",
+          action: "Check the session ID format",
+        });
+        return;
+      }
+
+      const text = request.body?.text;
+      if (typeof text !== "string" || !text.trim() || text.length > MAX_PROMPT_CHARS) {
+        reply.code(400).send({
+          error: "INVALID_INPUT",
+          message: `text must be a non-empty string of at most ${MAX_PROMPT_CHARS} characters`,
+          action: "Check the message and try again",
+        });
+        return;
+      }
+
+      if (!registry.hasSession(sessionId)) {
+        reply.code(404).send({
+          error: "NOT_FOUND",
+          message: "Session not found",
+          action: "Check the session ID and try again",
+        });
+        return;
+      }
+
+      const prompt = await queue.enqueue(sessionId, text, request.device?.id ?? null);
+      if (!prompt) {
+        reply.code(409).send({
+          error: "QUEUE_FULL",
+          message: `At most ${MAX_QUEUED_PER_SESSION} prompts can be queued per session`,
+          action: "Wait for queued prompts to be sent, or cancel some",
+        });
+        return;
+      }
+
+      request.auditDetail = { promptId: prompt.id, chars: text.length };
+      return { prompt };
+    },
+  );
+
+  // POST /api/sessions/:id/queue/reorder — Body: { ids: string[] } listing every queued prompt
+  app.post<{ Params: { id: string }; Body: { ids?: unknown } }>(
+    "/api/sessions/:id/queue/reorder",
+    async (request, reply) => {
+      const sessionId = request.params.id;
+      if (!isValidSessionId(sessionId)) {
+        reply.code(400).send({
+          error: "INVALID_SESSION_ID",
+          message: "Session ID must be a valid UUID",
+          action: "Check the session ID format",
+        });
+        return;
+      }
+
+      const ids = request.body?.ids;
+      const valid =
+        Array.isArray(ids) &&
+        ids.every((id): id is string => typeof id === "string") &&
+        (await queue.reorder(sessionId, ids));
+      if (!valid) {
+        reply.code(400).send({
+          error: "INVALID_ORDER",
+          message: "ids must list every queued prompt of the session exactly once",
+          action: "Refresh the queue and try again",
+        });
+        return;
+      }
+
+      return { prompts: queue.list(sessionId) };
+    },
+  );
+
+  // POST /api/sessions/:id/queue/:promptId/cancel — drop a queued prompt
+  app.post<{ Params: { id: string; promptId: string } }>(
+    "/api/sessions/:id/queue/:promptId/cancel",
+    async (request, reply) => {
+      const { id: sessionId, promptId } = request.params;
+      if (!isValidSessionId(sessionId)) {
+        reply.code(400).send({
+          error: "INVALID_SESSION_ID",
+          message: "Session ID must be a valid UUID",
+          action: "Check the session ID format",
+        });
+        return;
+      }
+
+      if (!(await queue.cancel(sessionId, promptId))) {
+        reply.code(404).send({
+          error: "NOT_FOUND",
+          message: "Queued prompt not found — it may already have been sent",
+          action: "Refresh the queue",
+        });
+        return;
+      }
+
+      return { success: true };
+    },
+  );
+}
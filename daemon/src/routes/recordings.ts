@@ -0,0 +1,55 @@
+import { createReadStream } from "node:fs";
+import type { FastifyInstance } from "fastify";
+import type { Recordings } from "../recording/recordings.js";
+import { isValidSessionId } from "../auth.js";
+
+export function registerRecordingRoutes(app: FastifyInstance, recordings: Recordings): void {
+  // GET /api/sessions/:id/recordings — asciicast recordings of a session, newest first
+  app.get<{ Params: { id: string } }>(
+    "/api/sessions/:id/recordings",
+    async (request, reply) => {
+      const sessionId = request.params.id;
+      if (!isValidSessionId(sessionId)) {
+        reply.code(400).send({
+          error: "INVALID_SESSION_ID",
+          message: "Session ID must be a valid UUID",
+          action: "Check the session ID format",
+        });
+        return;
+      }
+
+      return { recordings: await recordings.list(sessionId) };
+    },
+  );
+
+  // GET /api/sessions/:id/recordings/:recordingId — download one .cast file
+  app.get<{ Params: { id: string; recordingId: string } }>(
+    "/api/sessions/:id/recordings/:recordingId",
+    async (request, reply) => {
+      const { id: sessionId, recordingId } = request.params;
+      if (!isValidSessionId(sessionId)) {
+        reply.code(400).send({
+          error: "INVALID_SESSION_ID",
+          message: "Session ID must be a valid UUID",
+          action: "Check the session ID format",
+        });
+        return;
+      }
+
+      const path = recordings.resolve(sessionId, recordingId);
+      if (!path) {
+        reply.code(404).send({
+          error: "NOT_FOUND",
+          message: "Recording not found",
+          action: "List the session's recordings and try again",
+        });
+        return;
+      }
+
+      reply
+        .header("Content-Type", "application/x-asciicast")
+        .header("Content-Disposition", `attachment; filename="${sessionId}-${recordingId}.cast"`);
+      return reply.send(createReadStream(path));
+    },
+  );
+}
@@ -1,7 +1,21 @@
 import type { FastifyInstance } from "fastify";
 import type { SessionRegistry } from "../sessions/registry.js";
 import type { TmuxManager } from "../tmux/manager.js";
+import { SessionConflictError } from "../tmux/manager.js";
 import { isValidSessionId } from "../auth.js";
+import { readTranscript } from "../sessions/transcript.js";
+import {
+  answerPermissionPrompt,
+  PERMISSION_DECISIONS,
+  type PermissionDecision,
+} from "../tmux/prompt.js";
+import { PaneInputError, typeIntoPane, waitForPaneReady } from "../tmux/input.js";
+
+const DEFAULT_TRANSCRIPT_LIMIT = 50;
+const MAX_TRANSCRIPT_LIMIT = 200;
+const MAX_INPUT_CHARS = 10_000;
+// How long a just-started `claude --resume` gets to come up before typing
+const INPUT_READY_TIMEOUT_MS = 20_000;
 
 export function registerSessionRoutes(
   app: FastifyInstance,
@@ -40,6 +54,59 @@ export function registerSessionRoutes(
     },
   );
 
+  // GET /api/sessions/:id/transcript?before=&limit= — parsed conversation, paged back from the end
+  app.get<{ Params: { id: string }; Querystring: { before?: string; limit?: string } }>(
+    "/api/sessions/:id/transcript",
+    async (request, reply) => {
+      if (!isValidSessionId(request.params.id)) {
+        reply.code(400).send({
+          error: "INVALID_SESSION_ID",
+          message: "Session ID must be a valid UUID",
+          action: "Check the session ID format",
+        });
+        return;
+      }
+
+      const filePath = registry.getSessionFile(request.params.id);
+      if (!filePath) {
+        reply.code(404).send({
+          error: "NOT_FOUND",
+          message: "Session not found",
+          action: "Check the session ID and try again",
+        });
+        return;
+      }
+
+      const { before, limit } = request.query;
+      const beforeOffset = before !== undefined ? Number(before) : undefined;
+      if (beforeOffset !== undefined && !(Number.isSafeInteger(beforeOffset) && beforeOffset >= 0)) {
+        reply.code(400).send({
+          error: "INVALID_CURSOR",
+          message: "before must be a cursor returned by a previous transcript page",
+          action: "Omit before to start from the end of the conversation",
+        });
+        return;
+      }
+
+      const parsedLimit = parseInt(limit ?? "", 10);
+      const page = await readTranscript(
+        filePath,
+        beforeOffset,
+        parsedLimit > 0 ? Math.min(parsedLimit, MAX_TRANSCRIPT_LIMIT) : DEFAULT_TRANSCRIPT_LIMIT,
+      );
+      if (!page) {
+        reply.code(400).send({
+          error: "INVALID_CURSOR",
+          message: "before is past the end of the transcript",
+          action: "Omit before to start from the end of the conversation",
+        });
+        return;
+      }
+
+      return page;
+    },
+  );
+
   // POST /api/sessions/:id/kill — kill a tmux session
   app.post<{ Params: { id: string } }>(
     "/api/sessions/:id/kill",
@@ -69,10 +136,169 @@ export function registerSessionRoutes(
     },
   );
 
+  // POST /api/sessions/:id/permission — answer a tool permission prompt by keystroke
+  app.post<{ Params: { id: string }; Body: { decision?: PermissionDecision } }>(
+    "/api/sessions/:id/permission",
+    async (request, reply) => {
+      const sessionId = request.params.id;
+
+      if (!isValidSessionId(sessionId)) {
+        reply.code(400).send({
+          error: "INVALID_SESSION_ID",
+          message: "Session ID must be a valid UUID",
+          action: "Check the session ID format",
+        });
+        return;
+      }
+
+      const decision = request.body?.decision;
+      if (!decision || !PERMISSION_DECISIONS.includes(decision)) {
+        reply.code(400).send({
+          error: "INVALID_DECISION",
+          message: `decision must be one of: ${PERMISSION_DECISIONS.join(", ")}`,
+          action: "Check the request body",
+        });
+        return;
+      }
+
+      const tmuxName = tmuxManager.tmuxName(sessionId);
+      if (!(await tmuxManager.hasSession(tmuxName))) {
+        reply.code(404).send({
+          error: "NOT_RUNNING",
+          message: "Session is not running in tmux",
+          action: "Open the session to start it",
+        });
+        return;
+      }
+
+      request.auditDetail = { decision };
+      const result = await answerPermissionPrompt(tmuxName, decision);
+      switch (result) {
+        case "answered":
+          return { success: true, decision };
+        case "no_prompt":
+          reply.code(409).send({
+            error: "NO_PERMISSION_PROMPT",
+            message: "Claude isn't waiting for permission in this session",
+            action: "Refresh the session list",
+          });
+          return;
+        case "unavailable":
+          reply.code(409).send({
+            error: "OPTION_UNAVAILABLE",
+            message: `This prompt doesn't offer "${decision}"`,
+            action: "Choose another option or answer in the terminal",
+          });
+          return;
+        case "not_cleared":
+          reply.code(502).send({
+            error: "PROMPT_NOT_CLEARED",
+            message: "Sent the answer but the prompt is still showing",
+            action: "Open the terminal to answer the prompt",
+          });
+          return;
+      }
+    },
+  );
+
+  // POST /api/sessions/:id/input — type a message into the session's pane
+  // Body: { text: string, submit?: boolean } — submit (default true) presses Enter after it
+  app.post<{ Params: { id: string }; Body: { text?: unknown; submit?: boolean } }>(
+    "/api/sessions/:id/input",
+    async (request, reply) => {
+      const sessionId = request.params.id;
+
+      if (!isValidSessionId(sessionId)) {
+        reply.code(400).send({
+          error: "INVALID_SESSION_ID",
+          message: "Session ID must be a valid UUID",
+          action: "Check the session ID format",
+        });
+        return;
+      }
+
+      const text = request.body?.text;
+      const submit = request.body?.submit !== false;
+      if (typeof text !== "string" || (!text && !submit) || text.length > MAX_INPUT_CHARS) {
+        reply.code(400).send({
+          error: "INVALID_INPUT",
+          message: `text must be a string of at most ${MAX_INPUT_CHARS} characters`,
+          action: "Check the message and try again",
+        });
+        return;
+      }
+
+      const tmuxName = tmuxManager.tmuxName(sessionId);
+      let created = false;
+      if (!(await tmuxManager.hasSession(tmuxName))) {
+        if (!registry.hasSession(sessionId)) {
+          reply.code(404).send({
+            error: "NOT_FOUND",
+            message: "Session not found",
+            action: "Check the session ID and try again",
+          });
+          return;
+        }
+
+        try {
+          const result = await tmuxManager.ensureSession(
+            sessionId,
+            registry.getSessionProjectPath(sessionId),
+          );
+          created = !result.existed;
+        } catch (err) {
+          if (err instanceof SessionConflictError) {
+            reply.code(409).send({
+              error: err.code,
+              message: err.message,
+              action: err.message,
+            });
+            return;
+          }
+          throw err;
+        }
+        registry.invalidateTmuxCache();
+
+        if (created && !(await waitForPaneReady(tmuxName, INPUT_READY_TIMEOUT_MS))) {
+          reply.code(504).send({
+            error: "NOT_READY",
+            message: "Claude is still starting up — the message wasn't sent",
+            action: "Open the terminal to check on the session",
+          });
+          return;
+        }
+      }
+
+      try {
+        await typeIntoPane(tmuxName, text, submit);
+      } catch (err) {
+        if (!(err instanceof PaneInputError)) throw err;
+        request.log.warn({ err, sessionId }, "Typing into the session failed");
+        if (!(await tmuxManager.hasSession(tmuxName))) {
+          reply.code(410).send({
+            error: "SESSION_ENDED",
+            message: "The session's tmux session ended before the message was sent",
+            action: "Open the session to start it again",
+          });
+          return;
+        }
+        reply.code(409).send({
+          error: "INPUT_FAILED",
+          message: "tmux couldn't type the message into the session",
+          action: "Try again, or open the terminal",
+        });
+        return;
+      }
+      request.auditDetail = { chars: text.length, submit, created };
+      return { success: true, created };
+    },
+  );
+
   // POST /api/sessions/kill-all — kill all Claude tmux sessions
-  app.post("/api/sessions/kill-all", async () => {
+  app.post("/api/sessions/kill-all", async (request) => {
     const killed = await tmuxManager.killAllClaudeSessions();
     registry.invalidateTmuxCache();
+    request.auditDetail = { killed };
     return { success: true, killed };
   });
 
@@ -3,6 +3,8 @@ import { execFile } from "node:child_process";
 import { promisify } from "node:util";
 import type { TmuxManager } from "../tmux/manager.js";
 import type { RelayConfig } from "../config.js";
+import type { TlsMaterial } from "../tls.js";
+import type { AuthLockouts } from "../auth.js";
 
 const exec = promisify(execFile);
 
@@ -10,6 +12,8 @@ export function registerStatusRoutes(
   app: FastifyInstance,
   config: RelayConfig,
   tmuxManager: TmuxManager,
+  tls: TlsMaterial | null,
+  lockouts: AuthLockouts,
 ): void {
   app.get("/api/status", async () => {
     let claudeVersion = "unknown";
@@ -32,6 +36,11 @@ export function registerStatusRoutes(
         attached: s.tmux.attached,
         created: s.tmux.created.toISOString(),
       })),
+      tls: {
+        enabled: !!tls,
+        fingerprint: tls?.fingerprint ?? null,
+      },
+      authLockouts: lockouts.summary(),
       uptime: process.uptime(),
     };
   });
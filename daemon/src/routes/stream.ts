@@ -7,12 +7,27 @@ interface SSEClient {
   alive: boolean;
 }
 
+/** A delta already sent to clients, kept for Last-Event-ID replay. */
+interface StreamEvent {
+  seq: number;
+  frame: string;
+}
+
+// Deltas kept for resuming clients; older IDs get a fresh snapshot instead
+const HISTORY_SIZE = 500;
+
 /**
  * SSE endpoint for real-time session list updates.
  *
- * Sends the full enriched session list whenever discovery detects a change
- * (debounced to 2s windows by SessionDiscovery). Clients get an immediate
- * snapshot on connect, then incremental pushes.
+ * Clients get a `sessions` snapshot of the full enriched list on connect,
+ * then `session-added` / `session-updated` (the session) and
+ * `session-removed` ({ id }) deltas whenever discovery detects a change
+ * (debounced to 2s windows by SessionDiscovery) or a Claude Code hook event
+ * changes a session's state (immediately).
+ *
+ * Every event carries an ID. A client reconnecting with Last-Event-ID is
+ * replayed only the deltas it missed; if that ID is from before a daemon
+ * restart or has aged out of the history, it gets a snapshot instead.
  */
 export function registerStreamRoutes(
   app: FastifyInstance,
@@ -21,35 +36,86 @@ export function registerStreamRoutes(
 ): void {
   const clients = new Set<SSEClient>();
 
-  // When discovery emits a change, push to all SSE clients
-  discovery.on("change", () => {
-    if (clients.size === 0) return;
+  // IDs are "<epoch>-<seq>" so IDs from before a restart are never mistaken for current ones
+  const epoch = Date.now().toString(36);
+  let seq = 0;
+  // Serialized view of each session as of `seq`, and the list's order (newest first)
+  const current = new Map<string, string>();
+  let order: string[] = [];
+  const history: StreamEvent[] = [];
+  // Syncs run one at a time so deltas are numbered in the order they're diffed
+  let syncing: Promise<void> = Promise.resolve();
 
-    registry
-      .listSessions()
-      .then((sessions) => {
-        const data = JSON.stringify(sessions);
-        const payload = `event: sessions\ndata: ${data}\n\n`;
-
-        for (const client of clients) {
-          try {
-            client.reply.raw.write(payload);
-          } catch {
-            client.alive = false;
-          }
-        }
+  const eventId = (n: number): string => `${epoch}-${n}`;
 
-        // Prune dead clients
-        for (const client of clients) {
-          if (!client.alive) clients.delete(client);
-        }
-      })
-      .catch((err) => {
-        app.log.warn({ err }, "Failed to build SSE session payload");
-      });
-  });
+  const send = (client: SSEClient, frame: string): void => {
+    try {
+      client.reply.raw.write(frame);
+    } catch {
+      client.alive = false;
+    }
+  };
+
+  const publish = (event: string, data: string): void => {
+    seq++;
+    const frame = `id: ${eventId(seq)}\nevent: ${event}\ndata: ${data}\n\n`;
+    history.push({ seq, frame });
+    if (history.length > HISTORY_SIZE) history.shift();
+    for (const client of clients) send(client, frame);
+  };
+
+  /** Diff the live session list against `current` and publish the deltas. */
+  const sync = (): Promise<void> => {
+    const run = syncing.then(async () => {
+      const sessions = await registry.listSessions();
+      const seen = new Set<string>();
+
+      for (const session of sessions) {
+        const data = JSON.stringify(session);
+        const before = current.get(session.id);
+        seen.add(session.id);
+        if (before === data) continue;
+        current.set(session.id, data);
+        publish(before === undefined ? "session-added" : "session-updated", data);
+      }
+      for (const id of current.keys()) {
+        if (seen.has(id)) continue;
+        current.delete(id);
+        publish("session-removed", JSON.stringify({ id }));
+      }
+      order = sessions.map((s) => s.id);
+
+      // Prune dead clients
+      for (const client of clients) {
+        if (!client.alive) clients.delete(client);
+      }
+    });
+    // A failed sync mustn't wedge the ones queued behind it
+    syncing = run.catch(() => {});
+    return run;
+  };
 
-  // GET /api/sessions/stream — SSE endpoint
+  /** Sequence number a client has seen up to, or null if it needs a snapshot. */
+  const resumePoint = (lastEventId: string | undefined): number | null => {
+    const match = lastEventId?.match(/^([0-9a-z]+)-(\d+)$/);
+    if (!match || match[1] !== epoch) return null;
+    const n = Number(match[2]);
+    const oldest = history.length > 0 ? history[0].seq : seq + 1;
+    return n <= seq && n >= oldest - 1 ? n : null;
+  };
+
+  // When discovery or a hook event reports a change, push deltas to all SSE clients.
+  // With nobody listening the diff waits until the next client connects.
+  const broadcast = (): void => {
+    if (clients.size === 0) return;
+    sync().catch((err) => {
+      app.log.warn({ err }, "Failed to build SSE session deltas");
+    });
+  };
+  discovery.on("change", broadcast);
+  registry.on("change", broadcast);
+
+  // GET /api/sessions/stream — SSE endpoint (honours Last-Event-ID)
   app.get(
     "/api/sessions/stream",
     async (request: FastifyRequest, reply: FastifyReply) => {
@@ -62,22 +128,32 @@ export function registerStreamRoutes(
       });
 
       const client: SSEClient = { reply, alive: true };
+
+      // Bring `current` up to date first, so the snapshot or replay ends exactly at `seq`
+      try {
+        await sync();
+      } catch (err) {
+        request.log.warn({ err }, "Failed to refresh sessions for SSE client");
+      }
+      if (reply.raw.destroyed) return reply;
+
+      const header = request.headers["last-event-id"];
+      const from = resumePoint(Array.isArray(header) ? header[0] : header);
+      if (from === null) {
+        const sessions = order.map((id) => current.get(id)).join(",");
+        send(client, `id: ${eventId(seq)}\nevent: sessions\ndata: [${sessions}]\n\n`);
+      } else {
+        for (const event of history) {
+          if (event.seq > from) send(client, event.frame);
+        }
+      }
       clients.add(client);
 
       request.log.info(
-        { clientCount: clients.size },
+        { clientCount: clients.size, resumed: from !== null },
         "SSE client connected",
       );
 
-      // Send initial snapshot immediately
-      try {
-        const sessions = await registry.listSessions();
-        const data = JSON.stringify(sessions);
-        reply.raw.write(`event: sessions\ndata: ${data}\n\n`);
-      } catch (err) {
-        request.log.warn({ err }, "Failed to send initial SSE snapshot");
-      }
-
       // Keep-alive ping every 30s to prevent timeout
       const keepAlive = setInterval(() => {
         try {
@@ -0,0 +1,23 @@
+import type { FastifyInstance } from "fastify";
+import type { SessionRegistry } from "../sessions/registry.js";
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 366;
+
+export function registerUsageRoutes(app: FastifyInstance, registry: SessionRegistry): void {
+  // GET /api/usage?days= — token usage and estimated cost by project and day, ending today
+  app.get<{ Querystring: { days?: string } }>("/api/usage", async (request, reply) => {
+    const { days } = request.query;
+    const parsedDays = days !== undefined ? Number(days) : DEFAULT_DAYS;
+    if (!(Number.isInteger(parsedDays) && parsedDays >= 1 && parsedDays <= MAX_DAYS)) {
+      reply.code(400).send({
+        error: "INVALID_RANGE",
+        message: `days must be a whole number from 1 to ${MAX_DAYS}`,
+        action: `Omit days for the last ${DEFAULT_DAYS}`,
+      });
+      return;
+    }
+
+    return registry.getUsageReport(parsedDays);
+  });
+}
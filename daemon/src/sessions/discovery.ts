@@ -1,33 +1,42 @@
 import { watch } from "chokidar";
 import { EventEmitter } from "node:events";
 import { readFileSync, existsSync } from "node:fs";
-import { writeFile, mkdir, open, stat as fsStat } from "node:fs/promises";
+import { writeFile, mkdir, stat as fsStat } from "node:fs/promises";
 import { readdir } from "node:fs/promises";
 import { join, basename, dirname } from "node:path";
 import type { FastifyBaseLogger } from "fastify";
-import type { SessionMetadata, SessionCache, SessionCacheEntry } from "./types.js";
+import type { SessionMetadata, SessionCache, SessionCacheEntry, SessionSummary } from "./types.js";
 import type { RelayConfig } from "../config.js";
 import { CONFIG_DIR } from "../config.js";
+import { advanceSummary } from "./summary.js";
 
 const CACHE_PATH = join(CONFIG_DIR, "session-cache.json");
 const RESCAN_INTERVAL_MS = 120_000; // 120s full rescan
-const TAIL_BYTES = 4096; // Read last 4KB for recent messages
-
-interface JsonlUserMessage {
-  type?: string;
-  cwd?: string;
-  sessionId?: string;
-  version?: string;
-  message?: {
-    role?: string;
-    content?: string | Array<{ type: string; text?: string }>;
+
+/**
+ * A summary as written to session-cache.json. Only the first open tool is
+ * shown (as the session's pendingTool), so the others keep their ID and
+ * name but not their input, which can run to kilobytes per call.
+ */
+function cacheableSummary(summary: SessionSummary | undefined): SessionSummary | undefined {
+  if (!summary) return undefined;
+  return {
+    ...summary,
+    openTools: summary.openTools.map((tool, i) => (i === 0 ? tool : { ...tool, input: {} })),
   };
-  timestamp?: string;
 }
 
+/**
+ * Keeps metadata for every Claude Code session on disk, from a full scan
+ * plus a file watcher.
+ *
+ * Events: "change" — something changed (debounced to 2s windows);
+ * "updated" (sessionId: string) — that session's JSONL was written, right away
+ */
 export class SessionDiscovery extends EventEmitter {
   private sessions = new Map<string, SessionMetadata>();
   private mtimeCache = new Map<string, number>(); // path -> mtimeMs
+  private summaries = new Map<string, SessionSummary>(); // path -> what's been parsed so far
   private watcher: ReturnType<typeof watch> | null = null;
   private rescanTimer: ReturnType<typeof setInterval> | null = null;
   private saveCacheTimer: ReturnType<typeof setTimeout> | null = null;
@@ -80,11 +89,11 @@ export class SessionDiscovery extends EventEmitter {
     );
   }
 
-  stop(): void {
+  async stop(): Promise<void> {
     this.watcher?.close();
     if (this.rescanTimer) clearInterval(this.rescanTimer);
     if (this.saveCacheTimer) clearTimeout(this.saveCacheTimer);
-    this.saveCacheImmediate();
+    await this.saveCacheImmediate();
   }
 
   getSessions(): SessionMetadata[] {
@@ -97,6 +106,12 @@ export class SessionDiscovery extends EventEmitter {
     return this.sessions.get(id);
   }
 
+  /** Path of a session's JSONL file. */
+  getSessionFile(id: string): string | undefined {
+    const session = this.sessions.get(id);
+    return session ? join(this.sessionDir, session.projectHash, `${id}.jsonl`) : undefined;
+  }
+
   getSessionsByProject(): Map<string, SessionMetadata[]> {
     const grouped = new Map<string, SessionMetadata[]>();
     for (const session of this.sessions.values()) {
@@ -119,6 +134,7 @@ export class SessionDiscovery extends EventEmitter {
     try {
       const projectDirs = await this.listProjectDirs();
       const seen = new Set<string>();
+      const seenFiles = new Set<string>();
 
       for (const projectDir of projectDirs) {
         const projectHash = basename(projectDir);
@@ -127,6 +143,7 @@ export class SessionDiscovery extends EventEmitter {
         for (const filePath of files) {
           const sessionId = basename(filePath, ".jsonl");
           seen.add(sessionId);
+          seenFiles.add(filePath);
 
           try {
             const fileStat = await fsStat(filePath);
@@ -145,6 +162,7 @@ export class SessionDiscovery extends EventEmitter {
             );
             if (metadata) {
               this.sessions.set(sessionId, metadata);
+              this.emit("updated", sessionId);
             }
           } catch (err) {
             this.log.warn({ err, filePath }, "Failed to parse session file");
@@ -170,6 +188,12 @@ export class SessionDiscovery extends EventEmitter {
           this.sessions.delete(id);
         }
       }
+      for (const path of this.summaries.keys()) {
+        if (!seenFiles.has(path)) {
+          this.summaries.delete(path);
+          this.mtimeCache.delete(path);
+        }
+      }
 
       this.saveCache();
       this.notifyChange();
@@ -198,6 +222,7 @@ export class SessionDiscovery extends EventEmitter {
       if (metadata) {
         this.sessions.set(sessionId, metadata);
         this.log.debug({ sessionId }, "Session updated");
+        this.emit("updated", sessionId);
         this.notifyChange();
       }
     } catch (err) {
@@ -210,6 +235,7 @@ export class SessionDiscovery extends EventEmitter {
     const sessionId = basename(path, ".jsonl");
     this.sessions.delete(sessionId);
     this.mtimeCache.delete(path);
+    this.summaries.delete(path);
     this.log.debug({ sessionId }, "Session removed");
     this.notifyChange();
   }
@@ -223,115 +249,31 @@ export class SessionDiscovery extends EventEmitter {
   ): Promise<SessionMetadata | null> {
     if (fileSize === 0) return null;
 
-    let projectPath = "";
-    let cliVersion = "";
-    let lastMessagePreview = "";
-    let lastMessageRole: "user" | "assistant" | "unknown" = "unknown";
-
-    // Parse head lines to find first user message with cwd
-    const headLines = await this.readHeadLines(filePath);
-    for (const line of headLines) {
-      try {
-        const parsed = JSON.parse(line) as JsonlUserMessage;
-        if (parsed.cwd && !projectPath) projectPath = parsed.cwd;
-        if (parsed.version && !cliVersion) cliVersion = parsed.version;
-        // Stop once we have both
-        if (projectPath && cliVersion) break;
-      } catch {
-        // Skip malformed lines
-      }
-    }
-
-    // Parse tail for last message
-    const tailLines = await this.readTailLines(filePath, fileSize);
-    for (let i = tailLines.length - 1; i >= 0; i--) {
-      try {
-        const parsed = JSON.parse(tailLines[i]) as JsonlUserMessage;
-        if (
-          parsed.type === "user" ||
-          parsed.type === "assistant"
-        ) {
-          lastMessageRole = parsed.type === "user" ? "user" : "assistant";
-          lastMessagePreview = this.extractPreview(parsed);
-          if (parsed.version) cliVersion = parsed.version;
-          break;
-        }
-      } catch {
-        // Skip malformed lines
-      }
-    }
+    // Parse only what was appended since last time
+    const summary = await advanceSummary(filePath, this.summaries.get(filePath));
+    this.summaries.set(filePath, summary);
 
     // Fallback: derive projectPath from directory hash if JSONL didn't have cwd
-    if (!projectPath && projectHash) {
-      projectPath = "/" + projectHash.replace(/^-/, "").replace(/-/g, "/");
-    }
+    const projectPath =
+      summary.projectPath || (projectHash ? "/" + projectHash.replace(/^-/, "").replace(/-/g, "/") : "");
 
     return {
       id: sessionId,
       projectPath,
       projectHash,
-      lastMessagePreview,
-      lastMessageRole,
+      lastMessagePreview: summary.lastMessagePreview,
+      lastMessageRole: summary.lastMessageRole,
       timestamp: new Date(mtimeMs),
-      cliVersion,
+      cliVersion: summary.cliVersion,
+      // Tool call awaiting its result — feeds the needs_permission state
+      pendingTool: summary.openTools[0] ?? null,
+      messageCount: { user: summary.userMessages, assistant: summary.assistantMessages },
+      startedAt: summary.firstMessageAt,
+      model: summary.model,
+      usage: summary.usage,
     };
   }
 
-  private extractPreview(msg: JsonlUserMessage): string {
-    if (!msg.message?.content) return "";
-
-    let text: string;
-    if (typeof msg.message.content === "string") {
-      text = msg.message.content;
-    } else if (Array.isArray(msg.message.content)) {
-      const textBlock = msg.message.content.find((b) => b.type === "text");
-      text = textBlock?.text ?? "";
-    } else {
-      return "";
-    }
-
-    // Truncate to 200 chars
-    return text.length > 200 ? text.slice(0, 200) + "..." : text;
-  }
-
-  private async readHeadLines(filePath: string, maxBytes = 4096): Promise<string[]> {
-    const fh = await open(filePath, "r");
-    try {
-      const buf = Buffer.alloc(maxBytes);
-      const { bytesRead } = await fh.read(buf, 0, maxBytes, 0);
-      if (bytesRead === 0) return [];
-
-      const text = buf.subarray(0, bytesRead).toString("utf-8");
-      return text.split("\n").filter((l) => l.trim().length > 0).slice(0, 20);
-    } finally {
-      await fh.close();
-    }
-  }
-
-  private async readTailLines(filePath: string, fileSize: number): Promise<string[]> {
-    const readSize = Math.min(TAIL_BYTES, fileSize);
-    const offset = Math.max(0, fileSize - readSize);
-
-    const fh = await open(filePath, "r");
-    try {
-      const buf = Buffer.alloc(readSize);
-      const { bytesRead } = await fh.read(buf, 0, readSize, offset);
-      if (bytesRead === 0) return [];
-
-      const text = buf.subarray(0, bytesRead).toString("utf-8");
-      const lines = text.split("\n").filter((l) => l.trim().length > 0);
-
-      // If we started mid-line (offset > 0), drop the first partial line
-      if (offset > 0 && lines.length > 0) {
-        lines.shift();
-      }
-
-      return lines;
-    } finally {
-      await fh.close();
-    }
-  }
-
   private async listProjectDirs(): Promise<string[]> {
     try {
       const entries = await readdir(this.sessionDir, { withFileTypes: true });
@@ -375,7 +317,10 @@ export class SessionDiscovery extends EventEmitter {
           timestamp: new Date(entry.timestamp),
           cliVersion: entry.cliVersion,
         });
-        // We don't cache mtime — full scan will re-check
+        // We don't cache mtime — full scan will re-check, picking up parsing where it stopped
+        if (entry.summary) {
+          this.summaries.set(join(this.sessionDir, entry.projectHash, `${entry.id}.jsonl`), entry.summary);
+        }
       }
 
       this.log.info(
@@ -399,8 +344,8 @@ export class SessionDiscovery extends EventEmitter {
   }
 
   /** Immediate cache save (used on shutdown). */
-  private saveCacheImmediate(): void {
-    this.saveCacheAsync().catch((err) => {
+  private async saveCacheImmediate(): Promise<void> {
+    await this.saveCacheAsync().catch((err) => {
       this.log.warn({ err }, "Failed to save session cache on shutdown");
     });
   }
@@ -421,6 +366,7 @@ export class SessionDiscovery extends EventEmitter {
         timestamp: s.timestamp.toISOString(),
         cliVersion: s.cliVersion,
         mtimeMs: 0,
+        summary: cacheableSummary(this.summaries.get(join(this.sessionDir, s.projectHash, `${s.id}.jsonl`))),
       })),
       lastFullScan: new Date().toISOString(),
     };
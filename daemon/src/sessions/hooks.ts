@@ -0,0 +1,92 @@
+import type { ClaudeState } from "./registry.js";
+import type { PendingTool } from "./types.js";
+import { isValidSessionId } from "../auth.js";
+import { clipInput } from "./transcript.js";
+
+/** Claude Code hook events the daemon understands. */
+export const HOOK_EVENTS = ["Notification", "Stop", "PreToolUse", "SessionStart"] as const;
+export type HookEventName = (typeof HOOK_EVENTS)[number];
+
+/** The JSON Claude Code writes to a hook command's stdin (fields we use). */
+interface HookPayload {
+  session_id?: unknown;
+  hook_event_name?: unknown;
+  tool_name?: unknown;
+  tool_input?: unknown;
+  tool_use_id?: unknown;
+  message?: unknown;
+  notification_type?: unknown;
+  source?: unknown;
+}
+
+/** A hook event reduced to what it says about the session's state. */
+export interface HookEvent {
+  sessionId: string;
+  event: HookEventName;
+  /** State the event puts the session in, or null if it says nothing about it. */
+  state: ClaudeState | null;
+  /** Tool about to run (PreToolUse only). */
+  tool: PendingTool | null;
+  /** Notification text, e.g. "Claude needs your permission to use Bash". */
+  message: string | null;
+}
+
+/**
+ * Map a hook payload to a state:
+ * - PreToolUse → thinking (a tool is about to run)
+ * - Notification → needs_permission for a permission prompt, waiting for
+ *   the idle reminder, nothing for anything else
+ * - Stop → waiting (Claude finished its turn)
+ * - SessionStart → waiting, except after an auto-compact mid-turn
+ *
+ * Returns null if the payload isn't a hook event we handle.
+ */
+export function parseHookPayload(body: unknown): HookEvent | null {
+  if (!body || typeof body !== "object") return null;
+  const payload = body as HookPayload;
+
+  const sessionId = payload.session_id;
+  const event = payload.hook_event_name;
+  if (typeof sessionId !== "string" || !isValidSessionId(sessionId)) return null;
+  if (!HOOK_EVENTS.includes(event as HookEventName)) return null;
+
+  const message = typeof payload.message === "string" ? payload.message : null;
+  const hook: HookEvent = {
+    sessionId,
+    event: event as HookEventName,
+    state: null,
+    tool: null,
+    message,
+  };
+
+  switch (hook.event) {
+    case "PreToolUse":
+      hook.state = "thinking";
+      if (typeof payload.tool_name === "string") {
+        hook.tool = {
+          id: typeof payload.tool_use_id === "string" ? payload.tool_use_id : "",
+          name: payload.tool_name,
+          input: clipInput(payload.tool_input ?? {}),
+        };
+      }
+      break;
+    case "Notification": {
+      // Older Claude Code versions only send the message text
+      const type = typeof payload.notification_type === "string" ? payload.notification_type : null;
+      if (type === "permission_prompt" || (!type && message && /\bpermission\b/i.test(message))) {
+        hook.state = "needs_permission";
+      } else if (type === "idle_prompt" || (!type && message && /\bwaiting for your input\b/i.test(message))) {
+        hook.state = "waiting";
+      }
+      break;
+    }
+    case "Stop":
+      hook.state = "waiting";
+      break;
+    case "SessionStart":
+      if (payload.source !== "compact") hook.state = "waiting";
+      break;
+  }
+
+  return hook;
+}
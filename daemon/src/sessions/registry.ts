@@ -1,16 +1,24 @@
+import { EventEmitter } from "node:events";
 import type { FastifyBaseLogger } from "fastify";
 import type { SessionDiscovery } from "./discovery.js";
 import type { TmuxManager } from "../tmux/manager.js";
 import type { TerminalBridge } from "../terminal/bridge.js";
-import type { SessionMetadata } from "./types.js";
+import type { PendingTool, SessionMetadata } from "./types.js";
+import type { HookEvent } from "./hooks.js";
+import type { RelayConfig } from "../config.js";
+import type { SessionUsage, UsageReport } from "../usage/types.js";
 import { basename } from "node:path";
+import { capturePaneText } from "../tmux/capture.js";
+import { isPermissionPrompt } from "../tmux/prompt.js";
+import { sessionUsage, usageReport } from "../usage/usage.js";
 
-/** High-level Claude activity state derived from lastMessageRole + tmuxStatus. */
+/** High-level Claude activity state from hook events, or derived from the JSONL tail, tmuxStatus and the pane. */
 export type ClaudeState =
-  | "waiting"    // Last message was assistant → Claude finished, waiting for user input
-  | "thinking"   // Last message was user → Claude is working
-  | "idle"       // No tmux session running
-  | "unknown";   // Cannot determine state
+  | "waiting"            // Last message was assistant → Claude finished, waiting for user input
+  | "thinking"           // Last message was user, or a tool is running → Claude is working
+  | "needs_permission"   // Unanswered tool call with the permission prompt on screen
+  | "idle"               // No tmux session running
+  | "unknown";           // Cannot determine state
 
 /** Merged session view combining discovery metadata + live tmux/bridge state. */
 export interface SessionView {
@@ -21,34 +29,65 @@ export interface SessionView {
   lastMessagePreview: string;
   lastMessageRole: "user" | "assistant" | "unknown";
   timestamp: string;
+  /** When the first message was written, or null if there's none yet. */
+  startedAt: string | null;
+  /** User prompts and assistant turns so far. */
+  messageCount: { user: number; assistant: number };
+  /** Tokens used so far and their estimated cost. */
+  usage: SessionUsage;
   cliVersion: string;
   tmuxStatus: "active" | "detached" | "none";
   hasActiveConnection: boolean;
+  /** View-only clients currently watching the terminal. */
+  observerCount: number;
   claudeState: ClaudeState;
+  /** The tool call awaiting approval when claudeState is "needs_permission", else null. */
+  pendingTool: PendingTool | null;
+}
+
+// How long a hook state is kept for a session discovery hasn't found (yet)
+const HOOK_STATE_GRACE_MS = 5 * 60_000;
+
+/** State last reported by a Claude Code hook. */
+interface HookState {
+  state: ClaudeState;
+  at: number; // ms epoch the event arrived
+  /** Tool announced by the last PreToolUse, for a permission prompt that follows. */
+  tool: PendingTool | null;
 }
 
 /**
  * SessionRegistry composes discovery (disk reader) with tmux/bridge state.
  * Routes read from here instead of calling discovery + tmuxManager separately.
+ *
+ * Events: "change" (sessionId: string) — a hook event changed a session's state
  */
-export class SessionRegistry {
+export class SessionRegistry extends EventEmitter {
   private log: FastifyBaseLogger;
   private discovery: SessionDiscovery;
   private tmuxManager: TmuxManager;
   private bridge: TerminalBridge;
+  private config: RelayConfig;
 
   // Snapshot of tmux status built per-request (no separate cache — TmuxManager owns caching)
   private tmuxStatusSnapshot = new Map<string, "active" | "detached" | "none">();
+  // Sessions whose pane shows a permission prompt, refreshed alongside the tmux snapshot
+  private promptSnapshot = new Set<string>();
+  // Latest hook event per session — authoritative until the JSONL is written again
+  private hookStates = new Map<string, HookState>();
 
   constructor(
     discovery: SessionDiscovery,
     tmuxManager: TmuxManager,
     bridge: TerminalBridge,
+    config: RelayConfig,
     log: FastifyBaseLogger,
   ) {
+    super();
     this.discovery = discovery;
     this.tmuxManager = tmuxManager;
     this.bridge = bridge;
+    this.config = config;
     this.log = log.child({ module: "registry" });
   }
 
@@ -64,6 +103,69 @@ export class SessionRegistry {
     }
   }
 
+  /**
+   * Check the panes of sessions with an unanswered tool call for the
+   * permission prompt. A pending tool_use alone can't tell a prompt from a
+   * tool that's still running.
+   */
+  private async refreshPromptStatus(sessions: SessionMetadata[]): Promise<void> {
+    // Updates just these sessions' entries — getSession refreshes one at a time
+    await Promise.all(
+      sessions.map(async (s) => {
+        const prompting =
+          !!s.pendingTool &&
+          this.getTmuxStatus(s.id) !== "none" &&
+          isPermissionPrompt(await capturePaneText(this.tmuxManager.tmuxName(s.id)));
+        if (prompting) {
+          this.promptSnapshot.add(s.id);
+        } else {
+          this.promptSnapshot.delete(s.id);
+        }
+      }),
+    );
+  }
+
+  /** Drop per-session state for sessions discovery no longer has. */
+  private forgetGone(sessions: SessionMetadata[]): void {
+    const ids = new Set(sessions.map((s) => s.id));
+    for (const id of this.promptSnapshot) {
+      if (!ids.has(id)) this.promptSnapshot.delete(id);
+    }
+    // A hook can arrive before discovery has seen a new session's file, so give it a grace period
+    const cutoff = Date.now() - HOOK_STATE_GRACE_MS;
+    for (const [id, hook] of this.hookStates) {
+      if (!ids.has(id) && hook.at < cutoff) this.hookStates.delete(id);
+    }
+  }
+
+  /**
+   * Record a Claude Code hook event. Emits "change" when it moves the
+   * session to a different state, without waiting for discovery's debounce.
+   */
+  recordHook(hook: HookEvent): void {
+    if (!hook.state) return;
+
+    const session = this.discovery.getSession(hook.sessionId);
+    const previous = this.hookStates.get(hook.sessionId);
+    const before = session ? this.computeClaudeState(session, this.getTmuxStatus(session.id)) : null;
+
+    this.hookStates.set(hook.sessionId, {
+      state: hook.state,
+      at: Date.now(),
+      // A permission Notification doesn't name the tool — it's the one PreToolUse just announced
+      tool: hook.tool ?? (hook.state === "needs_permission" ? previous?.tool ?? null : null),
+    });
+    this.log.debug({ sessionId: hook.sessionId, event: hook.event, state: hook.state }, "Hook event");
+
+    if (hook.state !== before) this.emit("change", hook.sessionId);
+  }
+
+  /** The session's hook state, unless the JSONL has been written since (then it's stale). */
+  private currentHook(session: SessionMetadata): HookState | null {
+    const hook = this.hookStates.get(session.id);
+    return hook && hook.at >= session.timestamp.getTime() ? hook : null;
+  }
+
   /** Invalidate tmux state (delegates to TmuxManager). */
   invalidateTmuxCache(): void {
     this.tmuxManager.invalidateCache();
@@ -74,12 +176,21 @@ export class SessionRegistry {
     return this.tmuxStatusSnapshot.get(sessionId) ?? "none";
   }
 
-  /** Derive Claude's activity state from JSONL role + tmux status. */
+  /**
+   * Claude's activity state: the latest hook event if there's a fresh one,
+   * else derived from the JSONL tail + tmux status + prompt check.
+   */
   private computeClaudeState(
-    lastMessageRole: "user" | "assistant" | "unknown",
+    session: SessionMetadata,
     tmuxStatus: "active" | "detached" | "none",
   ): ClaudeState {
+    const { lastMessageRole } = session;
     if (tmuxStatus === "none") return "idle";
+    const hook = this.currentHook(session);
+    if (hook) return hook.state;
+    if (session.pendingTool) {
+      return this.promptSnapshot.has(session.id) ? "needs_permission" : "thinking";
+    }
     if (lastMessageRole === "assistant") return "waiting";
     if (lastMessageRole === "user") return "thinking";
     return "unknown";
@@ -88,7 +199,7 @@ export class SessionRegistry {
   /** Convert a SessionMetadata to a SessionView with live state. */
   private toView(session: SessionMetadata): SessionView {
     const tmuxStatus = this.getTmuxStatus(session.id);
-    const claudeState = this.computeClaudeState(session.lastMessageRole, tmuxStatus);
+    const claudeState = this.computeClaudeState(session, tmuxStatus);
     return {
       id: session.id,
       projectPath: session.projectPath,
@@ -99,17 +210,28 @@ export class SessionRegistry {
       lastMessagePreview: session.lastMessagePreview,
       lastMessageRole: session.lastMessageRole,
       timestamp: session.timestamp.toISOString(),
+      startedAt: session.startedAt ?? null,
+      messageCount: session.messageCount ?? { user: 0, assistant: 0 },
+      usage: sessionUsage(session.usage, session.model ?? "", this.config.usage.prices),
       cliVersion: session.cliVersion,
       tmuxStatus,
       hasActiveConnection: this.bridge.hasActiveTerminal(session.id),
+      observerCount: this.bridge.observerCount(session.id),
       claudeState,
+      pendingTool:
+        claudeState === "needs_permission"
+          ? this.currentHook(session)?.tool ?? session.pendingTool ?? null
+          : null,
     };
   }
 
   /** List all sessions with merged tmux/bridge state. */
   async listSessions(): Promise<SessionView[]> {
     await this.refreshTmuxStatus();
-    return this.discovery.getSessions().map((s) => this.toView(s));
+    const sessions = this.discovery.getSessions();
+    await this.refreshPromptStatus(sessions);
+    this.forgetGone(sessions);
+    return sessions.map((s) => this.toView(s));
   }
 
   /** Get a single session by ID with merged state. */
@@ -117,6 +239,7 @@ export class SessionRegistry {
     const session = this.discovery.getSession(id);
     if (!session) return null;
     await this.refreshTmuxStatus();
+    await this.refreshPromptStatus([session]);
     return this.toView(session);
   }
 
@@ -130,6 +253,16 @@ export class SessionRegistry {
     return this.discovery.getSession(id)?.projectPath;
   }
 
+  /** Get the session's JSONL path (for transcript reads). */
+  getSessionFile(id: string): string | undefined {
+    return this.discovery.getSessionFile(id);
+  }
+
+  /** Token usage and estimated cost over the last `days` days, by project and day. */
+  getUsageReport(days: number): UsageReport {
+    return usageReport(this.discovery.getSessions(), this.config.usage.prices, days);
+  }
+
   /** Get sessions grouped by project. */
   async getSessionsByProject(): Promise<
     Array<{
@@ -0,0 +1,178 @@
+import { open } from "node:fs/promises";
+import type { SessionSummary } from "./types.js";
+import type { TokenUsage } from "../usage/types.js";
+import { parseTranscriptEntry, readLinesFrom } from "./transcript.js";
+import { addUsage, emptyUsage, localDay } from "../usage/usage.js";
+
+// Bump when SessionSummary gains a field, so cached summaries get rebuilt
+const SUMMARY_VERSION = 1;
+const MAX_PREVIEW_CHARS = 200;
+const NEWLINE = 0x0a;
+
+interface JsonlLine {
+  type?: string;
+  cwd?: string;
+  version?: string;
+  timestamp?: string;
+  message?: {
+    id?: string;
+    model?: string;
+    content?: string | Array<{ type: string; text?: string }>;
+    usage?: {
+      input_tokens?: number;
+      output_tokens?: number;
+      cache_creation_input_tokens?: number;
+      cache_read_input_tokens?: number;
+    };
+  };
+}
+
+export function emptySummary(): SessionSummary {
+  return {
+    version: SUMMARY_VERSION,
+    offset: 0,
+    projectPath: "",
+    cliVersion: "",
+    lastMessagePreview: "",
+    lastMessageRole: "unknown",
+    userMessages: 0,
+    assistantMessages: 0,
+    firstMessageAt: null,
+    lastMessageAt: null,
+    turnId: "",
+    openTools: [],
+    model: "",
+    usage: {},
+    lastUsage: null,
+  };
+}
+
+/** Count an API response's tokens against the day it was written. */
+function applyUsage(summary: SessionSummary, line: JsonlLine): void {
+  const message = line.message;
+  const usage = message?.usage;
+  // "<synthetic>" marks messages Claude Code made up itself, with no API call behind them
+  if (!usage || !message.model || message.model === "<synthetic>" || !line.timestamp) return;
+
+  const tokens: TokenUsage = {
+    input: usage.input_tokens ?? 0,
+    output: usage.output_tokens ?? 0,
+    cacheWrite: usage.cache_creation_input_tokens ?? 0,
+    cacheRead: usage.cache_read_input_tokens ?? 0,
+  };
+  const day = localDay(new Date(line.timestamp));
+  const bucket = (d: string, model: string): TokenUsage => {
+    summary.usage[d] ??= {};
+    return (summary.usage[d][model] ??= emptyUsage());
+  };
+
+  const last = summary.lastUsage;
+  if (last && message.id && last.messageId === message.id) {
+    addUsage(bucket(last.day, last.model), last.tokens, -1);
+  }
+  addUsage(bucket(day, message.model), tokens);
+  summary.lastUsage = { messageId: message.id ?? "", day, model: message.model, tokens };
+  summary.model = message.model;
+}
+
+function preview(line: JsonlLine): string {
+  const content = line.message?.content;
+  let text: string;
+  if (typeof content === "string") {
+    text = content;
+  } else if (Array.isArray(content)) {
+    text = content.find((b) => b.type === "text")?.text ?? "";
+  } else {
+    return "";
+  }
+  return text.length > MAX_PREVIEW_CHARS ? text.slice(0, MAX_PREVIEW_CHARS) + "..." : text;
+}
+
+/** Fold one JSONL line into the summary. */
+function applyLine(summary: SessionSummary, raw: string): void {
+  let line: JsonlLine;
+  try {
+    line = JSON.parse(raw) as JsonlLine;
+  } catch {
+    return; // Blank or malformed line
+  }
+  if (!line || typeof line !== "object") return;
+
+  if (line.cwd && !summary.projectPath) summary.projectPath = line.cwd;
+  if (line.version) summary.cliVersion = line.version;
+  if (line.type !== "user" && line.type !== "assistant") return;
+  if (line.type === "assistant") applyUsage(summary, line);
+
+  summary.lastMessageRole = line.type;
+  summary.lastMessagePreview = preview(line);
+  if (line.timestamp) {
+    summary.firstMessageAt ??= line.timestamp;
+    summary.lastMessageAt = line.timestamp;
+  }
+
+  // Counts and open tool calls only look at visible turns (no meta or subagent lines)
+  const msg = parseTranscriptEntry(line);
+  if (!msg) return;
+
+  if (msg.role === "assistant") {
+    const calls = msg.blocks.flatMap((b) =>
+      b.type === "tool_use" ? [{ id: b.id, name: b.name, input: b.input }] : [],
+    );
+    // Claude Code writes a line per content block; only a new message ID starts a turn
+    if (msg.messageId !== summary.turnId) {
+      summary.turnId = msg.messageId;
+      summary.assistantMessages++;
+      summary.openTools = calls;
+    } else {
+      summary.openTools.push(...calls);
+    }
+    return;
+  }
+
+  // A typed message means nothing is outstanding; tool results answer their calls
+  if (msg.blocks.some((b) => b.type !== "tool_result")) {
+    summary.userMessages++;
+    summary.openTools = [];
+  } else {
+    const answered = new Set(msg.blocks.map((b) => (b.type === "tool_result" ? b.toolUseId : "")));
+    summary.openTools = summary.openTools.filter((t) => !answered.has(t.id));
+  }
+}
+
+/** Whether `offset` still falls just past a line in the file, i.e. it was only appended to. */
+async function isLineBoundary(filePath: string, offset: number): Promise<boolean> {
+  if (offset === 0) return true;
+  const fh = await open(filePath, "r");
+  try {
+    const buf = Buffer.alloc(1);
+    const { bytesRead } = await fh.read(buf, 0, 1, offset - 1);
+    return bytesRead === 1 && buf[0] === NEWLINE;
+  } finally {
+    await fh.close();
+  }
+}
+
+/**
+ * Bring a summary up to date with the file by parsing only the complete
+ * lines after its offset. Starts over if the file was truncated or
+ * rewritten underneath it. Never modifies `previous`.
+ */
+export async function advanceSummary(
+  filePath: string,
+  previous: SessionSummary | undefined,
+): Promise<SessionSummary> {
+  let summary: SessionSummary =
+    previous?.version === SUMMARY_VERSION ? structuredClone(previous) : emptySummary();
+  if (summary.offset > 0 && !(await isLineBoundary(filePath, summary.offset))) {
+    summary = emptySummary();
+  }
+
+  let end = await readLinesFrom(filePath, summary.offset, (line) => applyLine(summary, line));
+  if (end === null) {
+    // Shorter than what we'd parsed — replaced, so read it from the top
+    summary = emptySummary();
+    end = await readLinesFrom(filePath, 0, (line) => applyLine(summary, line));
+  }
+  summary.offset = end ?? 0;
+  return summary;
+}
@@ -0,0 +1,269 @@
+import { open } from "node:fs/promises";
+import type {
+  TranscriptBlock,
+  TranscriptMessage,
+  TranscriptPage,
+  TranscriptTail,
+} from "./types.js";
+
+const CHUNK_BYTES = 64 * 1024;
+const MAX_TOOL_RESULT_CHARS = 4000;
+const MAX_INPUT_STRING_CHARS = 2000;
+const NEWLINE = 0x0a;
+
+interface JsonlContentBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: unknown;
+  tool_use_id?: string;
+  content?: string | Array<{ type: string; text?: string }>;
+  is_error?: boolean;
+}
+
+interface JsonlEntry {
+  type?: string;
+  uuid?: string;
+  timestamp?: string;
+  isMeta?: boolean;
+  isSidechain?: boolean;
+  message?: {
+    id?: string;
+    role?: string;
+    content?: string | JsonlContentBlock[];
+  };
+}
+
+/** Shorten long strings anywhere in a tool input (file contents, big diffs). */
+export function clipInput(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.length > MAX_INPUT_STRING_CHARS
+      ? value.slice(0, MAX_INPUT_STRING_CHARS) + "..."
+      : value;
+  }
+  if (Array.isArray(value)) return value.map(clipInput);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, clipInput(v)]),
+    );
+  }
+  return value;
+}
+
+function toolResultText(content: JsonlContentBlock["content"]): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((b) => b.type === "text" && b.text)
+    .map((b) => b.text)
+    .join("\n");
+}
+
+function toBlock(block: JsonlContentBlock): TranscriptBlock | null {
+  switch (block.type) {
+    case "text":
+      return block.text ? { type: "text", text: block.text } : null;
+    case "tool_use":
+      return {
+        type: "tool_use",
+        id: block.id ?? "",
+        name: block.name ?? "",
+        input: clipInput(block.input ?? {}),
+      };
+    case "tool_result": {
+      const text = toolResultText(block.content);
+      const truncated = text.length > MAX_TOOL_RESULT_CHARS;
+      return {
+        type: "tool_result",
+        toolUseId: block.tool_use_id ?? "",
+        content: truncated ? text.slice(0, MAX_TOOL_RESULT_CHARS) : text,
+        isError: block.is_error === true,
+        truncated,
+      };
+    }
+    default:
+      // thinking, images, etc. aren't shown
+      return null;
+  }
+}
+
+/** Parse one JSONL line into a message, or null if it isn't a visible turn. */
+export function parseTranscriptLine(line: string): TranscriptMessage | null {
+  let entry: unknown;
+  try {
+    entry = JSON.parse(line);
+  } catch {
+    return null; // Blank, partial or malformed line
+  }
+  return parseTranscriptEntry(entry);
+}
+
+/** Like parseTranscriptLine, for a line that's already been JSON-parsed. */
+export function parseTranscriptEntry(parsed: unknown): TranscriptMessage | null {
+  if (!parsed || typeof parsed !== "object") return null;
+  const entry = parsed as JsonlEntry;
+
+  if (entry.type !== "user" && entry.type !== "assistant") return null;
+  // Skip injected meta messages and subagent (sidechain) traffic
+  if (entry.isMeta || entry.isSidechain) return null;
+
+  const content = entry.message?.content;
+  const blocks: TranscriptBlock[] =
+    typeof content === "string"
+      ? content ? [{ type: "text", text: content }] : []
+      : Array.isArray(content)
+        ? content.map(toBlock).filter((b): b is TranscriptBlock => b !== null)
+        : [];
+  if (blocks.length === 0) return null;
+
+  const uuid = entry.uuid ?? "";
+  return {
+    uuid,
+    messageId: (entry.type === "assistant" && entry.message?.id) || uuid,
+    role: entry.type,
+    timestamp: entry.timestamp ?? "",
+    blocks,
+  };
+}
+
+function sameTurn(a: TranscriptMessage, b: TranscriptMessage): boolean {
+  return a.role === "assistant" && b.role === "assistant" && a.messageId === b.messageId;
+}
+
+/** Claude Code writes one line per content block — fold them back into one turn. */
+function mergeTurns(messages: TranscriptMessage[]): TranscriptMessage[] {
+  const merged: TranscriptMessage[] = [];
+  for (const msg of messages) {
+    const prev = merged[merged.length - 1];
+    if (prev && sameTurn(prev, msg)) {
+      prev.blocks.push(...msg.blocks);
+    } else {
+      merged.push({ ...msg, blocks: [...msg.blocks] });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Read up to `limit` messages ending before byte offset `before` (default:
+ * end of file), never splitting an assistant turn across pages. Scans the
+ * JSONL backwards in chunks so a page from the end of a large session
+ * doesn't read the whole file. Returns null if `before` is past the end.
+ */
+export async function readTranscript(
+  filePath: string,
+  before: number | undefined,
+  limit: number,
+): Promise<TranscriptPage | null> {
+  const fh = await open(filePath, "r");
+  try {
+    const { size } = await fh.stat();
+    const end = before ?? size;
+    if (end > size) return null;
+
+    const newestFirst: TranscriptMessage[] = [];
+    let pos = end;
+    let cursor = end;
+    // Pieces of a line whose beginning is in an earlier chunk, latest first;
+    // joined once the line's start is found
+    let tail: Buffer[] = [];
+    let full = false;
+
+    while (pos > 0 && !full) {
+      const readSize = Math.min(CHUNK_BYTES, pos);
+      pos -= readSize;
+      const buf = Buffer.alloc(readSize);
+      await fh.read(buf, 0, readSize, pos);
+
+      let lineEnd = buf.length;
+      for (let i = buf.length - 1; i >= -1; i--) {
+        if (i >= 0 && buf[i] !== NEWLINE) continue;
+        // Reached the chunk start mid-line — read further back first
+        if (i < 0 && pos > 0) break;
+
+        const head = buf.subarray(i + 1, lineEnd);
+        const line = tail.length > 0 ? Buffer.concat([head, ...tail.reverse()]) : head;
+        tail = [];
+        const msg = parseTranscriptLine(line.toString("utf-8"));
+        // Past the limit, only take more lines of the oldest turn so it isn't split across pages
+        if (msg && newestFirst.length >= limit && !sameTurn(newestFirst[newestFirst.length - 1], msg)) {
+          full = true;
+          break;
+        }
+        if (msg) newestFirst.push(msg);
+        cursor = pos + i + 1;
+        lineEnd = Math.max(i, 0);
+      }
+      tail.push(buf.subarray(0, lineEnd));
+    }
+
+    return {
+      messages: mergeTurns(newestFirst.reverse()),
+      cursor: cursor > 0 ? cursor : null,
+      end: size,
+    };
+  } finally {
+    await fh.close();
+  }
+}
+
+/**
+ * Call `onLine` for each complete line from byte offset `from` to the end of
+ * the file, reading forward in chunks so a line of any length is handled.
+ * A trailing line with no newline yet is left for the next read. Returns
+ * the offset just past the last complete line, or null if `from` is past
+ * the end of the file.
+ */
+export async function readLinesFrom(
+  filePath: string,
+  from: number,
+  onLine: (line: string) => void,
+): Promise<number | null> {
+  const fh = await open(filePath, "r");
+  try {
+    const { size } = await fh.stat();
+    if (from > size) return null;
+
+    let pos = from;
+    let end = from;
+    // Pieces of the unfinished line from earlier chunks; joined once its newline arrives
+    let pending: Buffer[] = [];
+
+    while (pos < size) {
+      const readSize = Math.min(CHUNK_BYTES, size - pos);
+      const buf = Buffer.alloc(readSize);
+      const { bytesRead } = await fh.read(buf, 0, readSize, pos);
+      if (bytesRead === 0) break; // Truncated while reading
+      const data = buf.subarray(0, bytesRead);
+
+      let lineStart = 0;
+      for (let i = data.indexOf(NEWLINE); i >= 0; i = data.indexOf(NEWLINE, lineStart)) {
+        const piece = data.subarray(lineStart, i);
+        const line = pending.length > 0 ? Buffer.concat([...pending, piece]) : piece;
+        pending = [];
+        onLine(line.toString("utf-8"));
+        lineStart = i + 1;
+        end = pos + lineStart;
+      }
+      if (lineStart < data.length) pending.push(data.subarray(lineStart));
+      pos += bytesRead;
+    }
+    return end;
+  } finally {
+    await fh.close();
+  }
+}
+
+/**
+ * Read the messages appended at or after byte offset `from`, for tailing a
+ * live session. Returns null if `from` is past the end of the file.
+ */
+export async function readTranscriptFrom(filePath: string, from: number): Promise<TranscriptTail | null> {
+  const messages: TranscriptMessage[] = [];
+  const end = await readLinesFrom(filePath, from, (line) => {
+    const msg = parseTranscriptLine(line);
+    if (msg) messages.push(msg);
+  });
+  return end === null ? null : { messages: mergeTurns(messages), end };
+}
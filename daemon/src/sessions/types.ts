@@ -1,3 +1,5 @@
+import type { DailyUsage, TokenUsage } from "../usage/types.js";
+
 export interface SessionMetadata {
   id: string;
   projectPath: string;
@@ -6,6 +8,56 @@ export interface SessionMetadata {
   lastMessageRole: "user" | "assistant" | "unknown";
   timestamp: Date;
   cliVersion: string;
+  /** Unanswered tool call at the end of the transcript, if any. */
+  pendingTool?: PendingTool | null;
+  /** User prompts and assistant turns so far. */
+  messageCount?: { user: number; assistant: number };
+  /** Timestamp of the first user or assistant message. */
+  startedAt?: string | null;
+  /** Model of the latest response. */
+  model?: string;
+  usage?: DailyUsage;
+}
+
+/**
+ * Running summary of a session's JSONL. Discovery keeps one per file and
+ * advances it by parsing only the lines appended since `offset`.
+ */
+export interface SessionSummary {
+  /** Summaries cached with another version are rebuilt from the top of the file. */
+  version: number;
+  /** Bytes parsed so far — always just past a newline. */
+  offset: number;
+  projectPath: string;
+  cliVersion: string;
+  lastMessagePreview: string;
+  lastMessageRole: "user" | "assistant" | "unknown";
+  /** Typed user prompts (not tool results). */
+  userMessages: number;
+  /** Assistant turns, however many lines each took. */
+  assistantMessages: number;
+  firstMessageAt: string | null;
+  lastMessageAt: string | null;
+  /** Claude's message ID for the latest assistant turn. */
+  turnId: string;
+  /** That turn's tool calls with no result yet, oldest first. */
+  openTools: PendingTool[];
+  /** Model of the latest response. */
+  model: string;
+  usage: DailyUsage;
+  /**
+   * The last usage counted. Claude Code repeats a response's usage on each of
+   * its lines, so a repeat replaces it rather than adding to it.
+   */
+  lastUsage: { messageId: string; day: string; model: string; tokens: TokenUsage } | null;
+}
+
+/** A tool call with no result yet — running, or waiting for the user to allow it. */
+export interface PendingTool {
+  id: string;
+  name: string;
+  /** Tool arguments, long strings clipped. */
+  input: unknown;
 }
 
 export interface SessionIndex {
@@ -22,6 +74,8 @@ export interface SessionCacheEntry {
   timestamp: string;
   cliVersion: string;
   mtimeMs: number;
+  /** Lets a restart carry on from where parsing stopped instead of re-reading the file. */
+  summary?: SessionSummary;
 }
 
 export interface SessionCache {
@@ -29,3 +83,35 @@ export interface SessionCache {
   entries: SessionCacheEntry[];
   lastFullScan: string;
 }
+
+/** One content block of a transcript message. Long tool output is clipped. */
+export type TranscriptBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: unknown }
+  | { type: "tool_result"; toolUseId: string; content: string; isError: boolean; truncated: boolean };
+
+/** A user or assistant turn parsed from the session JSONL. */
+export interface TranscriptMessage {
+  uuid: string;
+  /** Claude's message ID for assistant turns (shared by their JSONL lines), else the uuid. */
+  messageId: string;
+  role: "user" | "assistant";
+  timestamp: string; // ISO 8601
+  blocks: TranscriptBlock[];
+}
+
+/** A page of transcript, oldest message first. */
+export interface TranscriptPage {
+  messages: TranscriptMessage[];
+  /** Byte offset to pass as `before` for the previous page, or null at the start of the file. */
+  cursor: number | null;
+  /** File size when read — where a live tail would start. */
+  end: number;
+}
+
+/** Messages appended to a transcript since some byte offset, oldest first. */
+export interface TranscriptTail {
+  messages: TranscriptMessage[];
+  /** Byte offset just past the last complete line — where the next read starts. */
+  end: number;
+}
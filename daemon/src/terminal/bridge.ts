@@ -1,8 +1,20 @@
 import { execFile } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import { EventEmitter } from "node:events";
 import { promisify } from "node:util";
 import type { WebSocket } from "ws";
 import type { FastifyBaseLogger } from "fastify";
 import type { RelayConfig } from "../config.js";
+import type { AttachMode, TerminalOrigin } from "./client.js";
+import { TerminalClient } from "./client.js";
+import { OutputLog } from "./output.js";
+import type { ClientControl, ProtocolVersion } from "./protocol.js";
+import { decodeInput } from "./protocol.js";
+import { capturePane } from "../tmux/capture.js";
+import type { Recording, Recordings } from "../recording/recordings.js";
+
+export type { AttachMode, TerminalOrigin } from "./client.js";
+export type { ProtocolVersion } from "./protocol.js";
 
 const execAsync = promisify(execFile);
 
@@ -15,27 +27,76 @@ async function loadPty(): Promise<typeof import("node-pty")> {
   return ptyModule;
 }
 
+/** One PTY running `tmux attach`, shared by a controller and any observers. */
 interface ActiveTerminal {
   pty: import("node-pty").IPty;
   sessionId: string;
-  ws: WebSocket;
+  controller: TerminalClient | null;
+  observers: Set<TerminalClient>;
+  /** Identifies this PTY's output stream — sequence numbers are only valid within it. */
+  stream: string;
+  output: OutputLog;
+  /** Pending cleanup while the PTY waits for a dropped v2 client to resume. */
+  lingerTimer: ReturnType<typeof setTimeout> | null;
+  /** Asciicast of the PTY's output, when recording is enabled. */
+  recording: Recording | null;
   createdAt: Date;
   cleanedUp: boolean;
 }
 
-const BACKPRESSURE_THRESHOLD = 64 * 1024; // 64KB
-const OUTPUT_BUFFER_MAX = 1024 * 1024; // 1MB cap
-const BATCH_INTERVAL_MS = 16; // ~60fps
+/** What to do with the PTY when the last client leaves. */
+type OnLastClient = "cleanup" | "linger";
+
+// Output kept per terminal for v2 resume and catch-up
+const OUTPUT_LOG_BYTES = 4 * 1024 * 1024; // 4MB
+// How long a PTY outlives a v2 client that dropped without closing cleanly
+const RESUME_WINDOW_MS = 30_000;
+
+export interface AttachOptions {
+  cols: number;
+  rows: number;
+  origin: TerminalOrigin;
+  mode: AttachMode;
+  /** Evict a live controller instead of refusing the new connection. */
+  takeover: boolean;
+  /** Lines of history above the visible pane to replay (0 = visible pane only). */
+  scrollback: number;
+  version: ProtocolVersion;
+  /** v2: continue a previous connection's output stream from `seq`. */
+  resume: { stream: string; seq: number } | null;
+}
+
+/** Close code sent to a controller evicted by a takeover. */
+export const TAKEOVER_CLOSE_CODE = 4410;
+
+function clientsOf(terminal: ActiveTerminal): TerminalClient[] {
+  return terminal.controller
+    ? [terminal.controller, ...terminal.observers]
+    : [...terminal.observers];
+}
 
-export class TerminalBridge {
+/**
+ * Bridges WebSockets to tmux via node-pty. PTY output fans out to every
+ * client; only the controller's input and resizes reach the PTY. The PTY
+ * lives until its last client leaves.
+ * Emits "attach" (sessionId, origin, mode) and
+ * "detach" (sessionId, origin, durationMs, mode) per client, and
+ * "takeover" (sessionId, evictedOrigin, byOrigin) when a controller is evicted.
+ */
+export class TerminalBridge extends EventEmitter {
   private log: FastifyBaseLogger;
   private config: RelayConfig;
+  private recordings: Recordings;
   private terminals = new Map<string, ActiveTerminal>();
+  /** Tail of each session's queue of attaches, which run one at a time. */
+  private attaching = new Map<string, Promise<void>>();
   private reapTimer: ReturnType<typeof setInterval> | null = null;
 
-  constructor(config: RelayConfig, log: FastifyBaseLogger) {
+  constructor(config: RelayConfig, log: FastifyBaseLogger, recordings: Recordings) {
+    super();
     this.log = log.child({ module: "terminal" });
     this.config = config;
+    this.recordings = recordings;
   }
 
   start(): void {
@@ -51,38 +112,231 @@ export class TerminalBridge {
     await Promise.all(cleanups);
   }
 
-  /** Check if a session has an active terminal — single source of truth. */
+  /**
+   * Check if a session has a controlling terminal connection — single source
+   * of truth. Observers don't count: they never block a controller.
+   */
   hasActiveTerminal(sessionId: string): boolean {
-    return this.terminals.has(sessionId);
+    return !!this.terminals.get(sessionId)?.controller;
+  }
+
+  /** Number of view-only clients watching a session. */
+  observerCount(sessionId: string): number {
+    return this.terminals.get(sessionId)?.observers.size ?? 0;
   }
 
   /**
    * Attach a WebSocket to a tmux session via node-pty.
-   * The PTY runs `tmux attach-session -t <name>`.
+   * The PTY runs `tmux attach-session -t <name>` and is spawned by the
+   * first client; later clients join the running PTY. Each client first
+   * receives a replay of the pane and its history, then live output — or,
+   * when resuming a v2 stream, the output it missed.
    */
   async attach(
     sessionId: string,
     tmuxSession: string,
     ws: WebSocket,
-    cols: number,
-    rows: number,
+    options: AttachOptions,
+  ): Promise<void> {
+    // The conflict check, PTY spawn and client registration straddle awaits,
+    // so concurrent attaches to one session are queued; otherwise two
+    // controllers could each pass the check and spawn a PTY, orphaning one
+    const previous = this.attaching.get(sessionId) ?? Promise.resolve();
+    const run = previous.then(() => this.attachNow(sessionId, tmuxSession, ws, options));
+    const tail = run.catch(() => {});
+    this.attaching.set(sessionId, tail);
+    try {
+      await run;
+    } finally {
+      if (this.attaching.get(sessionId) === tail) this.attaching.delete(sessionId);
+    }
+  }
+
+  private async attachNow(
+    sessionId: string,
+    tmuxSession: string,
+    ws: WebSocket,
+    options: AttachOptions,
   ): Promise<void> {
+    // Gave up while waiting its turn
+    if (ws.readyState !== ws.OPEN) return;
+
+    const { cols, rows, origin, mode, takeover, scrollback, version, resume } = options;
+
+    // Resume only within the same PTY's stream and while the log still has the bytes
+    const current = this.terminals.get(sessionId);
+    const resumeSeq =
+      version === 2 && resume && current?.stream === resume.stream && current.output.has(resume.seq)
+        ? resume.seq
+        : null;
+
+    // Capture before attaching: a new PTY resizes the tmux window, which
+    // reflows the pane
+    const history = resumeSeq === null ? await capturePane(tmuxSession, scrollback) : "";
+    // Closed during the capture — don't evict or spawn for a client that's gone
+    if (ws.readyState !== ws.OPEN) return;
+
     const existing = this.terminals.get(sessionId);
-    if (existing) {
+    if (mode === "control" && existing?.controller) {
       // If the existing WS is dead/closing, proactively clean it up
       // instead of waiting for the 60s orphan reaper.
-      if (
-        existing.ws.readyState === existing.ws.CLOSED ||
-        existing.ws.readyState === existing.ws.CLOSING
-      ) {
+      if (existing.controller.isDead) {
         this.log.info({ sessionId }, "Cleaning up stale terminal connection for reconnect");
-        this.cleanupTerminal(sessionId, existing);
+        this.removeClient(existing, existing.controller);
+      } else if (takeover) {
+        this.evictController(existing, origin);
       } else {
         ws.close(4409, "Session already has an active terminal connection");
         return;
       }
     }
 
+    let terminal = this.terminals.get(sessionId);
+    if (terminal?.lingerTimer) {
+      clearTimeout(terminal.lingerTimer);
+      terminal.lingerTimer = null;
+    }
+    if (!terminal) {
+      terminal = await this.spawn(sessionId, tmuxSession, cols, rows);
+    } else if (mode === "control") {
+      // Joining a PTY that observers kept alive — the controller dictates size
+      this.resizePty(terminal, cols, rows);
+    }
+
+    const client = new TerminalClient(
+      ws,
+      mode,
+      origin,
+      version,
+      terminal.output,
+      resumeSeq ?? terminal.output.end,
+      this.config,
+      this.log.child({ sessionId, mode }),
+    );
+    if (mode === "control") {
+      terminal.controller = client;
+    } else {
+      terminal.observers.add(client);
+    }
+    // Hello and replay go out before the first batched flush of live output
+    if (version === 2) client.sendHello(terminal.stream, resumeSeq !== null);
+    if (resumeSeq !== null) {
+      client.flush();
+    } else if (history) {
+      client.sendReplay(history);
+    }
+
+    this.log.info(
+      {
+        sessionId,
+        mode,
+        ip: origin.ip,
+        observers: terminal.observers.size,
+        version,
+        ...(resumeSeq !== null ? { resumedFrom: resumeSeq, missed: terminal.output.end - resumeSeq } : {}),
+      },
+      "Terminal client attached",
+    );
+    this.emit("attach", sessionId, origin, mode);
+
+    const attached = terminal;
+
+    // WS → PTY
+    ws.on("message", (data: Buffer | string, isBinary: boolean) => {
+      if (isBinary) {
+        // Binary frame = terminal input — observers are view-only
+        if (mode !== "control") {
+          this.log.debug({ sessionId }, "Dropping input from observer");
+          return;
+        }
+        const input = version === 2 ? decodeInput(data as Buffer) : data;
+        if (!input) {
+          this.log.warn({ sessionId }, "Unrecognized binary frame, dropping");
+          return;
+        }
+        attached.pty.write(input.toString("utf-8"));
+        return;
+      }
+
+      // Text frame = control message (JSON only). Non-JSON text is dropped.
+      const text = typeof data === "string" ? data : data.toString("utf-8");
+      try {
+        const msg = JSON.parse(text) as ClientControl;
+
+        if (msg.type === "resize" && msg.cols && msg.rows) {
+          // Observers render at the controller's size
+          if (mode !== "control") return;
+          this.resizePty(attached, msg.cols, msg.rows);
+          this.log.debug(
+            { sessionId, cols: msg.cols, rows: msg.rows },
+            "Terminal resized",
+          );
+          return;
+        }
+
+        if (msg.type === "ack" && typeof msg.seq === "number") {
+          client.ack(msg.seq);
+          return;
+        }
+
+        // Valid JSON but unrecognized type — drop it
+        this.log.warn(
+          { sessionId, type: (msg as { type?: unknown }).type },
+          "Unrecognized control message type, dropping",
+        );
+      } catch {
+        // Not valid JSON — drop the frame
+        this.log.warn({ sessionId }, "Received non-JSON text frame, dropping");
+      }
+    });
+
+    // WS close / error → detach client (PTY goes when the last one leaves,
+    // unless a v2 client dropped and may come back to resume)
+    ws.on("close", (code: number) => {
+      this.log.info({ sessionId, mode, code }, "WebSocket closed");
+      const dropped = version === 2 && code !== 1000;
+      this.removeClient(attached, client, dropped ? "linger" : "cleanup");
+    });
+
+    ws.on("error", (err) => {
+      this.log.error({ err, sessionId }, "WebSocket error");
+      this.removeClient(attached, client);
+    });
+  }
+
+  /**
+   * Hand control to a new client: tell the current controller who took
+   * over, then close it. The PTY is kept for the new controller, which is
+   * attached right after.
+   */
+  private evictController(terminal: ActiveTerminal, by: TerminalOrigin): void {
+    const evicted = terminal.controller;
+    if (!evicted) return;
+
+    this.log.info(
+      { sessionId: terminal.sessionId, evictedIp: evicted.origin.ip, byIp: by.ip },
+      "Terminal taken over",
+    );
+
+    evicted.flush();
+    evicted.sendControl({
+      type: "takeover",
+      by: { device: by.device?.name ?? null, ip: by.ip },
+    });
+    // Detach before closing so the slot is free. The PTY lingers rather than
+    // being kept outright, so it's still cleaned up if the newcomer never attaches
+    this.removeClient(terminal, evicted, "linger");
+    this.emit("takeover", terminal.sessionId, evicted.origin, by);
+    evicted.close(TAKEOVER_CLOSE_CODE, "Taken over by another device");
+  }
+
+  /** Spawn the PTY for a session and fan its output out to all clients. */
+  private async spawn(
+    sessionId: string,
+    tmuxSession: string,
+    cols: number,
+    rows: number,
+  ): Promise<ActiveTerminal> {
     const pty = await loadPty();
 
     // Disable tmux status bar — it steals a row and causes rendering issues
@@ -104,7 +358,13 @@ export class TerminalBridge {
     const terminal: ActiveTerminal = {
       pty: ptyProcess,
       sessionId,
-      ws,
+      controller: null,
+      observers: new Set(),
+      stream: randomUUID(),
+      output: new OutputLog(OUTPUT_LOG_BYTES),
+      lingerTimer: null,
+      // Recorded from the start, including tmux's initial pane dump
+      recording: this.recordings.open(sessionId, cols, rows),
       createdAt: new Date(),
       cleanedUp: false,
     };
@@ -113,64 +373,29 @@ export class TerminalBridge {
 
     this.log.info(
       { sessionId, tmuxSession, pid: ptyProcess.pid, cols, rows },
-      "Terminal attached",
+      "Terminal PTY spawned",
     );
 
-    // Suppress initial tmux pane redraw — discard first 500ms of output,
-    // then force a resize to trigger a clean redraw at the phone's dimensions.
+    // Suppress initial tmux pane redraw — the first client already has the
+    // pane from its replay. Discard the first 500ms of output, then force a
+    // resize to trigger a clean redraw at the phone's dimensions.
     let initialFlushDone = false;
     const initialFlushTimer = setTimeout(() => {
       initialFlushDone = true;
       ptyProcess.resize(cols, rows);
     }, 500);
 
-    // Output batching for backpressure control
-    let outputBuffer: Buffer[] = [];
-    let outputBufferSize = 0;
-    let batchTimer: ReturnType<typeof setTimeout> | null = null;
-
-    const clearBatchTimer = (): void => {
-      if (batchTimer) {
-        clearTimeout(batchTimer);
-        batchTimer = null;
-      }
-    };
-
-    const flushOutput = (): void => {
-      batchTimer = null;
-      if (outputBuffer.length === 0) return;
-      if (ws.readyState !== ws.OPEN) return;
-
-      // Check backpressure — retry later if buffer full
-      if (ws.bufferedAmount > BACKPRESSURE_THRESHOLD) {
-        batchTimer = setTimeout(flushOutput, BATCH_INTERVAL_MS);
-        return;
-      }
-
-      const combined = Buffer.concat(outputBuffer);
-      outputBuffer = [];
-      outputBufferSize = 0;
-      ws.send(combined);
-    };
-
-    // PTY → WS (binary)
+    // PTY → every client (binary)
     ptyProcess.onData((data: string) => {
+      terminal.recording?.output(data);
+
       // Discard initial tmux pane dump (first 500ms)
       if (!initialFlushDone) return;
 
       const buf = Buffer.from(data, "utf-8");
-
-      // FIFO eviction — drop oldest chunks until there's room
-      while (outputBufferSize + buf.length > OUTPUT_BUFFER_MAX && outputBuffer.length > 0) {
-        const dropped = outputBuffer.shift();
-        if (dropped) outputBufferSize -= dropped.length;
-      }
-
-      outputBuffer.push(buf);
-      outputBufferSize += buf.length;
-
-      if (!batchTimer) {
-        batchTimer = setTimeout(flushOutput, BATCH_INTERVAL_MS);
+      terminal.output.append(buf);
+      for (const client of clientsOf(terminal)) {
+        client.send(buf);
       }
     });
 
@@ -178,87 +403,63 @@ export class TerminalBridge {
     ptyProcess.onExit(({ exitCode, signal }) => {
       this.log.info({ sessionId, exitCode, signal }, "PTY process exited");
       clearTimeout(initialFlushTimer);
-      clearBatchTimer();
-      flushOutput();
       this.cleanupTerminal(sessionId, terminal);
-
-      if (ws.readyState === ws.OPEN) {
-        ws.close(1000, "Terminal session ended");
-      }
     });
 
-    // WS → PTY
-    ws.on("message", (data: Buffer | string, isBinary: boolean) => {
-      if (isBinary) {
-        // Binary frame = terminal input
-        ptyProcess.write(data.toString("utf-8"));
-        return;
-      }
-
-      // Text frame = control message (JSON only). Non-JSON text is dropped.
-      const text = typeof data === "string" ? data : data.toString("utf-8");
-      try {
-        const msg = JSON.parse(text) as {
-          type: string;
-          cols?: number;
-          rows?: number;
-        };
-
-        if (msg.type === "resize" && msg.cols && msg.rows) {
-          ptyProcess.resize(msg.cols, msg.rows);
-          this.log.debug(
-            { sessionId, cols: msg.cols, rows: msg.rows },
-            "Terminal resized",
-          );
-          return;
-        }
+    return terminal;
+  }
 
-        // Valid JSON but unrecognized type — drop it
-        this.log.warn({ sessionId, type: msg.type }, "Unrecognized control message type, dropping");
-      } catch {
-        // Not valid JSON — drop the frame
-        this.log.warn({ sessionId }, "Received non-JSON text frame, dropping");
-      }
-    });
+  /** Resize the PTY, noting real size changes in the recording. */
+  private resizePty(terminal: ActiveTerminal, cols: number, rows: number): void {
+    const changed = cols !== terminal.pty.cols || rows !== terminal.pty.rows;
+    terminal.pty.resize(cols, rows);
+    if (changed) terminal.recording?.resize(cols, rows);
+  }
 
-    // WS close / error → cleanup PTY
-    ws.on("close", () => {
-      this.log.info({ sessionId }, "WebSocket closed, cleaning up PTY");
-      clearBatchTimer();
-      this.cleanupTerminal(sessionId, terminal);
-    });
+  /**
+   * Detach one client. Idempotent; once no clients remain the PTY is cleaned
+   * up, or left to linger for RESUME_WINDOW_MS so a dropped client can
+   * resume (or a taking-over client attach).
+   */
+  private removeClient(
+    terminal: ActiveTerminal,
+    client: TerminalClient,
+    onLast: OnLastClient = "cleanup",
+  ): void {
+    if (client.detached) return;
+    client.detached = true;
+    client.dispose();
+
+    if (terminal.controller === client) {
+      terminal.controller = null;
+    } else {
+      terminal.observers.delete(client);
+    }
 
-    ws.on("error", (err) => {
-      this.log.error({ err, sessionId }, "WebSocket error");
-      clearBatchTimer();
-      this.cleanupTerminal(sessionId, terminal);
-    });
+    this.emit(
+      "detach",
+      terminal.sessionId,
+      client.origin,
+      Date.now() - client.connectedAt.getTime(),
+      client.mode,
+    );
 
-    // Heartbeat: send ping, increment missed counter.
-    // Reset on pong. Disconnect if too many missed.
-    let missedPongs = 0;
-    const heartbeatInterval = setInterval(() => {
-      if (ws.readyState !== ws.OPEN) {
-        clearInterval(heartbeatInterval);
-        return;
-      }
-      missedPongs++;
-      if (missedPongs > this.config.rateLimit.wsMaxMissedPongs) {
-        this.log.warn({ sessionId, missedPongs }, "Too many missed pongs, closing");
-        clearInterval(heartbeatInterval);
-        ws.terminate();
-        return;
-      }
-      ws.ping();
-    }, this.config.rateLimit.wsHeartbeat * 1000);
+    if (terminal.controller || terminal.observers.size > 0) return;
 
-    ws.on("pong", () => {
-      missedPongs = 0;
-    });
+    if (onLast === "linger") {
+      this.log.info({ sessionId: terminal.sessionId }, "Last client gone, keeping PTY for resume");
+      terminal.lingerTimer = setTimeout(() => {
+        terminal.lingerTimer = null;
+        if (!terminal.controller && terminal.observers.size === 0) {
+          this.log.info({ sessionId: terminal.sessionId }, "Resume window expired, cleaning up PTY");
+          this.cleanupTerminal(terminal.sessionId, terminal);
+        }
+      }, RESUME_WINDOW_MS);
+      return;
+    }
 
-    ws.on("close", () => {
-      clearInterval(heartbeatInterval);
-    });
+    this.log.info({ sessionId: terminal.sessionId }, "Last client detached, cleaning up PTY");
+    this.cleanupTerminal(terminal.sessionId, terminal);
   }
 
   private cleanupTerminal(sessionId: string, terminal: ActiveTerminal): Promise<void> {
@@ -268,6 +469,15 @@ export class TerminalBridge {
 
     terminal.cleanedUp = true;
     this.terminals.delete(sessionId);
+    if (terminal.lingerTimer) clearTimeout(terminal.lingerTimer);
+    terminal.recording?.close();
+
+    // Deliver what's buffered, then close any clients still attached
+    for (const client of clientsOf(terminal)) {
+      client.flush();
+      this.removeClient(terminal, client);
+      client.close(1000, "Terminal session ended");
+    }
 
     const pid = terminal.pty.pid;
     try {
@@ -304,10 +514,11 @@ export class TerminalBridge {
 
   private reapOrphans(): void {
     for (const [sessionId, terminal] of this.terminals) {
-      const ws = terminal.ws;
-      if (ws.readyState === ws.CLOSED || ws.readyState === ws.CLOSING) {
-        this.log.warn({ sessionId }, "Reaping orphaned terminal (WS dead)");
-        this.cleanupTerminal(sessionId, terminal);
+      for (const client of clientsOf(terminal)) {
+        if (client.isDead) {
+          this.log.warn({ sessionId, mode: client.mode }, "Reaping orphaned terminal client (WS dead)");
+          this.removeClient(terminal, client);
+        }
       }
     }
   }
@@ -0,0 +1,238 @@
+import type { WebSocket } from "ws";
+import type { FastifyBaseLogger } from "fastify";
+import type { RelayConfig } from "../config.js";
+import type { Device } from "../devices/types.js";
+import type { OutputLog } from "./output.js";
+import type { ProtocolVersion, ServerControl } from "./protocol.js";
+import { encodeOutput, encodeReplay } from "./protocol.js";
+
+/** Who opened a terminal connection. */
+export interface TerminalOrigin {
+  ip: string;
+  device: Device | null;
+}
+
+/**
+ * "control" clients drive the PTY (input + resize); "observe" clients only
+ * receive output. A session has at most one controller.
+ */
+export type AttachMode = "control" | "observe";
+
+const BACKPRESSURE_THRESHOLD = 64 * 1024; // 64KB
+const OUTPUT_BUFFER_MAX = 1024 * 1024; // 1MB cap (v1) / unacked bytes in flight (v2)
+const MAX_FRAME_BYTES = 256 * 1024; // v2 output frame payload cap
+const BATCH_INTERVAL_MS = 16; // ~60fps
+
+/**
+ * One WebSocket attached to a terminal. Owns its own output batching,
+ * backpressure and heartbeat so a slow observer can't stall the controller.
+ *
+ * v1 clients get raw output from a private queue that drops its oldest
+ * chunks when full. v2 clients read framed output from the terminal's
+ * OutputLog at their own position, paced by acks, so they never lose bytes.
+ */
+export class TerminalClient {
+  readonly ws: WebSocket;
+  readonly mode: AttachMode;
+  readonly origin: TerminalOrigin;
+  readonly version: ProtocolVersion;
+  readonly connectedAt = new Date();
+  /** Set once the bridge has removed this client (idempotency guard). */
+  detached = false;
+  /** v2: offset of the next output byte to send. */
+  sentSeq: number;
+  /** v2: every output byte before this offset has been acked. */
+  ackedSeq: number;
+
+  private log: FastifyBaseLogger;
+  private output: OutputLog;
+  private outputBuffer: Buffer[] = [];
+  private outputBufferSize = 0;
+  private batchTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval>;
+  private missedPongs = 0;
+
+  constructor(
+    ws: WebSocket,
+    mode: AttachMode,
+    origin: TerminalOrigin,
+    version: ProtocolVersion,
+    output: OutputLog,
+    startSeq: number,
+    config: RelayConfig,
+    log: FastifyBaseLogger,
+  ) {
+    this.ws = ws;
+    this.mode = mode;
+    this.origin = origin;
+    this.version = version;
+    this.output = output;
+    this.sentSeq = startSeq;
+    this.ackedSeq = startSeq;
+    this.log = log;
+
+    // Heartbeat: send ping, increment missed counter.
+    // Reset on pong. Disconnect if too many missed.
+    this.heartbeatTimer = setInterval(() => {
+      if (ws.readyState !== ws.OPEN) {
+        clearInterval(this.heartbeatTimer);
+        return;
+      }
+      this.missedPongs++;
+      if (this.missedPongs > config.rateLimit.wsMaxMissedPongs) {
+        this.log.warn({ missedPongs: this.missedPongs }, "Too many missed pongs, closing");
+        clearInterval(this.heartbeatTimer);
+        ws.terminate();
+        return;
+      }
+      ws.ping();
+    }, config.rateLimit.wsHeartbeat * 1000);
+
+    ws.on("pong", () => {
+      this.missedPongs = 0;
+    });
+  }
+
+  /** True once the socket is closing or closed. */
+  get isDead(): boolean {
+    return (
+      this.ws.readyState === this.ws.CLOSED ||
+      this.ws.readyState === this.ws.CLOSING
+    );
+  }
+
+  /**
+   * New PTY output is available; flushed in batches for backpressure control.
+   * v2 clients read it from the output log, so only the flush is scheduled.
+   */
+  send(buf: Buffer): void {
+    if (this.version === 2) {
+      this.scheduleFlush();
+      return;
+    }
+
+    // FIFO eviction — drop oldest chunks until there's room
+    while (
+      this.outputBufferSize + buf.length > OUTPUT_BUFFER_MAX &&
+      this.outputBuffer.length > 0
+    ) {
+      const dropped = this.outputBuffer.shift();
+      if (dropped) this.outputBufferSize -= dropped.length;
+    }
+
+    this.outputBuffer.push(buf);
+    this.outputBufferSize += buf.length;
+
+    this.scheduleFlush();
+  }
+
+  flush(): void {
+    this.batchTimer = null;
+    if (this.version === 2) {
+      this.flushFramed();
+      return;
+    }
+    if (this.outputBuffer.length === 0) return;
+    if (this.ws.readyState !== this.ws.OPEN) return;
+
+    // Check backpressure — retry later if buffer full
+    if (this.ws.bufferedAmount > BACKPRESSURE_THRESHOLD) {
+      this.batchTimer = setTimeout(() => this.flush(), BATCH_INTERVAL_MS);
+      return;
+    }
+
+    const combined = Buffer.concat(this.outputBuffer);
+    this.outputBuffer = [];
+    this.outputBufferSize = 0;
+    this.ws.send(combined);
+  }
+
+  /** v2: the client has everything before `seq`; opens the window for more. */
+  ack(seq: number): void {
+    if (this.version !== 2) return;
+    // Can't ack what hasn't been sent
+    const acked = Math.min(seq, this.sentSeq);
+    if (acked <= this.ackedSeq) return;
+    this.ackedSeq = acked;
+    if (this.sentSeq < this.output.end) this.scheduleFlush();
+  }
+
+  /** v2: tell the client where its output stream starts. Sent first. */
+  sendHello(stream: string, resumed: boolean): void {
+    this.sendControl({ type: "hello", version: 2, stream, seq: this.sentSeq, resumed });
+  }
+
+  /**
+   * Send captured pane history ahead of live output: a `replay` control
+   * message with the line count, then the history as one binary frame.
+   * Sent directly rather than batched so the output buffer cap can't
+   * evict part of it.
+   */
+  sendReplay(history: string): void {
+    if (this.ws.readyState !== this.ws.OPEN) return;
+    const lines = history.split("\n");
+    this.sendControl({ type: "replay", lines: lines.length });
+    // capture-pane ends lines with bare \n; reset SGR so colors don't leak into live output
+    const replay = Buffer.from(lines.join("\r\n") + "\x1b[0m", "utf-8");
+    this.ws.send(this.version === 2 ? encodeReplay(replay) : replay);
+  }
+
+  /** Send a JSON control message as a text frame. */
+  sendControl(msg: ServerControl): void {
+    if (this.ws.readyState === this.ws.OPEN) {
+      this.ws.send(JSON.stringify(msg));
+    }
+  }
+
+  close(code: number, reason: string): void {
+    if (this.ws.readyState === this.ws.OPEN) {
+      this.ws.close(code, reason);
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (!this.batchTimer) {
+      this.batchTimer = setTimeout(() => this.flush(), BATCH_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * v2: send output from the log starting at sentSeq, stopping while the
+   * socket is backed up or too much output is unacked (an ack resumes it).
+   */
+  private flushFramed(): void {
+    if (this.ws.readyState !== this.ws.OPEN) return;
+
+    while (this.sentSeq < this.output.end) {
+      if (this.ws.bufferedAmount > BACKPRESSURE_THRESHOLD) {
+        this.batchTimer = setTimeout(() => this.flush(), BATCH_INTERVAL_MS);
+        return;
+      }
+      const window = OUTPUT_BUFFER_MAX - (this.sentSeq - this.ackedSeq);
+      if (window <= 0) return;
+
+      const chunk = this.output.read(this.sentSeq, Math.min(window, MAX_FRAME_BYTES));
+      if (!chunk) {
+        // The log moved past us — no way to deliver the gap. Closing with a
+        // retryable code makes the client reconnect and start from a replay.
+        this.log.warn(
+          { sentSeq: this.sentSeq, ackedSeq: this.ackedSeq },
+          "Client fell behind the output log, closing",
+        );
+        this.close(1013, "Fell too far behind");
+        return;
+      }
+      this.ws.send(encodeOutput(this.sentSeq, chunk));
+      this.sentSeq += chunk.length;
+    }
+  }
+
+  /** Stop timers. The socket itself is closed by the caller. */
+  dispose(): void {
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer);
+      this.batchTimer = null;
+    }
+    clearInterval(this.heartbeatTimer);
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Bounded log of a terminal's output, addressed by absolute byte offset
+ * (the v2 protocol's sequence number). Keeps the most recent `capacity`
+ * bytes so clients can resume after a disconnect or catch up after
+ * backpressure without anything being dropped.
+ */
+export class OutputLog {
+  private capacity: number;
+  private chunks: Buffer[] = [];
+  private size = 0;
+  /** Offset of the first byte still held. */
+  private startSeq = 0;
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+  }
+
+  /** Offset one past the last byte written. */
+  get end(): number {
+    return this.startSeq + this.size;
+  }
+
+  /** True if `seq` can still be read (including the current end). */
+  has(seq: number): boolean {
+    return seq >= this.startSeq && seq <= this.end;
+  }
+
+  append(buf: Buffer): void {
+    this.chunks.push(buf);
+    this.size += buf.length;
+
+    // Evict whole chunks from the front, but always keep the newest
+    while (this.size > this.capacity && this.chunks.length > 1) {
+      const dropped = this.chunks.shift();
+      if (!dropped) break;
+      this.size -= dropped.length;
+      this.startSeq += dropped.length;
+    }
+  }
+
+  /**
+   * Up to `maxBytes` of output starting at `seq`. Returns null if `seq`
+   * has already been evicted, an empty buffer if it's the current end.
+   */
+  read(seq: number, maxBytes: number): Buffer | null {
+    if (!this.has(seq)) return null;
+
+    const parts: Buffer[] = [];
+    let remaining = maxBytes;
+    let offset = this.startSeq;
+    for (const chunk of this.chunks) {
+      if (remaining <= 0) break;
+      const chunkEnd = offset + chunk.length;
+      if (chunkEnd > seq) {
+        const from = Math.max(0, seq - offset);
+        const part = chunk.subarray(from, from + remaining);
+        parts.push(part);
+        remaining -= part.length;
+      }
+      offset = chunkEnd;
+    }
+    return Buffer.concat(parts);
+  }
+}
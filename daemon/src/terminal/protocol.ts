@@ -0,0 +1,66 @@
+/**
+ * Terminal WebSocket protocol.
+ *
+ * Version 1 (default): binary frames are raw terminal I/O, text frames are
+ * JSON control messages. Output is best-effort — a slow client loses the
+ * oldest buffered output.
+ *
+ * Version 2 (`?proto=2`): every binary frame starts with a frame type byte.
+ *   OUTPUT  server → client  [0x01][uint64 BE seq][bytes]
+ *   INPUT   client → server  [0x02][bytes]
+ *   REPLAY  server → client  [0x03][bytes]  pane history, outside the sequence
+ * `seq` is the byte offset of the frame's first byte in the terminal's output
+ * stream. Clients ack what they have rendered; the daemon keeps unacked output
+ * and stops sending once too much is in flight, so nothing is dropped.
+ * Reconnecting with `?stream=<id>&resume=<seq>` replays output from `seq`.
+ * Text frames remain JSON control messages (see ServerControl/ClientControl).
+ */
+
+export const PROTOCOL_VERSIONS = [1, 2] as const;
+export type ProtocolVersion = (typeof PROTOCOL_VERSIONS)[number];
+
+export const FrameType = {
+  OUTPUT: 0x01,
+  INPUT: 0x02,
+  REPLAY: 0x03,
+} as const;
+
+const OUTPUT_HEADER_BYTES = 9;
+
+/** Control messages sent by the daemon as JSON text frames. */
+export type ServerControl =
+  /** v2 only, first frame: where output starts and whether it resumes the old position. */
+  | { type: "hello"; version: ProtocolVersion; stream: string; seq: number; resumed: boolean }
+  | { type: "replay"; lines: number }
+  | { type: "takeover"; by: { device: string | null; ip: string } };
+
+/** Control messages sent by clients as JSON text frames. */
+export type ClientControl =
+  | { type: "resize"; cols?: number; rows?: number }
+  /** v2 only: every output byte before `seq` has been received. */
+  | { type: "ack"; seq?: number };
+
+export function parseProtocolVersion(value: string | undefined): ProtocolVersion | null {
+  if (value === undefined || value === "") return 1;
+  const version = Number(value);
+  return (PROTOCOL_VERSIONS as readonly number[]).includes(version)
+    ? (version as ProtocolVersion)
+    : null;
+}
+
+export function encodeOutput(seq: number, data: Buffer): Buffer {
+  const header = Buffer.alloc(OUTPUT_HEADER_BYTES);
+  header.writeUInt8(FrameType.OUTPUT, 0);
+  header.writeBigUInt64BE(BigInt(seq), 1);
+  return Buffer.concat([header, data]);
+}
+
+export function encodeReplay(data: Buffer): Buffer {
+  return Buffer.concat([Buffer.of(FrameType.REPLAY), data]);
+}
+
+/** Payload of a v2 INPUT frame, or null for anything else. */
+export function decodeInput(frame: Buffer): Buffer | null {
+  if (frame.length === 0 || frame[0] !== FrameType.INPUT) return null;
+  return frame.subarray(1);
+}
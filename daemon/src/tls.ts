@@ -0,0 +1,107 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { existsSync } from "node:fs";
+import { readFile, mkdir, chmod } from "node:fs/promises";
+import { dirname } from "node:path";
+import { hostname } from "node:os";
+import { X509Certificate, createHash } from "node:crypto";
+import type { RelayConfig } from "./config.js";
+import { lanAddress } from "./network.js";
+
+const exec = promisify(execFile);
+
+// iOS rejects TLS server certs valid for longer than 825 days
+const CERT_VALIDITY_DAYS = 825;
+
+export interface TlsMaterial {
+  cert: string;
+  key: string;
+  /** SHA-256 fingerprint, colon-separated uppercase hex (as shown by openssl). */
+  fingerprint: string;
+}
+
+/** Strip separators so fingerprints compare regardless of formatting. */
+export function normalizeFingerprint(fingerprint: string): string {
+  return fingerprint.replace(/:/g, "").toUpperCase();
+}
+
+/** Base64 SHA-256 of the cert's public key, the form `curl --pinnedpubkey sha256//...` takes. */
+export function publicKeyPin(cert: string): string {
+  const spki = new X509Certificate(cert).publicKey.export({ type: "spki", format: "der" });
+  return createHash("sha256").update(spki).digest("base64");
+}
+
+/**
+ * Load the TLS cert/key configured in RelayConfig.tls. If TLS is enabled and
+ * neither file exists yet, generate a self-signed certificate on first run
+ * (the same way the PSK is generated). Returns null when TLS is disabled.
+ */
+export async function loadTlsMaterial(config: RelayConfig): Promise<TlsMaterial | null> {
+  if (!config.tls.enabled) return null;
+
+  const { certPath, keyPath } = config.tls;
+  const hasCert = existsSync(certPath);
+  const hasKey = existsSync(keyPath);
+
+  if (!hasCert && !hasKey) {
+    await generateSelfSigned(certPath, keyPath);
+  } else if (!hasCert || !hasKey) {
+    throw new Error(
+      `TLS is enabled but ${hasCert ? keyPath : certPath} is missing — provide both tls.certPath and tls.keyPath`,
+    );
+  }
+
+  const [cert, key] = await Promise.all([
+    readFile(certPath, "utf-8"),
+    readFile(keyPath, "utf-8"),
+  ]);
+  const fingerprint = new X509Certificate(cert).fingerprint256;
+  return { cert, key, fingerprint };
+}
+
+/**
+ * Self-signed cert usable as its own trust anchor: marked as a CA so it can be
+ * installed and trusted on iOS (Settings > General > About > Certificate Trust
+ * Settings), with SANs for the LAN address, hostname and loopback.
+ */
+async function generateSelfSigned(certPath: string, keyPath: string): Promise<void> {
+  for (const dir of new Set([dirname(certPath), dirname(keyPath)])) {
+    await mkdir(dir, { recursive: true, mode: 0o700 });
+  }
+
+  const host = hostname();
+  const altNames = [
+    "DNS:localhost",
+    `DNS:${host}`,
+    ...(host.endsWith(".local") ? [] : [`DNS:${host}.local`]),
+    "IP:127.0.0.1",
+    `IP:${lanAddress()}`,
+  ];
+
+  await exec("openssl", [
+    "req",
+    "-x509",
+    "-newkey",
+    "rsa:2048",
+    "-nodes",
+    "-sha256",
+    "-days",
+    String(CERT_VALIDITY_DAYS),
+    "-subj",
+    "/CN=Claude Conduit",
+    "-keyout",
+    keyPath,
+    "-out",
+    certPath,
+    "-addext",
+    `subjectAltName=${[...new Set(altNames)].join(",")}`,
+    "-addext",
+    "basicConstraints=critical,CA:TRUE",
+    "-addext",
+    "keyUsage=critical,digitalSignature,keyEncipherment,keyCertSign",
+    "-addext",
+    "extendedKeyUsage=serverAuth",
+  ]);
+
+  await chmod(keyPath, 0o600);
+}
@@ -0,0 +1,38 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+
+const exec = promisify(execFile);
+
+// Pane history with colors can be large — well above execFile's 1MB default
+const CAPTURE_MAX_BUFFER = 32 * 1024 * 1024;
+
+/**
+ * Capture the visible pane of a tmux session plus up to `historyLines` of
+ * scrollback above it, with SGR escape sequences (-e) and wrapped lines
+ * joined (-J) so the terminal re-wraps them at its own width.
+ * Blank rows at the bottom of the pane are kept, so the last pane-height
+ * lines land on the screen rows tmux will keep drawing to.
+ * Returns "" if the session doesn't exist.
+ */
+export async function capturePane(tmuxName: string, historyLines: number): Promise<string> {
+  try {
+    const { stdout } = await exec(
+      "tmux",
+      ["capture-pane", "-p", "-e", "-J", "-t", tmuxName, "-S", String(-historyLines)],
+      { maxBuffer: CAPTURE_MAX_BUFFER },
+    );
+    return stdout.endsWith("\n") ? stdout.slice(0, -1) : stdout;
+  } catch {
+    return "";
+  }
+}
+
+/** Plain text of the visible pane (no escapes, no history) — for matching prompts. "" if missing. */
+export async function capturePaneText(tmuxName: string): Promise<string> {
+  try {
+    const { stdout } = await exec("tmux", ["capture-pane", "-p", "-J", "-t", tmuxName]);
+    return stdout;
+  } catch {
+    return "";
+  }
+}
@@ -0,0 +1,72 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { capturePaneText } from "./capture.js";
+import { SessionLock } from "./lock.js";
+
+const exec = promisify(execFile);
+
+const READY_POLL_MS = 500;
+// Pane unchanged for this long after startup → Claude has finished drawing
+const READY_STABLE_MS = 1500;
+// Let the paste land before Enter so it isn't taken as part of it
+const SUBMIT_DELAY_MS = 150;
+
+// One paste at a time per pane: the input route and the prompt queue share the buffer name
+const inputLock = new SessionLock();
+
+/** A tmux command failed while typing into a pane, e.g. because it went away. */
+export class PaneInputError extends Error {
+  constructor(tmuxName: string, cause: unknown) {
+    super(`Couldn't type into tmux session ${tmuxName}`, { cause });
+    this.name = "PaneInputError";
+  }
+}
+
+/**
+ * Wait for a freshly started `claude --resume` to finish drawing its UI —
+ * keys typed while it's still starting up can be dropped. Returns false if
+ * the pane hasn't settled within `timeoutMs`.
+ */
+export async function waitForPaneReady(tmuxName: string, timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  let last = "";
+  let stableSince = Date.now();
+
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, READY_POLL_MS));
+    const pane = (await capturePaneText(tmuxName)).trim();
+    if (pane !== last) {
+      last = pane;
+      stableSince = Date.now();
+    } else if (pane && Date.now() - stableSince >= READY_STABLE_MS) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Type text into a tmux pane as one paste (bracketed, if the app asked for
+ * it, so newlines don't submit early), then press Enter if `submit`.
+ * Throws PaneInputError if tmux fails.
+ */
+export async function typeIntoPane(tmuxName: string, text: string, submit: boolean): Promise<void> {
+  await inputLock.acquire(tmuxName, async () => {
+    const buffer = `conduit-${tmuxName}`;
+    try {
+      // Empty text is just an Enter (tmux won't hold an empty buffer)
+      if (text) {
+        await exec("tmux", ["set-buffer", "-b", buffer, "--", text]);
+        await exec("tmux", ["paste-buffer", "-p", "-d", "-b", buffer, "-t", tmuxName]);
+      }
+      if (submit) {
+        await new Promise((resolve) => setTimeout(resolve, SUBMIT_DELAY_MS));
+        await exec("tmux", ["send-keys", "-t", tmuxName, "Enter"]);
+      }
+    } catch (err) {
+      // A failed paste leaves the buffer behind
+      await exec("tmux", ["delete-buffer", "-b", buffer]).catch(() => {});
+      throw new PaneInputError(tmuxName, err);
+    }
+  });
+}
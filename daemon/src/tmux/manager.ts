@@ -82,58 +82,79 @@ export class TmuxManager {
   /**
    * Attach to (or create) a tmux session for a Claude session.
    * Returns tmux session name. Serialized per session ID.
+   * With takeover, an existing connection is not a conflict — the bridge
+   * evicts it when the new WS connects.
    */
-  async attach(sessionId: string, projectPath?: string): Promise<{
+  async attach(sessionId: string, projectPath?: string, takeover = false): Promise<{
     tmuxSession: string;
     existed: boolean;
   }> {
     return this.lock.acquire(sessionId, async () => {
       // Check 1: Already has an active WS connection (bridge is source of truth)
-      if (this.isConnected(sessionId)) {
+      if (!takeover && this.isConnected(sessionId)) {
         throw new SessionConflictError(
           "SESSION_ATTACHED",
           "Already connected from another device",
         );
       }
 
-      // Check 2: Is a Claude process already running with this session?
-      const claudeRunning = await this.isClaudeRunning(sessionId);
-      if (claudeRunning) {
-        throw new SessionConflictError(
-          "SESSION_CONFLICT",
-          "Close Claude on your Mac first, or pick a different session",
-        );
-      }
+      return this.ensureSessionLocked(sessionId, projectPath);
+    });
+  }
 
-      // Check 3: Max sessions
-      const activeSessions = await this.listSessions();
-      const claudeSessions = activeSessions.filter((s) =>
-        s.name.startsWith("claude-"),
+  /**
+   * Make sure a tmux session is running `claude --resume` for this session,
+   * without taking a terminal connection (for typing into the pane).
+   * Same conflict and limit checks as attach, minus the connection check.
+   */
+  async ensureSession(sessionId: string, projectPath?: string): Promise<{
+    tmuxSession: string;
+    existed: boolean;
+  }> {
+    return this.lock.acquire(sessionId, () => this.ensureSessionLocked(sessionId, projectPath));
+  }
+
+  private async ensureSessionLocked(sessionId: string, projectPath?: string): Promise<{
+    tmuxSession: string;
+    existed: boolean;
+  }> {
+    // Is a Claude process already running with this session?
+    const claudeRunning = await this.isClaudeRunning(sessionId);
+    if (claudeRunning) {
+      throw new SessionConflictError(
+        "SESSION_CONFLICT",
+        "Close Claude on your Mac first, or pick a different session",
       );
-      if (claudeSessions.length >= this.config.claude.maxSessions) {
-        const tmuxName = this.tmuxName(sessionId);
-        const existing = claudeSessions.find((s) => s.name === tmuxName);
-        if (!existing) {
-          throw new SessionConflictError(
-            "MAX_SESSIONS",
-            `Maximum ${this.config.claude.maxSessions} concurrent sessions reached. Detach or close a session first.`,
-          );
-        }
-      }
+    }
 
-      // Check 4: Existing tmux session — reattach
+    // Max sessions
+    const activeSessions = await this.listSessions();
+    const claudeSessions = activeSessions.filter((s) =>
+      s.name.startsWith("claude-"),
+    );
+    if (claudeSessions.length >= this.config.claude.maxSessions) {
       const tmuxName = this.tmuxName(sessionId);
-      const exists = await this.hasSession(tmuxName);
-      if (exists) {
-        this.log.info({ sessionId, tmuxName }, "Reattaching to existing tmux session");
-        return { tmuxSession: tmuxName, existed: true };
+      const existing = claudeSessions.find((s) => s.name === tmuxName);
+      if (!existing) {
+        throw new SessionConflictError(
+          "MAX_SESSIONS",
+          `Maximum ${this.config.claude.maxSessions} concurrent sessions reached. Detach or close a session first.`,
+        );
       }
+    }
 
-      // Create new tmux session
-      await this.createSession(sessionId, projectPath);
-      this.log.info({ sessionId, tmuxName }, "Created new tmux session");
-      return { tmuxSession: tmuxName, existed: false };
-    });
+    // Existing tmux session — reattach
+    const tmuxName = this.tmuxName(sessionId);
+    const exists = await this.hasSession(tmuxName);
+    if (exists) {
+      this.log.info({ sessionId, tmuxName }, "Reattaching to existing tmux session");
+      return { tmuxSession: tmuxName, existed: true };
+    }
+
+    // Create new tmux session
+    await this.createSession(sessionId, projectPath);
+    this.log.info({ sessionId, tmuxName }, "Created new tmux session");
+    return { tmuxSession: tmuxName, existed: false };
   }
 
   /** List all tmux sessions (cached with 10s TTL). */
@@ -261,7 +282,7 @@ export class TmuxManager {
     return `claude-${sessionId}`;
   }
 
-  private async hasSession(tmuxName: string): Promise<boolean> {
+  async hasSession(tmuxName: string): Promise<boolean> {
     try {
       await exec("tmux", ["has-session", "-t", tmuxName]);
       return true;
@@ -0,0 +1,109 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { capturePaneText } from "./capture.js";
+
+const exec = promisify(execFile);
+
+// Claude Code's permission dialog: "Do you want to proceed?" (or "...make this edit to x?") above "1. Yes"
+const PROMPT_RE = /Do you want to [^\n?]*\?/;
+const OPTION_RE = /\b1\. Yes\b/;
+// The dialog's top edge: a box corner or a horizontal rule
+const DIALOG_TOP_RE = /^\s*(?:[╭┌]|─{3,})/;
+const OPTION_LINE_RE = /\d\.\s+(?:Yes|No)\b/;
+// Bounds on how far the dialog extends above and below its question
+const MAX_DETAIL_LINES = 20;
+const MAX_OPTION_LINES = 6;
+
+// Which numbered option each decision picks, e.g.
+//   1. Yes
+//   2. Yes, and don't ask again for npm test commands in /repo
+//   3. No, and tell Claude what to do differently (esc)
+const DECISION_OPTIONS: Record<PermissionDecision, RegExp> = {
+  approve: /(\d)\.\s+Yes\b(?!,)/,
+  "approve-always": /(\d)\.\s+Yes,/,
+  deny: /(\d)\.\s+No\b/,
+};
+
+const VERIFY_TIMEOUT_MS = 3000;
+const VERIFY_POLL_MS = 250;
+
+export type PermissionDecision = "approve" | "approve-always" | "deny";
+
+export const PERMISSION_DECISIONS: readonly PermissionDecision[] = ["approve", "approve-always", "deny"];
+
+export type PermissionAnswer =
+  | "answered"     // Key sent and the prompt went away (or a different one replaced it)
+  | "no_prompt"    // Nothing to answer
+  | "unavailable"  // The prompt doesn't offer this decision
+  | "not_cleared"; // Key sent but the prompt is still showing
+
+/** True if the pane text shows a permission prompt. */
+export function isPermissionPrompt(pane: string): boolean {
+  return PROMPT_RE.test(pane) && OPTION_RE.test(pane);
+}
+
+/** The option key for a decision in the newest prompt on screen, or null if it isn't offered. */
+function optionKey(pane: string, decision: PermissionDecision): string | null {
+  // Earlier, already-answered prompts can still be on screen — only look below the last one
+  let start = -1;
+  for (const match of pane.matchAll(new RegExp(PROMPT_RE, "g"))) start = match.index ?? start;
+  if (start === -1) return null;
+  return pane.slice(start).match(DECISION_OPTIONS[decision])?.[1] ?? null;
+}
+
+/**
+ * The newest prompt's dialog, from the tool details above the question
+ * through its options, with the selection cursor, box edges and spacing
+ * stripped — so a redraw of the same prompt (a resize, a spinner tick, the
+ * cursor moving) compares equal, while the next tool's prompt does not.
+ * Null if there is no prompt.
+ */
+export function promptSignature(pane: string): string | null {
+  const lines = pane.split("\n");
+  let question = -1;
+  lines.forEach((line, i) => {
+    if (PROMPT_RE.test(line)) question = i;
+  });
+  if (question === -1) return null;
+
+  let top = question;
+  while (top > 0 && question - top < MAX_DETAIL_LINES && !DIALOG_TOP_RE.test(lines[top - 1])) top--;
+  let bottom = question;
+  for (let i = question + 1; i < lines.length && i - question <= MAX_OPTION_LINES; i++) {
+    if (OPTION_LINE_RE.test(lines[i])) bottom = i;
+  }
+
+  return lines
+    .slice(top, bottom + 1)
+    .map((line) => line.replace(/[│❯]/g, " ").replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Answer the permission prompt in a tmux pane by pressing the option's
+ * number key (Claude Code selects on the digit, no Enter needed), then
+ * wait for that prompt to leave the screen so the caller knows it took.
+ */
+export async function answerPermissionPrompt(
+  tmuxName: string,
+  decision: PermissionDecision,
+): Promise<PermissionAnswer> {
+  const before = await capturePaneText(tmuxName);
+  if (!isPermissionPrompt(before)) return "no_prompt";
+
+  const key = optionKey(before, decision);
+  if (!key) return "unavailable";
+
+  const signature = promptSignature(before);
+  await exec("tmux", ["send-keys", "-t", tmuxName, key]);
+
+  // The next tool's prompt can replace this one, so a different prompt counts as cleared too
+  const deadline = Date.now() + VERIFY_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, VERIFY_POLL_MS));
+    const after = await capturePaneText(tmuxName);
+    if (!isPermissionPrompt(after) || promptSignature(after) !== signature) return "answered";
+  }
+  return "not_cleared";
+}
@@ -0,0 +1,55 @@
+/** Token counts from the `usage` of Claude's API responses. */
+export interface TokenUsage {
+  input: number;
+  output: number;
+  /** Tokens written to the prompt cache. */
+  cacheWrite: number;
+  /** Tokens read back from the prompt cache. */
+  cacheRead: number;
+}
+
+/** Tokens by local day (YYYY-MM-DD) and then model ID. */
+export type DailyUsage = Record<string, Record<string, TokenUsage>>;
+
+/** USD per million tokens for a model. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+/** Tokens and their estimated cost. */
+export interface UsageTotals {
+  tokens: TokenUsage;
+  /** Estimated USD, or null if some of the tokens came from a model with no price. */
+  costUsd: number | null;
+}
+
+/** A session's usage, as shown on SessionView. */
+export interface SessionUsage extends UsageTotals {
+  /** Model of the latest response, or "" before the first one. */
+  model: string;
+}
+
+export interface ProjectUsage extends UsageTotals {
+  projectPath: string;
+  projectName: string;
+  sessionCount: number;
+  /** Days with any usage, oldest first. */
+  days: Array<UsageTotals & { day: string }>;
+}
+
+/** GET /api/usage response. */
+export interface UsageReport {
+  /** First and last day covered, in the daemon's local time. */
+  from: string;
+  to: string;
+  total: UsageTotals;
+  /** Every day in the range, oldest first. */
+  days: Array<UsageTotals & { day: string }>;
+  /** Projects with any usage in the range, costliest first. */
+  projects: ProjectUsage[];
+  /** Models seen with no entry in usage.prices. */
+  unpricedModels: string[];
+}
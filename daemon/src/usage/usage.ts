@@ -0,0 +1,169 @@
+import { basename } from "node:path";
+import type { SessionMetadata } from "../sessions/types.js";
+import type {
+  DailyUsage,
+  ModelPrice,
+  ProjectUsage,
+  SessionUsage,
+  TokenUsage,
+  UsageReport,
+  UsageTotals,
+} from "./types.js";
+
+/**
+ * Anthropic list prices in USD per million tokens, keyed by model family and
+ * version: the model ID without its date snapshot. A newer model isn't
+ * priced until it's added here or to usage.prices in config.yaml, which adds
+ * to or overrides these.
+ */
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "claude-opus-4": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "claude-opus-4-1": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "claude-opus-4-5": { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  "claude-sonnet-4": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-sonnet-4-5": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-3-7-sonnet": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-haiku-4-5": { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  "claude-3-5-haiku": { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+};
+
+// Date snapshot at the end of a model ID, e.g. the -20250514 of claude-opus-4-20250514
+const SNAPSHOT_SUFFIX_RE = /-\d{8}$/;
+
+export function emptyUsage(): TokenUsage {
+  return { input: 0, output: 0, cacheWrite: 0, cacheRead: 0 };
+}
+
+/** Add `b` into `a`, times `sign` (-1 takes it back out). */
+export function addUsage(a: TokenUsage, b: TokenUsage, sign = 1): void {
+  a.input += sign * b.input;
+  a.output += sign * b.output;
+  a.cacheWrite += sign * b.cacheWrite;
+  a.cacheRead += sign * b.cacheRead;
+}
+
+/** Local calendar day of a date, as YYYY-MM-DD. */
+export function localDay(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Price for the exact model ID, else for its family and version. */
+function priceFor(prices: Record<string, ModelPrice>, model: string): ModelPrice | null {
+  const key = Object.hasOwn(prices, model) ? model : model.replace(SNAPSHOT_SUFFIX_RE, "");
+  return Object.hasOwn(prices, key) ? prices[key] : null;
+}
+
+/** Running token and cost totals, across however many models. */
+class Tally {
+  tokens = emptyUsage();
+  cost = 0;
+  priced = true;
+
+  add(prices: Record<string, ModelPrice>, model: string, tokens: TokenUsage, unpriced: Set<string>): void {
+    addUsage(this.tokens, tokens);
+    const price = priceFor(prices, model);
+    if (!price) {
+      this.priced = false;
+      unpriced.add(model);
+      return;
+    }
+    this.cost +=
+      (tokens.input * price.input +
+        tokens.output * price.output +
+        tokens.cacheWrite * price.cacheWrite +
+        tokens.cacheRead * price.cacheRead) /
+      1_000_000;
+  }
+
+  totals(): UsageTotals {
+    return { tokens: this.tokens, costUsd: this.priced ? Math.round(this.cost * 10_000) / 10_000 : null };
+  }
+}
+
+/** A session's lifetime tokens and estimated cost. */
+export function sessionUsage(
+  usage: DailyUsage | undefined,
+  model: string,
+  prices: Record<string, ModelPrice>,
+): SessionUsage {
+  const tally = new Tally();
+  const unpriced = new Set<string>();
+  for (const byModel of Object.values(usage ?? {})) {
+    for (const [m, tokens] of Object.entries(byModel)) tally.add(prices, m, tokens, unpriced);
+  }
+  return { ...tally.totals(), model };
+}
+
+/** Aggregate every session's usage over the last `days` days by project and day. */
+export function usageReport(
+  sessions: SessionMetadata[],
+  prices: Record<string, ModelPrice>,
+  days: number,
+  now = new Date(),
+): UsageReport {
+  const range: string[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    range.push(localDay(new Date(now.getFullYear(), now.getMonth(), now.getDate() - i)));
+  }
+  const inRange = new Set(range);
+
+  const unpriced = new Set<string>();
+  const total = new Tally();
+  const byDay = new Map(range.map((day) => [day, new Tally()]));
+  const projects = new Map<
+    string,
+    { projectName: string; total: Tally; days: Map<string, Tally>; sessions: Set<string> }
+  >();
+
+  for (const session of sessions) {
+    for (const [day, byModel] of Object.entries(session.usage ?? {})) {
+      if (!inRange.has(day)) continue;
+
+      const key = session.projectPath || session.projectHash;
+      let project = projects.get(key);
+      if (!project) {
+        project = {
+          projectName: basename(key) || key,
+          total: new Tally(),
+          days: new Map(),
+          sessions: new Set(),
+        };
+        projects.set(key, project);
+      }
+      project.sessions.add(session.id);
+      const projectDay = project.days.get(day) ?? new Tally();
+      project.days.set(day, projectDay);
+
+      const dayTotal = byDay.get(day) ?? new Tally();
+      byDay.set(day, dayTotal);
+      for (const [model, tokens] of Object.entries(byModel)) {
+        for (const tally of [total, dayTotal, project.total, projectDay]) {
+          tally.add(prices, model, tokens, unpriced);
+        }
+      }
+    }
+  }
+
+  const projectList: ProjectUsage[] = Array.from(projects, ([projectPath, p]) => ({
+    projectPath,
+    projectName: p.projectName,
+    sessionCount: p.sessions.size,
+    ...p.total.totals(),
+    days: Array.from(p.days)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([day, tally]) => ({ day, ...tally.totals() })),
+  }));
+  const cost = (p: ProjectUsage) => p.costUsd ?? -1;
+
+  return {
+    from: range[0],
+    to: range[range.length - 1],
+    total: total.totals(),
+    days: range.map((day) => ({ day, ...(byDay.get(day) ?? new Tally()).totals() })),
+    projects: projectList.sort(
+      (a, b) => cost(b) - cost(a) || b.tokens.output - a.tokens.output,
+    ),
+    unpricedModels: Array.from(unpriced).sort(),
+  };
+}
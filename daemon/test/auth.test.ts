@@ -0,0 +1,143 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { pino } from "pino";
+import { AuthLockouts, PairingCodes, normalizePairingCode } from "../src/auth.js";
+
+describe("PairingCodes", () => {
+  test("generates 8 unambiguous characters", () => {
+    const codes = new PairingCodes();
+    try {
+      for (let i = 0; i < 50; i++) {
+        assert.match(codes.generate().code, /^[ABCDEFGHJKMNPQRSTUVWXYZ2-9]{8}$/);
+      }
+    } finally {
+      codes.stop();
+    }
+  });
+
+  test("a code works once", () => {
+    const codes = new PairingCodes();
+    try {
+      const { code } = codes.generate();
+      assert.equal(codes.consume(code), true);
+      assert.equal(codes.consume(code), false);
+      assert.equal(codes.consume("NOTACODE"), false);
+    } finally {
+      codes.stop();
+    }
+  });
+
+  test("accepts a code typed in lowercase with dashes", () => {
+    const codes = new PairingCodes();
+    try {
+      const { code } = codes.generate();
+      assert.equal(codes.consume(`${code.slice(0, 4)}-${code.slice(4)}`.toLowerCase()), true);
+    } finally {
+      codes.stop();
+    }
+    assert.equal(normalizePairingCode(" ab-cd ef "), "ABCDEF");
+  });
+
+  test("a code expires after 5 minutes", (t) => {
+    t.mock.timers.enable({ apis: ["Date", "setInterval"] });
+    const codes = new PairingCodes();
+    try {
+      const first = codes.generate();
+      const second = codes.generate();
+      assert.equal(first.expiresAt.getTime() - Date.now(), 5 * 60_000);
+
+      t.mock.timers.tick(5 * 60_000);
+      assert.equal(codes.consume(first.code), true);
+      t.mock.timers.tick(1);
+      assert.equal(codes.consume(second.code), false);
+    } finally {
+      codes.stop();
+    }
+  });
+});
+
+describe("AuthLockouts", () => {
+  const limits = {
+    attachPerSession: "1/5s",
+    wsHeartbeat: 30,
+    wsMaxMissedPongs: 3,
+    authMaxFailures: 3,
+    authLockoutSeconds: 10,
+    authMaxLockoutSeconds: 60,
+  };
+  const log = pino({ level: "silent" });
+
+  function fail(lockouts: AuthLockouts, ip: string, times: number): number | null {
+    let result: number | null = null;
+    for (let i = 0; i < times; i++) result = lockouts.recordFailure(ip);
+    return result;
+  }
+
+  test("locks an IP out after authMaxFailures failures in a row", (t) => {
+    t.mock.timers.enable({ apis: ["Date", "setInterval"] });
+    const lockouts = new AuthLockouts(limits, log);
+    try {
+      assert.equal(fail(lockouts, "10.0.0.1", 2), null);
+      assert.equal(lockouts.retryAfter("10.0.0.1"), 0);
+      assert.equal(lockouts.recordFailure("10.0.0.1"), 10);
+      assert.equal(lockouts.retryAfter("10.0.0.1"), 10);
+      assert.equal(lockouts.retryAfter("10.0.0.2"), 0);
+
+      t.mock.timers.tick(10_000);
+      assert.equal(lockouts.retryAfter("10.0.0.1"), 0);
+    } finally {
+      lockouts.stop();
+    }
+  });
+
+  test("doubles each repeat lockout up to the maximum", (t) => {
+    t.mock.timers.enable({ apis: ["Date", "setInterval"] });
+    const lockouts = new AuthLockouts(limits, log);
+    try {
+      const lengths: Array<number | null> = [];
+      for (let i = 0; i < 5; i++) {
+        lengths.push(fail(lockouts, "10.0.0.1", 3));
+        t.mock.timers.tick(1_000);
+      }
+      assert.deepEqual(lengths, [10, 20, 40, 60, 60]);
+      assert.equal(lockouts.summary().last24h, 5);
+    } finally {
+      lockouts.stop();
+    }
+  });
+
+  test("a success clears the failures and strikes", (t) => {
+    t.mock.timers.enable({ apis: ["Date", "setInterval"] });
+    const lockouts = new AuthLockouts(limits, log);
+    try {
+      fail(lockouts, "10.0.0.1", 3);
+      lockouts.recordSuccess("10.0.0.1");
+      assert.equal(lockouts.retryAfter("10.0.0.1"), 0);
+      assert.equal(fail(lockouts, "10.0.0.1", 2), null);
+      assert.equal(lockouts.recordFailure("10.0.0.1"), 10);
+    } finally {
+      lockouts.stop();
+    }
+  });
+
+  test("forgives an IP once it's been quiet for the maximum lockout", (t) => {
+    t.mock.timers.enable({ apis: ["Date", "setInterval"] });
+    const lockouts = new AuthLockouts(limits, log);
+    try {
+      fail(lockouts, "10.0.0.1", 3);
+      fail(lockouts, "10.0.0.1", 3);
+      assert.equal(lockouts.summary().active, 1);
+
+      // Still within the quiet period: the next lockout keeps doubling
+      t.mock.timers.tick(30_000);
+      assert.equal(fail(lockouts, "10.0.0.1", 3), 40);
+
+      // Quiet for longer than authMaxLockoutSeconds, then pruned
+      t.mock.timers.tick(120_000);
+      assert.equal(lockouts.summary().active, 0);
+      assert.equal(fail(lockouts, "10.0.0.1", 3), 10);
+    } finally {
+      lockouts.stop();
+    }
+  });
+});
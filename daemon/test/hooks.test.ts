@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseHookPayload } from "../src/sessions/hooks.js";
+
+const SESSION_ID = "0f8fad5b-d9cb-469f-a165-70867728950e";
+
+function parse(fields: Record<string, unknown>) {
+  return parseHookPayload({ session_id: SESSION_ID, ...fields });
+}
+
+test("rejects payloads without a valid session ID or a known event", () => {
+  assert.equal(parseHookPayload(null), null);
+  assert.equal(parseHookPayload("Stop"), null);
+  assert.equal(parseHookPayload({ hook_event_name: "Stop" }), null);
+  assert.equal(parseHookPayload({ session_id: "../etc", hook_event_name: "Stop" }), null);
+  assert.equal(parse({ hook_event_name: "PostToolUse" }), null);
+  assert.equal(parse({}), null);
+});
+
+test("PreToolUse means thinking and carries the pending tool", () => {
+  const hook = parse({
+    hook_event_name: "PreToolUse",
+    tool_name: "Bash",
+    tool_use_id: "toolu_1",
+    tool_input: { command: "npm test", description: "x".repeat(5000) },
+  });
+  assert.equal(hook?.state, "thinking");
+  assert.equal(hook?.tool?.id, "toolu_1");
+  assert.equal(hook?.tool?.name, "Bash");
+  const input = hook?.tool?.input as { command: string; description: string };
+  assert.equal(input.command, "npm test");
+  assert.ok(input.description.length < 5000);
+});
+
+test("PreToolUse without a tool name still means thinking", () => {
+  const hook = parse({ hook_event_name: "PreToolUse" });
+  assert.equal(hook?.state, "thinking");
+  assert.equal(hook?.tool, null);
+});
+
+test("Notification maps by type, or by message text from older versions", () => {
+  const notify = (fields: Record<string, unknown>) =>
+    parse({ hook_event_name: "Notification", ...fields })?.state;
+
+  assert.equal(notify({ notification_type: "permission_prompt", message: "Claude needs your permission" }), "needs_permission");
+  assert.equal(notify({ notification_type: "idle_prompt" }), "waiting");
+  assert.equal(notify({ notification_type: "auth_success", message: "permission granted" }), null);
+  assert.equal(notify({ message: "Claude needs your permission to use Bash" }), "needs_permission");
+  assert.equal(notify({ message: "Claude is waiting for your input" }), "waiting");
+  assert.equal(notify({ message: "Something else" }), null);
+  assert.equal(parse({ hook_event_name: "Notification", message: 42 })?.message, null);
+});
+
+test("Stop and SessionStart mean waiting, except a mid-turn compact", () => {
+  assert.equal(parse({ hook_event_name: "Stop" })?.state, "waiting");
+  assert.equal(parse({ hook_event_name: "SessionStart", source: "startup" })?.state, "waiting");
+  assert.equal(parse({ hook_event_name: "SessionStart", source: "compact" })?.state, null);
+});
@@ -0,0 +1,54 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { OutputLog } from "../src/terminal/output.js";
+
+function logOf(capacity: number, ...chunks: string[]): OutputLog {
+  const log = new OutputLog(capacity);
+  for (const chunk of chunks) log.append(Buffer.from(chunk));
+  return log;
+}
+
+test("reads from any offset up to the end", () => {
+  const log = logOf(100, "hello ", "world");
+  assert.equal(log.end, 11);
+  assert.equal(log.read(0, 100)?.toString(), "hello world");
+  assert.equal(log.read(3, 100)?.toString(), "lo world");
+  assert.equal(log.read(6, 100)?.toString(), "world");
+});
+
+test("caps a read at maxBytes across chunk boundaries", () => {
+  const log = logOf(100, "abc", "def", "ghi");
+  assert.equal(log.read(1, 4)?.toString(), "bcde");
+  assert.equal(log.read(2, 0)?.toString(), "");
+});
+
+test("returns an empty buffer at the end and null past it", () => {
+  const log = logOf(100, "abc");
+  assert.equal(log.read(3, 10)?.length, 0);
+  assert.equal(log.read(4, 10), null);
+  assert.equal(log.has(4), false);
+});
+
+test("evicts whole chunks once over capacity, keeping the offsets absolute", () => {
+  const log = logOf(6, "abcd", "efgh");
+  assert.equal(log.end, 8);
+  assert.equal(log.has(3), false);
+  assert.equal(log.read(3, 10), null);
+  assert.equal(log.read(4, 10)?.toString(), "efgh");
+  assert.equal(log.read(6, 10)?.toString(), "gh");
+});
+
+test("keeps the newest chunk even when it alone exceeds capacity", () => {
+  const log = logOf(4, "ab", "cdefghij");
+  assert.equal(log.has(2), true);
+  assert.equal(log.read(2, 100)?.toString(), "cdefghij");
+  assert.equal(log.read(0, 100), null);
+});
+
+test("the replay window slides as output keeps coming", () => {
+  const log = new OutputLog(10);
+  for (let i = 0; i < 100; i++) log.append(Buffer.from(String(i % 10)));
+  assert.equal(log.end, 100);
+  assert.equal(log.has(89), false);
+  assert.equal(log.read(90, 100)?.toString(), "0123456789");
+});
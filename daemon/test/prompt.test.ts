@@ -0,0 +1,59 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isPermissionPrompt, promptSignature } from "../src/tmux/prompt.js";
+
+const BASH_PROMPT = `
+╭──────────────────────────────────────────────╮
+│ Bash command                                 │
+│                                              │
+│   npm test                                   │
+│   Run the test suite                         │
+│                                              │
+│ Do you want to proceed?                      │
+│ ❯ 1. Yes                                     │
+│   2. Yes, and don't ask again for npm test   │
+│   3. No, and tell Claude what to do (esc)    │
+╰──────────────────────────────────────────────╯
+`;
+
+const EDIT_PROMPT = `
+────────────────────────────────────────────────
+ Edit file
+ src/index.ts
+ Do you want to make this edit to index.ts?
+ ❯ 1. Yes
+   2. Yes, allow all edits during this session (shift+tab)
+   3. No, and tell Claude what to do differently (esc)
+`;
+
+test("detects Claude Code's permission dialogs", () => {
+  assert.equal(isPermissionPrompt(BASH_PROMPT), true);
+  assert.equal(isPermissionPrompt(EDIT_PROMPT), true);
+});
+
+test("needs both the question and the numbered options", () => {
+  assert.equal(isPermissionPrompt("> Do you want to proceed?\n"), false);
+  assert.equal(isPermissionPrompt("Steps:\n 1. Yes, this is a list\n"), false);
+  assert.equal(isPermissionPrompt("Claude: Do you want to\nproceed? 1. Yes"), false);
+});
+
+test("ignores an ordinary idle pane", () => {
+  assert.equal(isPermissionPrompt("╭────────╮\n│ >      │\n╰────────╯\n  ? for shortcuts\n"), false);
+});
+
+test("a redraw of the same prompt keeps its signature", () => {
+  const redrawn = BASH_PROMPT.replace("│ ❯ 1. Yes", "│   1. Yes").replace("│   2. Yes,", "│ ❯ 2. Yes,");
+  assert.equal(promptSignature(redrawn), promptSignature(BASH_PROMPT));
+  assert.equal(promptSignature(`Thinking…\n${BASH_PROMPT}`), promptSignature(BASH_PROMPT));
+});
+
+test("the next tool's prompt has a different signature", () => {
+  const next = BASH_PROMPT.replace("npm test   ", "npm run lint");
+  assert.notEqual(promptSignature(next), promptSignature(BASH_PROMPT));
+  assert.notEqual(promptSignature(EDIT_PROMPT), promptSignature(BASH_PROMPT));
+});
+
+test("takes the newest prompt on screen", () => {
+  assert.equal(promptSignature(`${BASH_PROMPT}\n${EDIT_PROMPT}`), promptSignature(EDIT_PROMPT));
+  assert.equal(promptSignature("no prompt here"), null);
+});
@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  FrameType,
+  decodeInput,
+  encodeOutput,
+  encodeReplay,
+  parseProtocolVersion,
+} from "../src/terminal/protocol.js";
+
+test("parseProtocolVersion defaults to 1 and rejects unknown versions", () => {
+  assert.equal(parseProtocolVersion(undefined), 1);
+  assert.equal(parseProtocolVersion(""), 1);
+  assert.equal(parseProtocolVersion("2"), 2);
+  assert.equal(parseProtocolVersion("3"), null);
+  assert.equal(parseProtocolVersion("two"), null);
+});
+
+test("encodeOutput writes the frame type, a 64-bit seq and the data", () => {
+  const frame = encodeOutput(42, Buffer.from("hi"));
+  assert.equal(frame[0], FrameType.OUTPUT);
+  assert.equal(frame.readBigUInt64BE(1), 42n);
+  assert.equal(frame.subarray(9).toString(), "hi");
+});
+
+test("encodeOutput doesn't wrap a seq past 32 bits", () => {
+  for (const seq of [2 ** 32 - 1, 2 ** 32, 2 ** 32 + 5, Number.MAX_SAFE_INTEGER]) {
+    assert.equal(encodeOutput(seq, Buffer.alloc(0)).readBigUInt64BE(1), BigInt(seq));
+  }
+});
+
+test("encodeReplay prefixes the replay frame type", () => {
+  const frame = encodeReplay(Buffer.from("history"));
+  assert.equal(frame[0], FrameType.REPLAY);
+  assert.equal(frame.subarray(1).toString(), "history");
+});
+
+test("decodeInput returns the payload of INPUT frames only", () => {
+  assert.equal(decodeInput(Buffer.from([FrameType.INPUT, 0x61, 0x62]))?.toString(), "ab");
+  assert.equal(decodeInput(Buffer.from([FrameType.INPUT]))?.length, 0);
+  assert.equal(decodeInput(Buffer.from([FrameType.OUTPUT, 0x61])), null);
+  assert.equal(decodeInput(Buffer.alloc(0)), null);
+});
@@ -0,0 +1,152 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import { appendFileSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { advanceSummary } from "../src/sessions/summary.js";
+import { localDay } from "../src/usage/usage.js";
+
+const dir = mkdtempSync(join(tmpdir(), "conduit-summary-"));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+let files = 0;
+function writeJsonl(lines: object[]): string {
+  const file = join(dir, `${++files}.jsonl`);
+  writeFileSync(file, lines.map((l) => JSON.stringify(l) + "\n").join(""));
+  return file;
+}
+
+function user(text: string, timestamp = "2026-03-01T10:00:00.000Z") {
+  return { type: "user", uuid: `u-${text}`, cwd: "/repo", version: "2.0.1", timestamp, message: { role: "user", content: text } };
+}
+
+function toolUse(messageId: string, toolId: string) {
+  return {
+    type: "assistant",
+    uuid: `a-${toolId}`,
+    timestamp: "2026-03-01T10:00:01.000Z",
+    message: { id: messageId, role: "assistant", content: [{ type: "tool_use", id: toolId, name: "Bash", input: {} }] },
+  };
+}
+
+function toolResult(toolId: string) {
+  return {
+    type: "user",
+    uuid: `r-${toolId}`,
+    timestamp: "2026-03-01T10:00:02.000Z",
+    message: { role: "user", content: [{ type: "tool_result", tool_use_id: toolId, content: "ok" }] },
+  };
+}
+
+test("summarizes a transcript", async () => {
+  const file = writeJsonl([user("hello"), toolUse("m1", "t1"), toolUse("m1", "t2"), toolResult("t1")]);
+  const summary = await advanceSummary(file, undefined);
+  assert.equal(summary.projectPath, "/repo");
+  assert.equal(summary.cliVersion, "2.0.1");
+  assert.equal(summary.userMessages, 1);
+  assert.equal(summary.assistantMessages, 1);
+  assert.deepEqual(summary.openTools.map((t) => t.id), ["t2"]);
+  assert.equal(summary.firstMessageAt, "2026-03-01T10:00:00.000Z");
+  assert.equal(summary.lastMessageAt, "2026-03-01T10:00:02.000Z");
+});
+
+test("parses only what was appended, leaving the previous summary alone", async () => {
+  const file = writeJsonl([user("hello"), toolUse("m1", "t1")]);
+  const first = await advanceSummary(file, undefined);
+  appendFileSync(file, JSON.stringify(toolResult("t1")) + "\n" + JSON.stringify(user("again")) + "\n");
+
+  const next = await advanceSummary(file, first);
+  assert.equal(first.userMessages, 1);
+  assert.deepEqual(first.openTools.map((t) => t.id), ["t1"]);
+  assert.equal(next.userMessages, 2);
+  assert.deepEqual(next.openTools, []);
+  assert.equal(next.lastMessagePreview, "again");
+  assert.deepEqual(next, await advanceSummary(file, undefined));
+});
+
+test("leaves a partial last line for the next pass", async () => {
+  const file = writeJsonl([user("hello")]);
+  appendFileSync(file, JSON.stringify(user("half")).slice(0, 20));
+  const summary = await advanceSummary(file, undefined);
+  assert.equal(summary.userMessages, 1);
+
+  appendFileSync(file, JSON.stringify(user("half")).slice(20) + "\n");
+  const next = await advanceSummary(file, summary);
+  assert.equal(next.userMessages, 2);
+  assert.equal(next.lastMessagePreview, "half");
+});
+
+test("rebuilds a summary cached with another version", async () => {
+  const file = writeJsonl([user("hello")]);
+  const current = await advanceSummary(file, undefined);
+  const stale = { ...current, version: current.version - 1, userMessages: 99 };
+  assert.deepEqual(await advanceSummary(file, stale), current);
+});
+
+test("starts over when the file was truncated or rewritten", async () => {
+  const file = writeJsonl([user("one"), user("two"), user("three")]);
+  const summary = await advanceSummary(file, undefined);
+
+  writeFileSync(file, JSON.stringify(user("replaced")) + "\n");
+  const truncated = await advanceSummary(file, summary);
+  assert.equal(truncated.userMessages, 1);
+  assert.equal(truncated.lastMessagePreview, "replaced");
+
+  // Same length or longer, but the old offset no longer ends a line
+  writeFileSync(file, JSON.stringify(user("x".repeat(summary.offset))) + "\n");
+  const rewritten = await advanceSummary(file, summary);
+  assert.equal(rewritten.userMessages, 1);
+  assert.equal(rewritten.offset, (await advanceSummary(file, undefined)).offset);
+});
+
+function response(messageId: string, output: number, model = "claude-sonnet-4-5-20250929", timestamp = "2026-03-01T10:00:01.000Z") {
+  return {
+    type: "assistant",
+    uuid: `a-${messageId}-${output}`,
+    timestamp,
+    message: {
+      id: messageId,
+      model,
+      role: "assistant",
+      content: [{ type: "text", text: "..." }],
+      usage: { input_tokens: 10, output_tokens: output, cache_creation_input_tokens: 100, cache_read_input_tokens: 1000 },
+    },
+  };
+}
+
+test("counts a response's usage once however many lines repeat it", async () => {
+  const file = writeJsonl([user("hello"), response("m1", 5), response("m1", 5), response("m1", 20), response("m2", 7)]);
+  const summary = await advanceSummary(file, undefined);
+  const day = localDay(new Date("2026-03-01T10:00:01.000Z"));
+  assert.deepEqual(summary.usage[day]["claude-sonnet-4-5-20250929"], {
+    input: 20,
+    output: 27,
+    cacheWrite: 200,
+    cacheRead: 2000,
+  });
+  assert.equal(summary.model, "claude-sonnet-4-5-20250929");
+});
+
+test("dedupes a repeated response across incremental passes", async () => {
+  const file = writeJsonl([user("hello"), response("m1", 5)]);
+  const first = await advanceSummary(file, undefined);
+  appendFileSync(file, JSON.stringify(response("m1", 9)) + "\n");
+  const next = await advanceSummary(file, first);
+  const day = localDay(new Date("2026-03-01T10:00:01.000Z"));
+  assert.equal(next.usage[day]["claude-sonnet-4-5-20250929"].output, 9);
+  assert.deepEqual(next, await advanceSummary(file, undefined));
+});
+
+test("buckets usage by day and model, skipping synthetic messages", async () => {
+  const file = writeJsonl([
+    response("m1", 5, "claude-opus-4-5-20251101", "2026-03-01T10:00:00.000Z"),
+    response("m2", 7, "claude-haiku-4-5-20251001", "2026-03-03T10:00:00.000Z"),
+    response("m3", 11, "<synthetic>", "2026-03-03T11:00:00.000Z"),
+  ]);
+  const summary = await advanceSummary(file, undefined);
+  const first = localDay(new Date("2026-03-01T10:00:00.000Z"));
+  const third = localDay(new Date("2026-03-03T10:00:00.000Z"));
+  assert.deepEqual(Object.keys(summary.usage).sort(), [first, third]);
+  assert.deepEqual(Object.keys(summary.usage[third]), ["claude-haiku-4-5-20251001"]);
+  assert.equal(summary.usage[first]["claude-opus-4-5-20251101"].output, 5);
+});
@@ -0,0 +1,129 @@
+import { after, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { readLinesFrom, readTranscript } from "../src/sessions/transcript.js";
+
+const dir = mkdtempSync(join(tmpdir(), "conduit-transcript-"));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+let files = 0;
+function writeJsonl(lines: string[], trailing = "\n"): string {
+  const file = join(dir, `${++files}.jsonl`);
+  writeFileSync(file, lines.join("\n") + trailing);
+  return file;
+}
+
+function user(n: number, text = `question ${n}`): string {
+  return JSON.stringify({ type: "user", uuid: `u${n}`, message: { role: "user", content: text } });
+}
+
+function assistant(n: number, messageId: string, text = `answer ${n}`): string {
+  return JSON.stringify({
+    type: "assistant",
+    uuid: `a${n}`,
+    message: { id: messageId, role: "assistant", content: [{ type: "text", text }] },
+  });
+}
+
+describe("readTranscript", () => {
+  test("pages backwards from the end with a cursor", async () => {
+    const lines = [user(1), assistant(1, "m1"), user(2), assistant(2, "m2"), user(3)];
+    const file = writeJsonl(lines);
+
+    const last = await readTranscript(file, undefined, 2);
+    assert.deepEqual(last?.messages.map((m) => m.uuid), ["a2", "u3"]);
+    assert.equal(last?.end, Buffer.byteLength(lines.join("\n") + "\n"));
+    assert.ok(last?.cursor);
+
+    const previous = await readTranscript(file, last.cursor, 10);
+    assert.deepEqual(previous?.messages.map((m) => m.uuid), ["u1", "a1", "u2"]);
+    assert.equal(previous?.cursor, null);
+  });
+
+  test("keeps an assistant turn's lines on one page", async () => {
+    const file = writeJsonl([
+      user(1),
+      assistant(1, "m1", "first block"),
+      assistant(2, "m1", "second block"),
+      assistant(3, "m1", "third block"),
+    ]);
+    const page = await readTranscript(file, undefined, 1);
+    assert.equal(page?.messages.length, 1);
+    assert.deepEqual(
+      page?.messages[0].blocks.map((b) => (b.type === "text" ? b.text : "")),
+      ["first block", "second block", "third block"],
+    );
+    assert.deepEqual((await readTranscript(file, page?.cursor ?? 0, 10))?.messages.map((m) => m.uuid), ["u1"]);
+  });
+
+  test("reads lines longer than a chunk, including multi-byte characters", async () => {
+    const long = "é".repeat(100_000);
+    const file = writeJsonl([user(1, long), assistant(1, "m1"), user(2, "ü".repeat(70_000))]);
+    const page = await readTranscript(file, undefined, 10);
+    assert.deepEqual(page?.messages.map((m) => m.uuid), ["u1", "a1", "u2"]);
+    const first = page?.messages[0].blocks[0];
+    assert.equal(first?.type === "text" && first.text, long);
+  });
+
+  test("skips a partial last line still being written", async () => {
+    const file = writeJsonl([user(1), assistant(1, "m1")], '\n{"type":"user","mess');
+    const page = await readTranscript(file, undefined, 10);
+    assert.deepEqual(page?.messages.map((m) => m.uuid), ["u1", "a1"]);
+  });
+
+  test("skips meta, sidechain and malformed lines", async () => {
+    const file = writeJsonl([
+      user(1),
+      JSON.stringify({ type: "user", uuid: "meta", isMeta: true, message: { content: "x" } }),
+      JSON.stringify({ type: "assistant", uuid: "side", isSidechain: true, message: { content: "x" } }),
+      "not json",
+      "",
+      user(2),
+    ]);
+    const page = await readTranscript(file, undefined, 10);
+    assert.deepEqual(page?.messages.map((m) => m.uuid), ["u1", "u2"]);
+  });
+
+  test("returns null for an offset past the end", async () => {
+    const file = writeJsonl([user(1)]);
+    assert.equal(await readTranscript(file, 10_000, 10), null);
+  });
+});
+
+describe("readLinesFrom", () => {
+  async function linesFrom(file: string, from: number): Promise<{ lines: string[]; end: number | null }> {
+    const lines: string[] = [];
+    const end = await readLinesFrom(file, from, (line) => lines.push(line));
+    return { lines, end };
+  }
+
+  test("reads complete lines and stops before a partial one", async () => {
+    const file = writeJsonl(["one", "two"], "\nthr");
+    assert.deepEqual(await linesFrom(file, 0), { lines: ["one", "two"], end: 8 });
+    assert.deepEqual(await linesFrom(file, 4), { lines: ["two"], end: 8 });
+    assert.deepEqual(await linesFrom(file, 8), { lines: [], end: 8 });
+  });
+
+  test("picks up a partial line once it's finished", async () => {
+    const file = writeJsonl(["one"], "\ntw");
+    const first = await linesFrom(file, 0);
+    writeFileSync(file, "one\ntwo\n");
+    assert.deepEqual(await linesFrom(file, first.end ?? 0), { lines: ["two"], end: 8 });
+  });
+
+  test("joins lines that span several chunks", async () => {
+    const long = "x".repeat(200_000);
+    const file = writeJsonl(["a", long, "ü".repeat(40_000), "b"]);
+    const { lines, end } = await linesFrom(file, 0);
+    assert.deepEqual(lines, ["a", long, "ü".repeat(40_000), "b"]);
+    assert.equal(end, 2 + 200_001 + 80_001 + 2);
+  });
+
+  test("returns null when the file is now shorter than the offset", async () => {
+    const file = writeJsonl(["one", "two"]);
+    writeFileSync(file, "one\n");
+    assert.equal((await linesFrom(file, 8)).end, null);
+  });
+});
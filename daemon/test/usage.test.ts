@@ -0,0 +1,122 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { SessionMetadata } from "../src/sessions/types.js";
+import type { DailyUsage, ModelPrice, TokenUsage } from "../src/usage/types.js";
+import { DEFAULT_PRICES, localDay, sessionUsage, usageReport } from "../src/usage/usage.js";
+
+function tokens(input: number, output: number, cacheWrite = 0, cacheRead = 0): TokenUsage {
+  return { input, output, cacheWrite, cacheRead };
+}
+
+function session(id: string, projectPath: string, usage: DailyUsage): SessionMetadata {
+  return {
+    id,
+    projectPath,
+    projectHash: `-${projectPath.replace(/\//g, "-")}`,
+    lastMessagePreview: "",
+    lastMessageRole: "assistant",
+    timestamp: new Date(),
+    cliVersion: "",
+    usage,
+  };
+}
+
+const NOW = new Date(2026, 2, 10, 15, 0);
+const day = (date: number) => localDay(new Date(2026, 2, date));
+
+describe("localDay", () => {
+  test("uses the local calendar day", () => {
+    assert.equal(localDay(new Date(2026, 0, 5, 0, 0)), "2026-01-05");
+    assert.equal(localDay(new Date(2026, 11, 31, 23, 59)), "2026-12-31");
+  });
+});
+
+describe("pricing", () => {
+  test("prices a dated snapshot by its family and version", () => {
+    const usage = sessionUsage({ [day(10)]: { "claude-opus-4-5-20251101": tokens(1_000_000, 1_000_000) } }, "", DEFAULT_PRICES);
+    assert.equal(usage.costUsd, 30);
+  });
+
+  test("doesn't price a newer version at an older one's rates", () => {
+    const usage = sessionUsage({ [day(10)]: { "claude-opus-4-9-20270101": tokens(1000, 1000) } }, "", DEFAULT_PRICES);
+    assert.equal(usage.costUsd, null);
+    assert.deepEqual(usage.tokens, tokens(1000, 1000));
+  });
+
+  test("an exact model ID wins over its family", () => {
+    const prices: Record<string, ModelPrice> = {
+      ...DEFAULT_PRICES,
+      "claude-sonnet-4-5-20250929": { input: 1, output: 1, cacheWrite: 1, cacheRead: 1 },
+    };
+    const usage = sessionUsage({ [day(10)]: { "claude-sonnet-4-5-20250929": tokens(1_000_000, 0) } }, "", prices);
+    assert.equal(usage.costUsd, 1);
+  });
+
+  test("includes cache reads and writes", () => {
+    const usage = sessionUsage(
+      { [day(10)]: { "claude-sonnet-4-20250514": tokens(0, 0, 1_000_000, 1_000_000) } },
+      "claude-sonnet-4-20250514",
+      DEFAULT_PRICES,
+    );
+    assert.equal(usage.costUsd, 3.75 + 0.3);
+    assert.equal(usage.model, "claude-sonnet-4-20250514");
+  });
+});
+
+describe("usageReport", () => {
+  const sonnet = "claude-sonnet-4-5-20250929";
+
+  test("covers every day in the range and drops usage outside it", () => {
+    const report = usageReport(
+      [session("s1", "/repo/a", { [day(1)]: { [sonnet]: tokens(5, 5) }, [day(9)]: { [sonnet]: tokens(1_000_000, 0) } })],
+      DEFAULT_PRICES,
+      3,
+      NOW,
+    );
+    assert.equal(report.from, day(8));
+    assert.equal(report.to, day(10));
+    assert.deepEqual(report.days.map((d) => d.day), [day(8), day(9), day(10)]);
+    assert.deepEqual(report.days.map((d) => d.costUsd), [0, 3, 0]);
+    assert.deepEqual(report.total.tokens, tokens(1_000_000, 0));
+  });
+
+  test("groups by project, costliest first", () => {
+    const report = usageReport(
+      [
+        session("s1", "/repo/cheap", { [day(10)]: { "claude-3-5-haiku-20241022": tokens(1_000_000, 0) } }),
+        session("s2", "/repo/dear", { [day(9)]: { [sonnet]: tokens(1_000_000, 0) } }),
+        session("s3", "/repo/dear", { [day(10)]: { [sonnet]: tokens(0, 1_000_000) } }),
+      ],
+      DEFAULT_PRICES,
+      7,
+      NOW,
+    );
+    assert.deepEqual(report.projects.map((p) => [p.projectName, p.sessionCount, p.costUsd]), [
+      ["dear", 2, 18],
+      ["cheap", 1, 0.8],
+    ]);
+    assert.deepEqual(report.projects[0].days.map((d) => [d.day, d.costUsd]), [
+      [day(9), 3],
+      [day(10), 15],
+    ]);
+    assert.equal(report.total.costUsd, 18.8);
+  });
+
+  test("reports unpriced models and a null cost for anything that includes them", () => {
+    const report = usageReport(
+      [
+        session("s1", "/repo/a", { [day(10)]: { [sonnet]: tokens(1_000_000, 0), "claude-opus-5": tokens(10, 10) } }),
+        session("s2", "/repo/b", { [day(10)]: { [sonnet]: tokens(1_000_000, 0) } }),
+      ],
+      DEFAULT_PRICES,
+      1,
+      NOW,
+    );
+    assert.deepEqual(report.unpricedModels, ["claude-opus-5"]);
+    assert.equal(report.total.costUsd, null);
+    assert.deepEqual(report.projects.map((p) => [p.projectName, p.costUsd]), [
+      ["b", 3],
+      ["a", null],
+    ]);
+  });
+});
@@ -0,0 +1,295 @@
+package com.clauderelay
+
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+import com.facebook.react.bridge.ReadableMap
+import com.facebook.react.bridge.WritableMap
+import com.facebook.react.modules.core.DeviceEventManagerModule
+import java.io.IOException
+import java.io.InterruptedIOException
+import java.security.MessageDigest
+import java.security.cert.CertificateException
+import java.security.cert.X509Certificate
+import java.util.concurrent.ConcurrentHashMap
+import java.util.concurrent.TimeUnit
+import javax.net.ssl.SSLContext
+import javax.net.ssl.X509TrustManager
+import okhttp3.Call
+import okhttp3.Callback
+import okhttp3.MediaType.Companion.toMediaType
+import okhttp3.OkHttpClient
+import okhttp3.Request
+import okhttp3.RequestBody.Companion.toRequestBody
+import okhttp3.Response
+import okhttp3.WebSocket
+import okhttp3.WebSocketListener
+import okio.ByteString
+import okio.ByteString.Companion.decodeBase64
+
+/**
+ * HTTP, SSE and WebSocket over OkHttp that trust exactly one server
+ * certificate: the one whose SHA-256 fingerprint the app pinned at pairing.
+ * The daemon's certificate is self-signed, so the check replaces the system
+ * trust evaluation instead of adding to it.
+ */
+class PinnedNetworkModule(reactContext: ReactApplicationContext) :
+  ReactContextBaseJavaModule(reactContext) {
+
+  private val streams = ConcurrentHashMap<String, Call>()
+  private val sockets = ConcurrentHashMap<String, WebSocket>()
+
+  override fun getName() = "PinnedNetwork"
+
+  /** Accepts the server only if its leaf certificate matches `pin` (null records it and refuses). */
+  private class PinTrustManager(private val pin: String?) : X509TrustManager {
+    @Volatile var presented: String? = null
+
+    override fun checkServerTrusted(chain: Array<X509Certificate>, authType: String) {
+      val fingerprint = fingerprint(chain[0])
+      presented = fingerprint
+      if (pin == null || fingerprint != pin) {
+        throw CertificateException("Certificate $fingerprint is not the pinned one")
+      }
+    }
+
+    override fun checkClientTrusted(chain: Array<X509Certificate>, authType: String) {
+      throw CertificateException("Client certificates are not accepted")
+    }
+
+    override fun getAcceptedIssuers(): Array<X509Certificate> = arrayOf()
+  }
+
+  private fun client(trust: PinTrustManager, timeoutMs: Long): OkHttpClient {
+    val ssl = SSLContext.getInstance("TLS")
+    ssl.init(null, arrayOf(trust), null)
+    return OkHttpClient.Builder()
+      .sslSocketFactory(ssl.socketFactory, trust)
+      // The pin identifies the daemon; its address can change with DHCP
+      .hostnameVerifier { _, _ -> true }
+      .connectTimeout(timeoutMs, TimeUnit.MILLISECONDS)
+      .readTimeout(timeoutMs, TimeUnit.MILLISECONDS)
+      .build()
+  }
+
+  private fun buildRequest(url: String, method: String, headers: ReadableMap?, body: String?): Request {
+    val builder = Request.Builder().url(url)
+    headers?.toHashMap()?.forEach { (name, value) -> builder.header(name, value.toString()) }
+    // The daemon's API only takes JSON bodies
+    val requestBody = body?.toRequestBody("application/json".toMediaType())
+    return builder.method(method, requestBody ?: if (method == "POST") ByteArray(0).toRequestBody() else null).build()
+  }
+
+  private fun emit(event: String, body: WritableMap) {
+    reactApplicationContext
+      .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
+      .emit(event, body)
+  }
+
+  /** Error code for JS; a certificate that doesn't match the pin is CERT_MISMATCH. */
+  private fun errorCode(trust: PinTrustManager, pin: String?, error: Throwable): String = when {
+    trust.presented != null && trust.presented != pin -> "CERT_MISMATCH"
+    error is InterruptedIOException -> "TIMEOUT"
+    else -> "NETWORK_ERROR"
+  }
+
+  /**
+   * Fingerprint of the certificate a TLS server presents. The handshake is
+   * refused once the certificate is seen, so nothing is sent.
+   */
+  @ReactMethod
+  fun fingerprint(url: String, promise: Promise) {
+    val trust = PinTrustManager(null)
+    val request = try {
+      buildRequest(url, "HEAD", null, null)
+    } catch (e: IllegalArgumentException) {
+      promise.reject("NETWORK_ERROR", "Invalid URL: $url", e)
+      return
+    }
+    client(trust, 5_000).newCall(request).enqueue(object : Callback {
+      override fun onFailure(call: Call, e: IOException) {
+        val presented = trust.presented
+        if (presented != null) promise.resolve(presented)
+        else promise.reject("NETWORK_ERROR", "No TLS server at $url", e)
+      }
+
+      override fun onResponse(call: Call, response: Response) {
+        response.close()
+        promise.reject("NETWORK_ERROR", "No TLS server at $url")
+      }
+    })
+  }
+
+  @ReactMethod
+  fun request(
+    url: String,
+    method: String,
+    headers: ReadableMap,
+    body: String?,
+    pin: String,
+    timeoutMs: Double,
+    promise: Promise,
+  ) {
+    val trust = PinTrustManager(pin)
+    val request = try {
+      buildRequest(url, method, headers, body)
+    } catch (e: IllegalArgumentException) {
+      promise.reject("NETWORK_ERROR", "Invalid URL: $url", e)
+      return
+    }
+    client(trust, timeoutMs.toLong()).newCall(request).enqueue(object : Callback {
+      override fun onFailure(call: Call, e: IOException) {
+        promise.reject(errorCode(trust, pin, e), e.message, e)
+      }
+
+      override fun onResponse(call: Call, response: Response) {
+        response.use {
+          val result = Arguments.createMap()
+          result.putInt("status", it.code)
+          result.putString("body", it.body?.string() ?: "")
+          promise.resolve(result)
+        }
+      }
+    })
+  }
+
+  /**
+   * Start a long-lived GET (an SSE stream). Emits PinnedNetworkStream events
+   * carrying whole lines of text, then one with `done` when it ends.
+   */
+  @ReactMethod
+  fun openStream(id: String, url: String, headers: ReadableMap, pin: String) {
+    val trust = PinTrustManager(pin)
+    // The daemon sends a keepalive every 30s, so a longer silence means it's gone
+    val call = client(trust, 90_000).newCall(buildRequest(url, "GET", headers, null))
+    streams[id] = call
+    call.enqueue(object : Callback {
+      override fun onFailure(call: Call, e: IOException) {
+        streams.remove(id)
+        val event = Arguments.createMap()
+        event.putString("id", id)
+        event.putBoolean("done", true)
+        if (!call.isCanceled()) {
+          event.putString("code", errorCode(trust, pin, e))
+          event.putString("error", e.message)
+        }
+        emit("PinnedNetworkStream", event)
+      }
+
+      override fun onResponse(call: Call, response: Response) {
+        response.use {
+          val source = it.body?.source()
+          try {
+            // Hand over complete lines only, so a multi-byte character is never split
+            while (source != null) {
+              val line = source.readUtf8Line() ?: break
+              val data = Arguments.createMap()
+              data.putString("id", id)
+              data.putString("data", line + "\n")
+              emit("PinnedNetworkStream", data)
+            }
+          } catch (e: IOException) {
+            onFailure(call, e)
+            return
+          }
+          streams.remove(id)
+          val event = Arguments.createMap()
+          event.putString("id", id)
+          event.putBoolean("done", true)
+          if (it.code >= 400) {
+            event.putString("code", "HTTP_${it.code}")
+            event.putString("error", "HTTP ${it.code}")
+          }
+          emit("PinnedNetworkStream", event)
+        }
+      }
+    })
+  }
+
+  @ReactMethod
+  fun closeStream(id: String) {
+    streams.remove(id)?.cancel()
+  }
+
+  /**
+   * Open a WebSocket. Emits PinnedNetworkSocket events: open, message
+   * (`text`, or `base64` for binary frames), error and close.
+   */
+  @ReactMethod
+  fun openSocket(id: String, url: String, pin: String) {
+    val trust = PinTrustManager(pin)
+    // A terminal can sit idle for hours; only a dead connection should close it
+    val client = client(trust, 0)
+    fun event(type: String): WritableMap {
+      val map = Arguments.createMap()
+      map.putString("id", id)
+      map.putString("type", type)
+      return map
+    }
+
+    sockets[id] = client.newWebSocket(Request.Builder().url(url).build(), object : WebSocketListener() {
+      override fun onOpen(webSocket: WebSocket, response: Response) {
+        emit("PinnedNetworkSocket", event("open"))
+      }
+
+      override fun onMessage(webSocket: WebSocket, text: String) {
+        emit("PinnedNetworkSocket", event("message").apply { putString("text", text) })
+      }
+
+      override fun onMessage(webSocket: WebSocket, bytes: ByteString) {
+        emit("PinnedNetworkSocket", event("message").apply { putString("base64", bytes.base64()) })
+      }
+
+      override fun onClosing(webSocket: WebSocket, code: Int, reason: String) {
+        webSocket.close(code, null)
+      }
+
+      override fun onClosed(webSocket: WebSocket, code: Int, reason: String) {
+        sockets.remove(id)
+        emit("PinnedNetworkSocket", event("close").apply {
+          putInt("code", code)
+          putString("reason", reason)
+        })
+      }
+
+      override fun onFailure(webSocket: WebSocket, t: Throwable, response: Response?) {
+        sockets.remove(id)
+        emit("PinnedNetworkSocket", event("error").apply {
+          putString("code", errorCode(trust, pin, t))
+          putString("message", t.message)
+        })
+        emit("PinnedNetworkSocket", event("close").apply {
+          putInt("code", 1006)
+          putString("reason", "")
+        })
+      }
+    })
+  }
+
+  @ReactMethod
+  fun sendSocket(id: String, text: String?, base64: String?) {
+    val socket = sockets[id] ?: return
+    val bytes = base64?.decodeBase64()
+    if (bytes != null) socket.send(bytes) else socket.send(text ?: "")
+  }
+
+  @ReactMethod
+  fun closeSocket(id: String, code: Double, reason: String) {
+    sockets[id]?.close(code.toInt(), reason)
+  }
+
+  // Required by NativeEventEmitter
+  @ReactMethod
+  fun addListener(eventName: String) {}
+
+  @ReactMethod
+  fun removeListeners(count: Double) {}
+
+  companion object {
+    /** SHA-256 of the certificate's DER encoding, uppercase hex without separators. */
+    fun fingerprint(cert: X509Certificate): String =
+      MessageDigest.getInstance("SHA-256").digest(cert.encoded).joinToString("") { "%02X".format(it) }
+  }
+}
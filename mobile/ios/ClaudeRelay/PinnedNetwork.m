@@ -0,0 +1,38 @@
+#import <React/RCTBridgeModule.h>
+#import <React/RCTEventEmitter.h>
+
+@interface RCT_EXTERN_MODULE(PinnedNetwork, RCTEventEmitter)
+
+RCT_EXTERN_METHOD(fingerprint:(NSString *)url
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(request:(NSString *)url
+                  method:(NSString *)method
+                  headers:(NSDictionary *)headers
+                  body:(nullable NSString *)body
+                  pin:(NSString *)pin
+                  timeoutMs:(double)timeoutMs
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(openStream:(NSString *)id
+                  url:(NSString *)url
+                  headers:(NSDictionary *)headers
+                  pin:(NSString *)pin)
+
+RCT_EXTERN_METHOD(closeStream:(NSString *)id)
+
+RCT_EXTERN_METHOD(openSocket:(NSString *)id
+                  url:(NSString *)url
+                  pin:(NSString *)pin)
+
+RCT_EXTERN_METHOD(sendSocket:(NSString *)id
+                  text:(nullable NSString *)text
+                  base64:(nullable NSString *)base64)
+
+RCT_EXTERN_METHOD(closeSocket:(NSString *)id
+                  code:(double)code
+                  reason:(NSString *)reason)
+
+@end
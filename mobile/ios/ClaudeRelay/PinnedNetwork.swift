@@ -0,0 +1,339 @@
+import Foundation
+import CryptoKit
+import React
+
+/// HTTP, SSE and WebSocket over URLSession that trust exactly one server
+/// certificate: the one whose SHA-256 fingerprint the app pinned at pairing.
+/// The daemon's certificate is self-signed, so the check replaces the system
+/// trust evaluation instead of adding to it.
+@objc(PinnedNetwork)
+class PinnedNetwork: RCTEventEmitter {
+  private let queue = OperationQueue()
+  private var streams: [String: PinnedConnection] = [:]
+  private var sockets: [String: PinnedConnection] = [:]
+  private var hasListeners = false
+
+  override init() {
+    queue.maxConcurrentOperationCount = 1
+    super.init()
+  }
+
+  override static func requiresMainQueueSetup() -> Bool { false }
+
+  override func supportedEvents() -> [String]! {
+    ["PinnedNetworkStream", "PinnedNetworkSocket"]
+  }
+
+  override func startObserving() { hasListeners = true }
+  override func stopObserving() { hasListeners = false }
+
+  private func emit(_ event: String, _ body: [String: Any]) {
+    if hasListeners { sendEvent(withName: event, body: body) }
+  }
+
+  /// SHA-256 of the leaf certificate's DER encoding, uppercase hex without separators.
+  static func fingerprint(of trust: SecTrust) -> String? {
+    guard
+      let chain = SecTrustCopyCertificateChain(trust) as? [SecCertificate],
+      let leaf = chain.first
+    else { return nil }
+    let der = SecCertificateCopyData(leaf) as Data
+    return SHA256.hash(data: der).map { String(format: "%02X", $0) }.joined()
+  }
+
+  private func makeSession(for connection: PinnedConnection, timeout: TimeInterval) -> URLSession {
+    let config = URLSessionConfiguration.ephemeral
+    config.timeoutIntervalForRequest = timeout
+    config.requestCachePolicy = .reloadIgnoringLocalCacheData
+    return URLSession(configuration: config, delegate: connection, delegateQueue: queue)
+  }
+
+  private func makeRequest(_ url: String, method: String, headers: [String: String], body: String?) -> URLRequest? {
+    guard let target = URL(string: url) else { return nil }
+    var request = URLRequest(url: target)
+    request.httpMethod = method
+    for (name, value) in headers { request.setValue(value, forHTTPHeaderField: name) }
+    request.httpBody = body?.data(using: .utf8)
+    return request
+  }
+
+  /// Fingerprint of the certificate a TLS server presents. The handshake is
+  /// abandoned once the certificate is seen, so nothing is sent.
+  @objc(fingerprint:resolve:reject:)
+  func fingerprint(
+    _ url: String,
+    resolve: @escaping RCTPromiseResolveBlock,
+    reject: @escaping RCTPromiseRejectBlock
+  ) {
+    guard let request = makeRequest(url, method: "HEAD", headers: [:], body: nil) else {
+      reject("NETWORK_ERROR", "Invalid URL: \(url)", nil)
+      return
+    }
+    let connection = PinnedConnection(pin: nil)
+    connection.onComplete = { _ in
+      if let presented = connection.presented {
+        resolve(presented)
+      } else {
+        reject("NETWORK_ERROR", "No TLS server at \(url)", nil)
+      }
+    }
+    let session = makeSession(for: connection, timeout: 5)
+    session.dataTask(with: request).resume()
+    session.finishTasksAndInvalidate()
+  }
+
+  @objc(request:method:headers:body:pin:timeoutMs:resolve:reject:)
+  func request(
+    _ url: String,
+    method: String,
+    headers: [String: String],
+    body: String?,
+    pin: String,
+    timeoutMs: Double,
+    resolve: @escaping RCTPromiseResolveBlock,
+    reject: @escaping RCTPromiseRejectBlock
+  ) {
+    guard let request = makeRequest(url, method: method, headers: headers, body: body) else {
+      reject("NETWORK_ERROR", "Invalid URL: \(url)", nil)
+      return
+    }
+    let connection = PinnedConnection(pin: pin)
+    connection.onComplete = { error in
+      if let error {
+        let (code, message) = connection.describe(error)
+        reject(code, message, error)
+        return
+      }
+      resolve([
+        "status": connection.status,
+        "body": String(decoding: connection.received, as: UTF8.self),
+      ])
+    }
+    let session = makeSession(for: connection, timeout: timeoutMs / 1000)
+    session.dataTask(with: request).resume()
+    session.finishTasksAndInvalidate()
+  }
+
+  /// Start a long-lived GET (an SSE stream). Emits PinnedNetworkStream events
+  /// carrying whole lines of text, then one with `done` when it ends.
+  @objc(openStream:url:headers:pin:)
+  func openStream(_ id: String, url: String, headers: [String: String], pin: String) {
+    guard let request = makeRequest(url, method: "GET", headers: headers, body: nil) else {
+      emit("PinnedNetworkStream", ["id": id, "done": true, "code": "NETWORK_ERROR", "error": "Invalid URL: \(url)"])
+      return
+    }
+    let connection = PinnedConnection(pin: pin)
+    connection.onData = { [weak self] text in
+      self?.emit("PinnedNetworkStream", ["id": id, "data": text])
+    }
+    connection.onComplete = { [weak self] error in
+      guard let self else { return }
+      self.streams.removeValue(forKey: id)
+      var event: [String: Any] = ["id": id, "done": true]
+      if let error, !connection.cancelled {
+        let (code, message) = connection.describe(error)
+        event["code"] = code
+        event["error"] = message
+      } else if connection.status >= 400 {
+        event["code"] = "HTTP_\(connection.status)"
+        event["error"] = "HTTP \(connection.status)"
+      }
+      self.emit("PinnedNetworkStream", event)
+    }
+    // The daemon sends a keepalive every 30s, so a longer silence means it's gone
+    let session = makeSession(for: connection, timeout: 90)
+    queue.addOperation { self.streams[id] = connection }
+    connection.task = session.dataTask(with: request)
+    connection.task?.resume()
+    session.finishTasksAndInvalidate()
+  }
+
+  @objc(closeStream:)
+  func closeStream(_ id: String) {
+    queue.addOperation {
+      guard let connection = self.streams.removeValue(forKey: id) else { return }
+      connection.cancelled = true
+      connection.task?.cancel()
+    }
+  }
+
+  /// Open a WebSocket. Emits PinnedNetworkSocket events: open, message
+  /// (`text`, or `base64` for binary frames), error and close.
+  @objc(openSocket:url:pin:)
+  func openSocket(_ id: String, url: String, pin: String) {
+    guard let target = URL(string: url) else {
+      emit("PinnedNetworkSocket", ["id": id, "type": "close", "code": 1006, "reason": "Invalid URL"])
+      return
+    }
+    let connection = PinnedConnection(pin: pin)
+    connection.onSocketEvent = { [weak self] event in
+      guard let self else { return }
+      var body = event
+      body["id"] = id
+      if body["type"] as? String == "close" { self.sockets.removeValue(forKey: id) }
+      self.emit("PinnedNetworkSocket", body)
+    }
+    // A terminal can sit idle for hours; only a dead connection should close it
+    let session = makeSession(for: connection, timeout: 86_400)
+    let task = session.webSocketTask(with: target)
+    connection.task = task
+    queue.addOperation { self.sockets[id] = connection }
+    task.resume()
+    connection.receive()
+    session.finishTasksAndInvalidate()
+  }
+
+  @objc(sendSocket:text:base64:)
+  func sendSocket(_ id: String, text: String?, base64: String?) {
+    queue.addOperation {
+      guard let task = self.sockets[id]?.task as? URLSessionWebSocketTask else { return }
+      let message: URLSessionWebSocketTask.Message
+      if let base64, let data = Data(base64Encoded: base64) {
+        message = .data(data)
+      } else {
+        message = .string(text ?? "")
+      }
+      task.send(message) { _ in }
+    }
+  }
+
+  @objc(closeSocket:code:reason:)
+  func closeSocket(_ id: String, code: Double, reason: String) {
+    queue.addOperation {
+      guard
+        let connection = self.sockets[id],
+        let task = connection.task as? URLSessionWebSocketTask
+      else { return }
+      connection.closeRequested = Int(code)
+      let closeCode = URLSessionWebSocketTask.CloseCode(rawValue: Int(code)) ?? .normalClosure
+      task.cancel(with: closeCode, reason: reason.data(using: .utf8))
+    }
+  }
+}
+
+/// One request, stream or socket, and the pin it must match. Every callback
+/// runs on PinnedNetwork's serial queue.
+class PinnedConnection: NSObject, URLSessionDataDelegate, URLSessionWebSocketDelegate {
+  let pin: String?
+  /// Fingerprint of the certificate the server presented, once it has.
+  var presented: String?
+  var task: URLSessionTask?
+  var status = 0
+  var received = Data()
+  var cancelled = false
+  /// Close code JS asked for; the socket ends without an error then.
+  var closeRequested: Int?
+  private var closed = false
+
+  var onData: ((String) -> Void)?
+  var onComplete: ((Error?) -> Void)?
+  var onSocketEvent: (([String: Any]) -> Void)?
+
+  init(pin: String?) {
+    self.pin = pin
+  }
+
+  /// Error code and message for JS; a certificate that doesn't match the pin is CERT_MISMATCH.
+  func describe(_ error: Error) -> (String, String) {
+    if let presented, presented != pin {
+      return ("CERT_MISMATCH", "The server presented certificate \(presented), not the pinned one")
+    }
+    if (error as NSError).code == NSURLErrorTimedOut {
+      return ("TIMEOUT", error.localizedDescription)
+    }
+    return ("NETWORK_ERROR", error.localizedDescription)
+  }
+
+  func urlSession(
+    _ session: URLSession,
+    didReceive challenge: URLAuthenticationChallenge,
+    completionHandler: @escaping (URLSession.AuthChallengeDisposition, URLCredential?) -> Void
+  ) {
+    guard
+      challenge.protectionSpace.authenticationMethod == NSURLAuthenticationMethodServerTrust,
+      let trust = challenge.protectionSpace.serverTrust
+    else {
+      completionHandler(.performDefaultHandling, nil)
+      return
+    }
+    presented = PinnedNetwork.fingerprint(of: trust)
+    if let pin, presented == pin {
+      completionHandler(.useCredential, URLCredential(trust: trust))
+    } else {
+      completionHandler(.cancelAuthenticationChallenge, nil)
+    }
+  }
+
+  func urlSession(
+    _ session: URLSession,
+    dataTask: URLSessionDataTask,
+    didReceive response: URLResponse,
+    completionHandler: @escaping (URLSession.ResponseDisposition) -> Void
+  ) {
+    status = (response as? HTTPURLResponse)?.statusCode ?? 0
+    completionHandler(.allow)
+  }
+
+  func urlSession(_ session: URLSession, dataTask: URLSessionDataTask, didReceive data: Data) {
+    received.append(data)
+    guard let onData else { return }
+    // Hand over complete lines only, so a multi-byte character is never split
+    guard let newline = received.lastIndex(of: 0x0A) else { return }
+    let lines = received[..<received.index(after: newline)]
+    received = Data(received[received.index(after: newline)...])
+    onData(String(decoding: lines, as: UTF8.self))
+  }
+
+  func urlSession(_ session: URLSession, task: URLSessionTask, didCompleteWithError error: Error?) {
+    if onSocketEvent != nil {
+      if let error, !closed, closeRequested == nil {
+        let (code, message) = describe(error)
+        onSocketEvent?(["type": "error", "code": code, "message": message])
+      }
+      socketClosed(code: closeRequested ?? 1006, reason: "")
+      return
+    }
+    onComplete?(error)
+  }
+
+  // MARK: WebSocket
+
+  func receive() {
+    guard let socket = task as? URLSessionWebSocketTask else { return }
+    socket.receive { [weak self] result in
+      guard let self, case .success(let message) = result else { return }
+      switch message {
+      case .string(let text):
+        self.onSocketEvent?(["type": "message", "text": text])
+      case .data(let data):
+        self.onSocketEvent?(["type": "message", "base64": data.base64EncodedString()])
+      @unknown default:
+        break
+      }
+      self.receive()
+    }
+  }
+
+  func urlSession(
+    _ session: URLSession,
+    webSocketTask: URLSessionWebSocketTask,
+    didOpenWithProtocol protocol: String?
+  ) {
+    onSocketEvent?(["type": "open"])
+  }
+
+  func urlSession(
+    _ session: URLSession,
+    webSocketTask: URLSessionWebSocketTask,
+    didCloseWith closeCode: URLSessionWebSocketTask.CloseCode,
+    reason: Data?
+  ) {
+    socketClosed(code: closeCode.rawValue, reason: reason.map { String(decoding: $0, as: UTF8.self) } ?? "")
+  }
+
+  private func socketClosed(code: Int, reason: String) {
+    guard !closed else { return }
+    closed = true
+    onSocketEvent?(["type": "close", "code": code, "reason": reason])
+  }
+}
@@ -1,4 +1,5 @@
 import UIKit
+import React
 
 class SceneDelegate: UIResponder, UIWindowSceneDelegate {
   var window: UIWindow?
@@ -15,10 +16,22 @@ class SceneDelegate: UIResponder, UIWindowSceneDelegate {
     let window = UIWindow(windowScene: windowScene)
     self.window = window
 
+    // Cold launch from a claude-conduit:// link (e.g. pairing QR code) —
+    // surfaces through Linking.getInitialURL()
+    let launchOptions = connectionOptions.urlContexts.first.map {
+      [UIApplication.LaunchOptionsKey.url: $0.url]
+    }
+
     factory.startReactNative(
       withModuleName: "ClaudeRelay",
       in: window,
-      launchOptions: nil
+      launchOptions: launchOptions
     )
   }
+
+  // Forward claude-conduit:// links to React Native's Linking module
+  func scene(_ scene: UIScene, openURLContexts URLContexts: Set<UIOpenURLContext>) {
+    guard let url = URLContexts.first?.url else { return }
+    RCTLinkingManager.application(UIApplication.shared, open: url, options: [:])
+  }
 }
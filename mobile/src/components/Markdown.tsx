@@ -0,0 +1,255 @@
+import React from 'react';
+import { View, Text, StyleSheet, Linking, type TextStyle } from 'react-native';
+import { colors, spacing, fontSize, borderRadius, fontFamily } from '../theme';
+
+/**
+ * Minimal markdown renderer for Claude's replies: headings, paragraphs,
+ * bullet/numbered lists, block quotes, fenced code blocks and inline
+ * `code`, **bold**, *italic* and [links](url). Anything else renders as
+ * plain text.
+ */
+
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'quote'; text: string }
+  | { type: 'code'; code: string };
+
+const FENCE_RE = /^```/;
+const HEADING_RE = /^(#{1,6})\s+(.*)$/;
+const BULLET_RE = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED_RE = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE_RE = /^>\s?(.*)$/;
+const INLINE_RE = /(`[^`]+`)|(\*\*[^*]+\*\*)|(\*[^*\s][^*]*\*|_[^_\s][^_]*_)|(\[[^\]]+\]\([^)\s]+\))/g;
+
+function parseBlocks(source: string): Block[] {
+  const blocks: Block[] = [];
+  const lines = source.replace(/\r\n/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE_RE.test(line)) {
+      flushParagraph();
+      const code: string[] = [];
+      // An unterminated fence runs to the end (Claude may still be writing it)
+      while (++i < lines.length && !FENCE_RE.test(lines[i])) code.push(lines[i]);
+      blocks.push({ type: 'code', code: code.join('\n') });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = line.match(HEADING_RE);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      continue;
+    }
+
+    const bullet = line.match(BULLET_RE);
+    const listItem = bullet ?? line.match(NUMBERED_RE);
+    if (listItem) {
+      flushParagraph();
+      const ordered = !bullet;
+      const item = listItem[1];
+      const prev = blocks[blocks.length - 1];
+      if (prev?.type === 'list' && prev.ordered === ordered) {
+        prev.items.push(item);
+      } else {
+        blocks.push({ type: 'list', ordered, items: [item] });
+      }
+      continue;
+    }
+
+    const quote = line.match(QUOTE_RE);
+    if (quote) {
+      flushParagraph();
+      const prev = blocks[blocks.length - 1];
+      if (prev?.type === 'quote') {
+        prev.text += '\n' + quote[1];
+      } else {
+        blocks.push({ type: 'quote', text: quote[1] });
+      }
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+  flushParagraph();
+  return blocks;
+}
+
+function renderInline(text: string, keyPrefix: string): React.ReactNode[] {
+  const nodes: React.ReactNode[] = [];
+  let last = 0;
+  let match: RegExpExecArray | null;
+  INLINE_RE.lastIndex = 0;
+
+  while ((match = INLINE_RE.exec(text)) !== null) {
+    if (match.index > last) nodes.push(text.slice(last, match.index));
+    const token = match[0];
+    const key = `${keyPrefix}-${match.index}`;
+
+    if (match[1]) {
+      nodes.push(<Text key={key} style={styles.inlineCode}>{token.slice(1, -1)}</Text>);
+    } else if (match[2]) {
+      nodes.push(<Text key={key} style={styles.bold}>{token.slice(2, -2)}</Text>);
+    } else if (match[3]) {
+      nodes.push(<Text key={key} style={styles.italic}>{token.slice(1, -1)}</Text>);
+    } else {
+      const link = token.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+      const url = link?.[2] ?? '';
+      nodes.push(
+        <Text
+          key={key}
+          style={styles.link}
+          onPress={() => Linking.openURL(url).catch(() => {})}>
+          {link?.[1] ?? token}
+        </Text>,
+      );
+    }
+    last = match.index + token.length;
+  }
+
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+}
+
+const HEADING_SIZES: Record<number, TextStyle> = {
+  1: { fontSize: fontSize.xl },
+  2: { fontSize: fontSize.lg },
+  3: { fontSize: fontSize.md },
+};
+
+export function Markdown({ source }: { source: string }) {
+  const blocks = parseBlocks(source);
+
+  return (
+    <View style={styles.container}>
+      {blocks.map((block, i) => {
+        const key = String(i);
+        switch (block.type) {
+          case 'heading':
+            return (
+              <Text key={key} style={[styles.text, styles.heading, HEADING_SIZES[block.level]]}>
+                {renderInline(block.text, key)}
+              </Text>
+            );
+          case 'paragraph':
+            return (
+              <Text key={key} style={styles.text}>
+                {renderInline(block.text, key)}
+              </Text>
+            );
+          case 'list':
+            return (
+              <View key={key} style={styles.list}>
+                {block.items.map((item, j) => (
+                  <View key={j} style={styles.listItem}>
+                    <Text style={[styles.text, styles.listMarker]}>
+                      {block.ordered ? `${j + 1}.` : '•'}
+                    </Text>
+                    <Text style={[styles.text, styles.listText]}>
+                      {renderInline(item, `${key}-${j}`)}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            );
+          case 'quote':
+            return (
+              <View key={key} style={styles.quote}>
+                <Text style={[styles.text, styles.quoteText]}>
+                  {renderInline(block.text, key)}
+                </Text>
+              </View>
+            );
+          case 'code':
+            return (
+              <View key={key} style={styles.codeBlock}>
+                <Text style={styles.codeText} selectable>
+                  {block.code}
+                </Text>
+              </View>
+            );
+        }
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.sm,
+  },
+  text: {
+    color: colors.textPrimary,
+    fontSize: fontSize.md,
+    lineHeight: 21,
+  },
+  heading: {
+    fontWeight: '700',
+  },
+  bold: {
+    fontWeight: '700',
+  },
+  italic: {
+    fontStyle: 'italic',
+  },
+  link: {
+    color: colors.accent,
+    textDecorationLine: 'underline',
+  },
+  inlineCode: {
+    fontFamily: fontFamily.mono,
+    fontSize: fontSize.sm,
+    color: colors.accent,
+    backgroundColor: colors.bgSurface,
+  },
+  list: {
+    gap: spacing.xs,
+  },
+  listItem: {
+    flexDirection: 'row',
+  },
+  listMarker: {
+    width: 20,
+    color: colors.textSecondary,
+  },
+  listText: {
+    flex: 1,
+  },
+  quote: {
+    borderLeftWidth: 3,
+    borderLeftColor: colors.border,
+    paddingLeft: spacing.sm,
+  },
+  quoteText: {
+    color: colors.textSecondary,
+  },
+  codeBlock: {
+    backgroundColor: colors.bg,
+    borderRadius: borderRadius.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: spacing.sm,
+  },
+  codeText: {
+    fontFamily: fontFamily.mono,
+    fontSize: fontSize.xs,
+    color: colors.textPrimary,
+  },
+});
@@ -0,0 +1,96 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { colors, spacing, fontSize, borderRadius, fontFamily } from '../theme';
+import { toolSummary } from './toolSummary';
+import type { PendingTool, PermissionDecision } from '../types/session';
+
+const ACTIONS: Array<{ decision: PermissionDecision; label: string }> = [
+  { decision: 'approve', label: 'Allow' },
+  { decision: 'approve-always', label: 'Always' },
+  { decision: 'deny', label: 'Deny' },
+];
+
+/** The tool call a session is blocked on, with one-tap answers. */
+export function PermissionBar({
+  tool,
+  busy,
+  onAnswer,
+}: {
+  tool: PendingTool;
+  /** An answer is in flight — buttons are disabled. */
+  busy: boolean;
+  onAnswer: (decision: PermissionDecision) => void;
+}) {
+  const summary = toolSummary(tool.input);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.tool} numberOfLines={2}>
+        <Text style={styles.toolName}>{tool.name}</Text>
+        {summary ? `  ${summary}` : ''}
+      </Text>
+      <View style={styles.actions}>
+        {busy ? (
+          <ActivityIndicator color={colors.warning} size="small" />
+        ) : (
+          ACTIONS.map(({ decision, label }) => (
+            <TouchableOpacity
+              key={decision}
+              style={[styles.button, decision === 'deny' ? styles.buttonDeny : styles.buttonAllow]}
+              onPress={() => onAnswer(decision)}
+              activeOpacity={0.7}>
+              <Text
+                style={[styles.buttonText, decision === 'deny' ? styles.buttonTextDeny : styles.buttonTextAllow]}>
+                {label}
+              </Text>
+            </TouchableOpacity>
+          ))
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: spacing.sm,
+    padding: spacing.sm,
+    borderRadius: borderRadius.sm,
+    backgroundColor: colors.warningMuted,
+    gap: spacing.sm,
+  },
+  tool: {
+    fontSize: fontSize.xs,
+    fontFamily: fontFamily.mono,
+    color: colors.textSecondary,
+  },
+  toolName: {
+    color: colors.warning,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  button: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.sm,
+  },
+  buttonAllow: {
+    backgroundColor: colors.successMuted,
+  },
+  buttonDeny: {
+    backgroundColor: colors.errorMuted,
+  },
+  buttonText: {
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+  },
+  buttonTextAllow: {
+    color: colors.success,
+  },
+  buttonTextDeny: {
+    color: colors.error,
+  },
+});
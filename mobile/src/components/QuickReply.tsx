@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { View, TextInput, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { colors, spacing, fontSize, borderRadius } from '../theme';
+
+/** Inline one-line reply box for a session row. Clears itself once sent. */
+export function QuickReply({
+  onSend,
+}: {
+  /** Resolves once delivered; a rejection keeps the text for another try. */
+  onSend: (text: string) => Promise<void>;
+}) {
+  const [text, setText] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const send = async () => {
+    const message = text.trim();
+    if (!message || sending) return;
+    setSending(true);
+    try {
+      await onSend(message);
+      setText('');
+    } catch {
+      // Caller reports the error
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        style={styles.input}
+        value={text}
+        onChangeText={setText}
+        placeholder="Reply to Claude..."
+        placeholderTextColor={colors.textMuted}
+        autoFocus
+        returnKeyType="send"
+        onSubmitEditing={send}
+        editable={!sending}
+      />
+      <TouchableOpacity
+        style={[styles.sendBtn, (!text.trim() || sending) && styles.sendBtnDisabled]}
+        onPress={send}
+        disabled={!text.trim() || sending}
+        activeOpacity={0.7}>
+        {sending ? (
+          <ActivityIndicator color={colors.textInverse} size="small" />
+        ) : (
+          <Text style={styles.sendText}>Send</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  input: {
+    flex: 1,
+    height: 34,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.sm,
+    backgroundColor: colors.bgInput,
+    borderWidth: 1,
+    borderColor: colors.border,
+    color: colors.textPrimary,
+    fontSize: fontSize.sm,
+  },
+  sendBtn: {
+    height: 34,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.sm,
+    backgroundColor: colors.accent,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sendBtnDisabled: {
+    opacity: 0.4,
+  },
+  sendText: {
+    color: colors.textInverse,
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,93 @@
+import React, { useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { colors, spacing, fontSize, borderRadius, shadows } from '../theme';
+import { describeAlert, type SessionAlert } from '../services/notifications';
+
+const AUTO_DISMISS_MS = 6000;
+
+/** In-app banner for a session alert. Tap to open the session; hides itself after a few seconds. */
+export function SessionBanner({
+  alert,
+  onOpen,
+  onDismiss,
+}: {
+  alert: SessionAlert;
+  onOpen: () => void;
+  onDismiss: () => void;
+}) {
+  const insets = useSafeAreaInsets();
+  const { title, body } = describeAlert(alert);
+  const accent = alert.kind === 'needs_permission' ? colors.warning : colors.success;
+
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, AUTO_DISMISS_MS);
+    return () => clearTimeout(timer);
+  }, [alert, onDismiss]);
+
+  return (
+    <View style={[styles.container, { top: insets.top + spacing.sm }]} pointerEvents="box-none">
+      <TouchableOpacity
+        style={[styles.banner, { borderLeftColor: accent }]}
+        onPress={onOpen}
+        activeOpacity={0.8}>
+        <View style={styles.content}>
+          <Text style={styles.title} numberOfLines={1}>
+            {title}
+          </Text>
+          <Text style={styles.body} numberOfLines={2}>
+            {body}
+          </Text>
+        </View>
+        <TouchableOpacity
+          style={styles.close}
+          onPress={onDismiss}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+          <Text style={styles.closeText}>✕</Text>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: spacing.md,
+    right: spacing.md,
+    alignItems: 'center',
+  },
+  banner: {
+    width: '100%',
+    maxWidth: 480,
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderLeftWidth: 4,
+    backgroundColor: colors.bgElevated,
+    borderWidth: 1,
+    borderColor: colors.border,
+    ...shadows.md,
+  },
+  content: {
+    flex: 1,
+    gap: 2,
+  },
+  title: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  body: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+  },
+  close: {
+    marginLeft: spacing.sm,
+  },
+  closeText: {
+    fontSize: fontSize.md,
+    color: colors.textMuted,
+  },
+});
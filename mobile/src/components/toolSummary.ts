@@ -0,0 +1,12 @@
+// Input fields that best describe a tool call, in order of preference
+const SUMMARY_KEYS = ['description', 'command', 'file_path', 'pattern', 'url', 'query', 'path'];
+
+/** One-line summary of a tool call's input, e.g. the Bash command or the file being edited. */
+export function toolSummary(input: unknown): string {
+  const fields = (input ?? {}) as Record<string, unknown>;
+  for (const key of SUMMARY_KEYS) {
+    const value = fields[key];
+    if (typeof value === 'string' && value) return value;
+  }
+  return '';
+}
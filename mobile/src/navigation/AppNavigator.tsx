@@ -1,11 +1,16 @@
 import React, { useEffect, useState, Suspense, lazy } from 'react';
-import { View, Text, StyleSheet, useWindowDimensions, ActivityIndicator } from 'react-native';
+import { View, Text, StyleSheet, useWindowDimensions, ActivityIndicator, Linking } from 'react-native';
 import { useConnectionStore } from '../stores/connection';
+import { useSessionsStore } from '../stores/sessions';
 import { ConnectionErrorScreen } from '../screens/ConnectionErrorScreen';
 import { SetupScreen } from '../screens/SetupScreen';
 import { SessionListScreen } from '../screens/SessionListScreen';
 import { SettingsScreen } from '../screens/SettingsScreen';
 import { NewSessionScreen } from '../screens/NewSessionScreen';
+import { ChatScreen } from '../screens/ChatScreen';
+import { UsageScreen } from '../screens/UsageScreen';
+import { SessionBanner } from '../components/SessionBanner';
+import { parseSessionLink } from '../services/sessionLink';
 import { colors, fontSize, spacing } from '../theme';
 import type { Session } from '../types/session';
 
@@ -27,23 +32,52 @@ type Screen =
   | { name: 'setup' }
   | { name: 'sessions' }
   | { name: 'terminal'; session: Session; attachToken?: string }
+  | { name: 'chat'; session: Session }
   | { name: 'settings' }
+  | { name: 'usage' }
   | { name: 'newSession' };
 
 const IPAD_MIN_WIDTH = 700;
 
 export function AppNavigator() {
-  const { isConfigured, isReachable, initialize } = useConnectionStore();
+  const { isConfigured, isReachable, initialize, client } = useConnectionStore();
+  const { alert, dismissAlert, loadMutedProjects } = useSessionsStore();
   const { width } = useWindowDimensions();
   const isIPad = width >= IPAD_MIN_WIDTH;
 
   const [screen, setScreen] = useState<Screen>({ name: 'sessions' });
   const [initialized, setInitialized] = useState(false);
+  // Session a claude-conduit:// link was opened for, opened once connected
+  const [linkedSessionId, setLinkedSessionId] = useState<string | null>(null);
 
   useEffect(() => {
     initialize().then(() => setInitialized(true));
   }, [initialize]);
 
+  useEffect(() => {
+    const openLink = (url: string | null) => {
+      const sessionId = url ? parseSessionLink(url) : null;
+      if (sessionId) setLinkedSessionId(sessionId);
+    };
+    Linking.getInitialURL().then(openLink).catch(() => {});
+    const sub = Linking.addEventListener('url', ({ url }) => openLink(url));
+    return () => sub.remove();
+  }, []);
+
+  useEffect(() => {
+    if (!isReachable) return;
+    loadMutedProjects();
+  }, [isReachable, loadMutedProjects]);
+
+  useEffect(() => {
+    if (!linkedSessionId || !client || !isReachable) return;
+    setLinkedSessionId(null);
+    client
+      .getSession(linkedSessionId)
+      .then(session => setScreen({ name: 'chat', session }))
+      .catch(() => {}); // Gone since — stay where we are
+  }, [linkedSessionId, client, isReachable]);
+
   if (!initialized) {
     return <View style={styles.loading} />;
   }
@@ -58,110 +92,161 @@ export function AppNavigator() {
     return <ConnectionErrorScreen />;
   }
 
-  // iPad split view
-  if (isIPad) {
-    return (
-      <View style={styles.splitView}>
-        <View style={styles.sidebar}>
-          {screen.name === 'settings' ? (
-            <SettingsScreen onBack={() => setScreen({ name: 'sessions' })} />
-          ) : screen.name === 'newSession' ? (
-            <NewSessionScreen
-              onBack={() => setScreen({ name: 'sessions' })}
-              onCreated={(sessionId, attachToken, projectPath, projectName) => {
-                const session: Session = {
-                  id: sessionId,
-                  projectPath,
-                  projectName,
-                  lastMessagePreview: 'New session',
-                  lastMessageRole: 'unknown',
-                  timestamp: new Date().toISOString(),
-                  cliVersion: '',
-                  tmuxStatus: 'active',
-                };
-                setScreen({ name: 'terminal', session, attachToken });
-              }}
-            />
-          ) : (
-            <SessionListScreen
-              onSelectSession={session =>
-                setScreen({ name: 'terminal', session })
-              }
-              onOpenSettings={() => setScreen({ name: 'settings' })}
-              onNewSession={() => setScreen({ name: 'newSession' })}
-            />
-          )}
-        </View>
-        <View style={styles.main}>
-          {screen.name === 'terminal' ? (
-            <Suspense fallback={<TerminalFallback />}>
-              <TerminalScreen
+  const renderScreen = (): React.ReactNode => {
+    // iPad split view
+    if (isIPad) {
+      return (
+        <View style={styles.splitView}>
+          <View style={styles.sidebar}>
+            {screen.name === 'settings' ? (
+              <SettingsScreen
+                onBack={() => setScreen({ name: 'sessions' })}
+                onOpenUsage={() => setScreen({ name: 'usage' })}
+              />
+            ) : screen.name === 'usage' ? (
+              <UsageScreen onBack={() => setScreen({ name: 'settings' })} />
+            ) : screen.name === 'newSession' ? (
+              <NewSessionScreen
+                onBack={() => setScreen({ name: 'sessions' })}
+                onCreated={(sessionId, attachToken, projectPath, projectName) => {
+                  const session: Session = {
+                    id: sessionId,
+                    projectPath,
+                    projectName,
+                    lastMessagePreview: 'New session',
+                    lastMessageRole: 'unknown',
+                    timestamp: new Date().toISOString(),
+                    cliVersion: '',
+                    tmuxStatus: 'active',
+                  };
+                  setScreen({ name: 'terminal', session, attachToken });
+                }}
+              />
+            ) : (
+              <SessionListScreen
+                onSelectSession={session =>
+                  setScreen({ name: 'terminal', session })
+                }
+                onOpenSettings={() => setScreen({ name: 'settings' })}
+                onNewSession={() => setScreen({ name: 'newSession' })}
+              />
+            )}
+          </View>
+          <View style={styles.main}>
+            {screen.name === 'terminal' ? (
+              <Suspense fallback={<TerminalFallback />}>
+                <TerminalScreen
+                  session={screen.session}
+                  attachToken={screen.attachToken}
+                  onBack={() => setScreen({ name: 'sessions' })}
+                  onOpenChat={() => setScreen({ name: 'chat', session: screen.session })}
+                />
+              </Suspense>
+            ) : screen.name === 'chat' ? (
+              <ChatScreen
                 session={screen.session}
-                attachToken={screen.attachToken}
                 onBack={() => setScreen({ name: 'sessions' })}
+                onOpenTerminal={() => setScreen({ name: 'terminal', session: screen.session })}
               />
-            </Suspense>
-          ) : (
-            <View style={styles.placeholder}>
-              <Text style={styles.placeholderIcon}>▸</Text>
-              <Text style={styles.placeholderText}>Select a session to continue</Text>
-            </View>
-          )}
+            ) : (
+              <View style={styles.placeholder}>
+                <Text style={styles.placeholderIcon}>▸</Text>
+                <Text style={styles.placeholderText}>Select a session to continue</Text>
+              </View>
+            )}
+          </View>
         </View>
-      </View>
-    );
-  }
+      );
+    }
 
-  // iPhone: full-screen stacked navigation
-  if (screen.name === 'settings') {
-    return (
-      <SettingsScreen onBack={() => setScreen({ name: 'sessions' })} />
-    );
-  }
+    // iPhone: full-screen stacked navigation
+    if (screen.name === 'settings') {
+      return (
+        <SettingsScreen
+          onBack={() => setScreen({ name: 'sessions' })}
+          onOpenUsage={() => setScreen({ name: 'usage' })}
+        />
+      );
+    }
 
-  if (screen.name === 'newSession') {
-    return (
-      <NewSessionScreen
-        onBack={() => setScreen({ name: 'sessions' })}
-        onCreated={(sessionId, attachToken, projectPath, projectName) => {
-          const session: Session = {
-            id: sessionId,
-            projectPath,
-            projectName,
-            lastMessagePreview: 'New session',
-            lastMessageRole: 'unknown',
-            timestamp: new Date().toISOString(),
-            cliVersion: '',
-            tmuxStatus: 'active',
-          };
-          setScreen({ name: 'terminal', session, attachToken });
-        }}
-      />
-    );
-  }
+    if (screen.name === 'usage') {
+      return <UsageScreen onBack={() => setScreen({ name: 'settings' })} />;
+    }
 
-  if (screen.name === 'terminal') {
-    return (
-      <Suspense fallback={<TerminalFallback />}>
-        <TerminalScreen
+    if (screen.name === 'newSession') {
+      return (
+        <NewSessionScreen
+          onBack={() => setScreen({ name: 'sessions' })}
+          onCreated={(sessionId, attachToken, projectPath, projectName) => {
+            const session: Session = {
+              id: sessionId,
+              projectPath,
+              projectName,
+              lastMessagePreview: 'New session',
+              lastMessageRole: 'unknown',
+              timestamp: new Date().toISOString(),
+              cliVersion: '',
+              tmuxStatus: 'active',
+            };
+            setScreen({ name: 'terminal', session, attachToken });
+          }}
+        />
+      );
+    }
+
+    if (screen.name === 'terminal') {
+      return (
+        <Suspense fallback={<TerminalFallback />}>
+          <TerminalScreen
+            session={screen.session}
+            attachToken={screen.attachToken}
+            onBack={() => setScreen({ name: 'sessions' })}
+            onOpenChat={() => setScreen({ name: 'chat', session: screen.session })}
+          />
+        </Suspense>
+      );
+    }
+
+    if (screen.name === 'chat') {
+      return (
+        <ChatScreen
           session={screen.session}
-          attachToken={screen.attachToken}
           onBack={() => setScreen({ name: 'sessions' })}
+          onOpenTerminal={() => setScreen({ name: 'terminal', session: screen.session })}
         />
-      </Suspense>
+      );
+    }
+
+    return (
+      <SessionListScreen
+        onSelectSession={session => setScreen({ name: 'terminal', session })}
+        onOpenSettings={() => setScreen({ name: 'settings' })}
+        onNewSession={() => setScreen({ name: 'newSession' })}
+      />
     );
-  }
+  };
 
   return (
-    <SessionListScreen
-      onSelectSession={session => setScreen({ name: 'terminal', session })}
-      onOpenSettings={() => setScreen({ name: 'settings' })}
-      onNewSession={() => setScreen({ name: 'newSession' })}
-    />
+    <View style={styles.root}>
+      {renderScreen()}
+      {alert && (
+        <SessionBanner
+          alert={alert}
+          onOpen={() => {
+            setScreen({ name: 'chat', session: alert.session });
+            dismissAlert();
+          }}
+          onDismiss={dismissAlert}
+        />
+      )}
+    </View>
   );
 }
 
 const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+  },
   loading: {
     flex: 1,
     backgroundColor: colors.bg,
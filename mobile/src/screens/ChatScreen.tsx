@@ -0,0 +1,527 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Keyboard,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { colors, spacing, fontSize, borderRadius, fontFamily } from '../theme';
+import { useConnectionStore } from '../stores/connection';
+import { RelayError } from '../services/relay';
+import { Markdown } from '../components/Markdown';
+import { toolSummary } from '../components/toolSummary';
+import type { Session, TranscriptBlock, TranscriptMessage } from '../types/session';
+
+type ToolUse = Extract<TranscriptBlock, { type: 'tool_use' }>;
+type ToolResult = Extract<TranscriptBlock, { type: 'tool_result' }>;
+
+const PAGE_SIZE = 50;
+// How often to pick up new messages while the screen is open
+const POLL_INTERVAL_MS = 4000;
+
+/**
+ * Merge the latest page into what's loaded. Returns null when the page
+ * doesn't overlap (more than a page arrived since the last fetch) — the
+ * caller starts over from the latest page.
+ */
+function mergeLatest(
+  loaded: TranscriptMessage[],
+  latest: TranscriptMessage[],
+): TranscriptMessage[] | null {
+  if (loaded.length === 0 || latest.length === 0) return latest.length ? latest : loaded;
+  const idx = loaded.findIndex(m => m.uuid === latest[0].uuid);
+  if (idx === -1) return null;
+  return [...loaded.slice(0, idx), ...latest];
+}
+
+function formatTime(timestamp: string): string {
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) return '';
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function ToolCall({ tool, result }: { tool: ToolUse; result?: ToolResult }) {
+  const [expanded, setExpanded] = useState(false);
+  const summary = toolSummary(tool.input);
+
+  return (
+    <View style={styles.tool}>
+      <TouchableOpacity
+        style={styles.toolHeader}
+        onPress={() => setExpanded(e => !e)}
+        activeOpacity={0.7}>
+        <Text style={styles.toolChevron}>{expanded ? '▾' : '▸'}</Text>
+        <Text style={styles.toolName}>{tool.name}</Text>
+        <Text style={styles.toolSummary} numberOfLines={1}>
+          {summary}
+        </Text>
+        {!result ? (
+          <ActivityIndicator color={colors.textMuted} size="small" />
+        ) : result.isError ? (
+          <Text style={styles.toolError}>failed</Text>
+        ) : null}
+      </TouchableOpacity>
+      {expanded && (
+        <View style={styles.toolBody}>
+          <Text style={styles.toolLabel}>Input</Text>
+          <Text style={styles.toolCode} selectable>
+            {JSON.stringify(tool.input, null, 2)}
+          </Text>
+          {result && (
+            <>
+              <Text style={styles.toolLabel}>{result.isError ? 'Error' : 'Result'}</Text>
+              <Text
+                style={[styles.toolCode, result.isError && styles.toolCodeError]}
+                selectable>
+                {result.content || '(no output)'}
+                {result.truncated ? '\n…(truncated)' : ''}
+              </Text>
+            </>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+function MessageBubble({
+  message,
+  results,
+}: {
+  message: TranscriptMessage;
+  results: Map<string, ToolResult>;
+}) {
+  const isUser = message.role === 'user';
+
+  return (
+    <View style={[styles.messageRow, isUser && styles.messageRowUser]}>
+      <View style={[styles.bubble, isUser ? styles.bubbleUser : styles.bubbleAssistant]}>
+        {message.blocks.map((block, i) => {
+          switch (block.type) {
+            case 'text':
+              return isUser ? (
+                <Text key={i} style={styles.userText} selectable>
+                  {block.text}
+                </Text>
+              ) : (
+                <Markdown key={i} source={block.text} />
+              );
+            case 'tool_use':
+              return <ToolCall key={i} tool={block} result={results.get(block.id)} />;
+            default:
+              // Tool results are shown under their tool call
+              return null;
+          }
+        })}
+        <Text style={[styles.time, isUser && styles.timeUser]}>{formatTime(message.timestamp)}</Text>
+      </View>
+    </View>
+  );
+}
+
+export function ChatScreen({
+  session,
+  onBack,
+  onOpenTerminal,
+}: {
+  session: Session;
+  onBack: () => void;
+  /** Switch to the live terminal of this session. */
+  onOpenTerminal: () => void;
+}) {
+  const { client } = useConnectionStore();
+  const insets = useSafeAreaInsets();
+  const [messages, setMessages] = useState<TranscriptMessage[]>([]);
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [keyboardHeight, setKeyboardHeight] = useState(0);
+  const messagesRef = useRef<TranscriptMessage[]>([]);
+
+  useEffect(() => {
+    const showSub = Keyboard.addListener(
+      Platform.OS === 'ios' ? 'keyboardWillShow' : 'keyboardDidShow',
+      (e) => setKeyboardHeight(e.endCoordinates.height),
+    );
+    const hideSub = Keyboard.addListener(
+      Platform.OS === 'ios' ? 'keyboardWillHide' : 'keyboardDidHide',
+      () => setKeyboardHeight(0),
+    );
+    return () => { showSub.remove(); hideSub.remove(); };
+  }, []);
+
+  const applyMessages = useCallback((next: TranscriptMessage[]) => {
+    messagesRef.current = next;
+    setMessages(next);
+  }, []);
+
+  const loadLatest = useCallback(async () => {
+    if (!client) return;
+    try {
+      const page = await client.getTranscript(session.id, undefined, PAGE_SIZE);
+      const merged = mergeLatest(messagesRef.current, page.messages);
+      if (merged) {
+        // First load sets where "load older" starts; later ones only append
+        if (messagesRef.current.length === 0) setCursor(page.cursor);
+        applyMessages(merged);
+      } else {
+        setCursor(page.cursor);
+        applyMessages(page.messages);
+      }
+      setError(null);
+    } catch (err) {
+      setError(err instanceof RelayError ? err.message : 'Failed to load conversation');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [client, session.id, applyMessages]);
+
+  const loadOlder = useCallback(async () => {
+    if (!client || cursor === null || isLoadingOlder || isLoading) return;
+    setIsLoadingOlder(true);
+    try {
+      const page = await client.getTranscript(session.id, cursor, PAGE_SIZE);
+      applyMessages([...page.messages, ...messagesRef.current]);
+      setCursor(page.cursor);
+    } catch (err) {
+      setError(err instanceof RelayError ? err.message : 'Failed to load older messages');
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  }, [client, session.id, cursor, isLoadingOlder, isLoading, applyMessages]);
+
+  useEffect(() => {
+    loadLatest();
+    const timer = setInterval(loadLatest, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [loadLatest]);
+
+  const handleSend = useCallback(async () => {
+    const text = draft.trim();
+    if (!client || !text || isSending) return;
+    setIsSending(true);
+    try {
+      await client.sendInput(session.id, text);
+      setDraft('');
+      loadLatest();
+    } catch (err) {
+      const msg = err instanceof RelayError ? `${err.message}\n\n${err.action}` : 'Failed to send reply';
+      Alert.alert('Send Failed', msg);
+    } finally {
+      setIsSending(false);
+    }
+  }, [client, draft, isSending, session.id, loadLatest]);
+
+  // Tool results live in the following user message — index them by tool call
+  const results = useMemo(() => {
+    const map = new Map<string, ToolResult>();
+    for (const msg of messages) {
+      for (const block of msg.blocks) {
+        if (block.type === 'tool_result') map.set(block.toolUseId, block);
+      }
+    }
+    return map;
+  }, [messages]);
+
+  // Newest first for the inverted list; hide user turns that only carry tool results
+  const visible = useMemo(
+    () => messages.filter(m => m.blocks.some(b => b.type !== 'tool_result')).reverse(),
+    [messages],
+  );
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top, paddingBottom: keyboardHeight }]}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack} activeOpacity={0.7}>
+          <Text style={styles.backText}>← Back</Text>
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle} numberOfLines={1}>
+            {session.projectName}
+          </Text>
+          <Text style={styles.headerSubtitle}>Chat</Text>
+        </View>
+        <View style={styles.headerRight}>
+          <TouchableOpacity onPress={onOpenTerminal} activeOpacity={0.7}>
+            <Text style={styles.headerAction}>Terminal</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.center}>
+          <ActivityIndicator color={colors.accent} size="large" />
+        </View>
+      ) : error && messages.length === 0 ? (
+        <View style={styles.center}>
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={loadLatest} activeOpacity={0.7}>
+            <Text style={styles.retryText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={visible}
+          inverted
+          keyExtractor={m => m.uuid}
+          renderItem={({ item }) => <MessageBubble message={item} results={results} />}
+          contentContainerStyle={styles.listContent}
+          onEndReached={loadOlder}
+          onEndReachedThreshold={0.5}
+          keyboardDismissMode="interactive"
+          ListFooterComponent={
+            isLoadingOlder ? <ActivityIndicator color={colors.textMuted} style={styles.older} /> : null
+          }
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>No messages yet</Text>
+          }
+        />
+      )}
+
+      <View style={[styles.composer, { paddingBottom: keyboardHeight ? spacing.sm : insets.bottom + spacing.sm }]}>
+        <TextInput
+          style={styles.composerInput}
+          value={draft}
+          onChangeText={setDraft}
+          placeholder="Reply to Claude..."
+          placeholderTextColor={colors.textMuted}
+          multiline
+          editable={!isSending}
+        />
+        <TouchableOpacity
+          style={[styles.sendButton, (!draft.trim() || isSending) && styles.sendButtonDisabled]}
+          onPress={handleSend}
+          disabled={!draft.trim() || isSending}
+          activeOpacity={0.7}>
+          {isSending ? (
+            <ActivityIndicator color={colors.textInverse} size="small" />
+          ) : (
+            <Text style={styles.sendText}>Send</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.bg,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    backgroundColor: colors.bgElevated,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    paddingVertical: spacing.xs,
+    paddingRight: spacing.md,
+  },
+  backText: {
+    color: colors.accent,
+    fontSize: fontSize.md,
+    fontWeight: '500',
+  },
+  headerCenter: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  headerTitle: {
+    color: colors.textPrimary,
+    fontSize: fontSize.md,
+    fontWeight: '600',
+  },
+  headerSubtitle: {
+    fontSize: fontSize.xs,
+    color: colors.textMuted,
+    marginTop: 2,
+  },
+  headerRight: {
+    width: 90,
+    alignItems: 'flex-end',
+  },
+  headerAction: {
+    color: colors.accent,
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+  },
+  center: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: spacing.md,
+    padding: spacing.lg,
+  },
+  errorText: {
+    color: colors.error,
+    fontSize: fontSize.md,
+    textAlign: 'center',
+  },
+  retryButton: {
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.bgSurface,
+  },
+  retryText: {
+    color: colors.accent,
+    fontSize: fontSize.md,
+    fontWeight: '600',
+  },
+  listContent: {
+    padding: spacing.md,
+    gap: spacing.md,
+  },
+  older: {
+    marginVertical: spacing.md,
+  },
+  emptyText: {
+    color: colors.textMuted,
+    fontSize: fontSize.md,
+    textAlign: 'center',
+    // The list is inverted, so flip the empty state back upright
+    transform: [{ scaleY: -1 }],
+  },
+  messageRow: {
+    flexDirection: 'row',
+  },
+  messageRowUser: {
+    justifyContent: 'flex-end',
+  },
+  bubble: {
+    maxWidth: '90%',
+    borderRadius: borderRadius.lg,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    gap: spacing.sm,
+  },
+  bubbleUser: {
+    backgroundColor: colors.accentMuted,
+    borderBottomRightRadius: borderRadius.sm,
+  },
+  bubbleAssistant: {
+    backgroundColor: colors.bgElevated,
+    borderBottomLeftRadius: borderRadius.sm,
+    flexShrink: 1,
+  },
+  userText: {
+    color: colors.textPrimary,
+    fontSize: fontSize.md,
+    lineHeight: 21,
+  },
+  time: {
+    fontSize: fontSize.xs,
+    color: colors.textMuted,
+  },
+  timeUser: {
+    textAlign: 'right',
+  },
+  tool: {
+    borderRadius: borderRadius.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.bgSurface,
+  },
+  toolHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  toolChevron: {
+    color: colors.textMuted,
+    fontSize: fontSize.sm,
+  },
+  toolName: {
+    color: colors.accent,
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+  },
+  toolSummary: {
+    flex: 1,
+    color: colors.textSecondary,
+    fontSize: fontSize.sm,
+    fontFamily: fontFamily.mono,
+  },
+  toolError: {
+    color: colors.error,
+    fontSize: fontSize.xs,
+    fontWeight: '600',
+  },
+  toolBody: {
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    padding: spacing.sm,
+    gap: spacing.xs,
+  },
+  toolLabel: {
+    color: colors.textMuted,
+    fontSize: fontSize.xs,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  toolCode: {
+    color: colors.textPrimary,
+    fontSize: fontSize.xs,
+    fontFamily: fontFamily.mono,
+  },
+  toolCodeError: {
+    color: colors.error,
+  },
+  composer: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: spacing.sm,
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.sm,
+    backgroundColor: colors.bgElevated,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  composerInput: {
+    flex: 1,
+    maxHeight: 120,
+    minHeight: 40,
+    paddingHorizontal: spacing.md,
+    paddingTop: 10,
+    paddingBottom: 10,
+    borderRadius: borderRadius.lg,
+    backgroundColor: colors.bgInput,
+    borderWidth: 1,
+    borderColor: colors.border,
+    color: colors.textPrimary,
+    fontSize: fontSize.md,
+  },
+  sendButton: {
+    height: 40,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.lg,
+    backgroundColor: colors.accent,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sendButtonDisabled: {
+    opacity: 0.4,
+  },
+  sendText: {
+    color: colors.textInverse,
+    fontSize: fontSize.md,
+    fontWeight: '600',
+  },
+});
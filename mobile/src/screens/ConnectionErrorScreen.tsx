@@ -8,9 +8,10 @@ import {
 } from 'react-native';
 import { colors, spacing, fontSize, borderRadius } from '../theme';
 import { useConnectionStore } from '../stores/connection';
+import { clearConfig } from '../services/storage';
 
 export function ConnectionErrorScreen() {
-  const { isChecking, checkConnection } = useConnectionStore();
+  const { isChecking, checkConnection, certMismatch, reset } = useConnectionStore();
   const retryTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
   const attemptRef = useRef(0);
 
@@ -31,6 +32,11 @@ export function ConnectionErrorScreen() {
     };
   }, [checkConnection]);
 
+  const handleRepair = async () => {
+    await clearConfig();
+    reset();
+  };
+
   return (
     <View style={styles.container}>
       <View style={styles.content}>
@@ -39,11 +45,23 @@ export function ConnectionErrorScreen() {
           <Text style={styles.icon}>⚡</Text>
         </View>
 
-        <Text style={styles.title}>Cannot reach your Mac</Text>
-        <Text style={styles.subtitle}>
-          Make sure the Claude Conduit daemon is running and your device can reach
-          it over the network.
-        </Text>
+        {certMismatch ? (
+          <>
+            <Text style={styles.title}>Certificate changed</Text>
+            <Text style={styles.subtitle}>
+              The daemon presented a different TLS certificate than the one this
+              device paired with. If you regenerated it on purpose, pair again.
+            </Text>
+          </>
+        ) : (
+          <>
+            <Text style={styles.title}>Cannot reach your Mac</Text>
+            <Text style={styles.subtitle}>
+              Make sure the Claude Conduit daemon is running and your device can reach
+              it over the network.
+            </Text>
+          </>
+        )}
 
         <View style={styles.buttons}>
           <TouchableOpacity
@@ -57,6 +75,14 @@ export function ConnectionErrorScreen() {
               <Text style={styles.primaryButtonText}>Retry</Text>
             )}
           </TouchableOpacity>
+          {certMismatch && (
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={handleRepair}
+              activeOpacity={0.7}>
+              <Text style={styles.secondaryButtonText}>Pair Again</Text>
+            </TouchableOpacity>
+          )}
         </View>
 
         <Text style={styles.hint}>Auto-retrying with backoff...</Text>
@@ -121,6 +147,16 @@ const styles = StyleSheet.create({
     fontSize: fontSize.md,
     fontWeight: '600',
   },
+  secondaryButton: {
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.lg,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: colors.textSecondary,
+    fontSize: fontSize.md,
+    fontWeight: '500',
+  },
   hint: {
     fontSize: fontSize.xs,
     color: colors.textMuted,
@@ -15,7 +15,10 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { colors, spacing, fontSize, borderRadius, fontFamily } from '../theme';
 import { useSessionsStore } from '../stores/sessions';
 import { useConnectionStore } from '../stores/connection';
-import type { Session } from '../types/session';
+import { RelayError } from '../services/relay';
+import { PermissionBar } from '../components/PermissionBar';
+import { QuickReply } from '../components/QuickReply';
+import type { Session, PermissionDecision } from '../types/session';
 
 const PREVIEW_COUNT = 5;
 
@@ -28,6 +31,7 @@ const STATUS_CFG = {
 const CLAUDE_STATE_CFG = {
   thinking: { color: colors.accent, label: 'Thinking' },
   waiting: { color: colors.success, label: 'Waiting' },
+  needs_permission: { color: colors.warning, label: 'Needs approval' },
   idle: { color: colors.textMuted, label: 'Idle' },
   unknown: { color: colors.textMuted, label: '' },
 } as const;
@@ -83,6 +87,9 @@ export function SessionListScreen({
   const [expanded, setExpanded] = useState<Record<string, boolean>>({});
   const [showAll, setShowAll] = useState<Record<string, boolean>>({});
   const [killingSession, setKillingSession] = useState<string | null>(null);
+  const [answeringSession, setAnsweringSession] = useState<string | null>(null);
+  // Session whose quick-reply box is open
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
 
   // Debounce search to avoid re-rendering on every keystroke
   useEffect(() => {
@@ -135,7 +142,10 @@ export function SessionListScreen({
       if (nextState === 'active') {
         startSSE();
         fetchSessions();
-      } else {
+      } else if (nextState === 'background') {
+        // iOS suspends the app soon after; alerts on a locked phone come from
+        // the daemon's ntfy/Gotify push. Inactive (app switcher, Control
+        // Center) keeps streaming, so its banners are there on return.
         stopSSE();
       }
     });
@@ -313,6 +323,44 @@ export function SessionListScreen({
     [client, killingSession, fetchSessions],
   );
 
+  const handlePermission = useCallback(
+    async (sessionId: string, decision: PermissionDecision) => {
+      if (!client || answeringSession) return;
+      setAnsweringSession(sessionId);
+      try {
+        await client.answerPermission(sessionId, decision);
+        fetchSessions();
+      } catch (err) {
+        const msg = err instanceof RelayError ? `${err.message}\n\n${err.action}` : 'Failed to answer the prompt';
+        Alert.alert('Error', msg);
+        fetchSessions();
+      } finally {
+        setAnsweringSession(null);
+      }
+    },
+    [client, answeringSession, fetchSessions],
+  );
+
+  const toggleReply = useCallback((sessionId: string) => {
+    setReplyingTo(prev => (prev === sessionId ? null : sessionId));
+  }, []);
+
+  const handleReply = useCallback(
+    async (sessionId: string, text: string) => {
+      if (!client) return;
+      try {
+        await client.sendInput(sessionId, text);
+        setReplyingTo(null);
+        fetchSessions();
+      } catch (err) {
+        const msg = err instanceof RelayError ? `${err.message}\n\n${err.action}` : 'Failed to send reply';
+        Alert.alert('Send Failed', msg);
+        throw err;
+      }
+    },
+    [client, fetchSessions],
+  );
+
   const renderItem = useCallback(
     ({ item }: { item: ListItem }) => {
       if (item.type === 'activeHeader') {
@@ -355,8 +403,26 @@ export function SessionListScreen({
               </Text>
               <Text style={styles.activeSessionMeta}>
                 {session.projectName} · {session.id.slice(0, 7)} · {formatTime(session.timestamp)} · {stateLabel}
+                {session.observerCount ? ` · ${session.observerCount} watching` : ''}
               </Text>
+              {session.pendingTool && (
+                <PermissionBar
+                  tool={session.pendingTool}
+                  busy={answeringSession === session.id}
+                  onAnswer={decision => handlePermission(session.id, decision)}
+                />
+              )}
+              {replyingTo === session.id && (
+                <QuickReply onSend={text => handleReply(session.id, text)} />
+              )}
             </View>
+            <TouchableOpacity
+              style={styles.replyBtn}
+              onPress={() => toggleReply(session.id)}
+              activeOpacity={0.5}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+              <Text style={styles.replyIcon}>↩</Text>
+            </TouchableOpacity>
             <TouchableOpacity
               style={styles.killBtn}
               onPress={() => handleKill(session.id)}
@@ -445,6 +511,13 @@ export function SessionListScreen({
                 {label}
               </Text>
               <View style={styles.rowSpacer} />
+              <TouchableOpacity
+                style={styles.replyBtn}
+                onPress={() => toggleReply(session.id)}
+                activeOpacity={0.5}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                <Text style={styles.replyIcon}>↩</Text>
+              </TouchableOpacity>
               {hasTmux && (
                 <TouchableOpacity
                   style={styles.killBtn}
@@ -455,11 +528,21 @@ export function SessionListScreen({
                 </TouchableOpacity>
               )}
             </View>
+            {hasTmux && session.pendingTool && (
+              <PermissionBar
+                tool={session.pendingTool}
+                busy={answeringSession === session.id}
+                onAnswer={decision => handlePermission(session.id, decision)}
+              />
+            )}
+            {replyingTo === session.id && (
+              <QuickReply onSend={text => handleReply(session.id, text)} />
+            )}
           </View>
         </TouchableOpacity>
       );
     },
-    [expanded, showAll, onSelectSession, toggleExpand, handleKill, handleKillAll, killingAll],
+    [expanded, showAll, onSelectSession, toggleExpand, handleKill, handleKillAll, killingAll, handlePermission, answeringSession, replyingTo, toggleReply, handleReply],
   );
 
   const keyExtractor = useCallback((item: ListItem) => {
@@ -883,6 +966,17 @@ const styles = StyleSheet.create({
     color: colors.error,
     fontWeight: '700',
   },
+  replyBtn: {
+    width: 28,
+    height: 28,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  replyIcon: {
+    fontSize: 16,
+    color: colors.accent,
+    fontWeight: '700',
+  },
 
   // ── Show more ──
   showMoreText: {
@@ -1,20 +1,37 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   TouchableOpacity,
   Alert,
+  ScrollView,
+  Switch,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { colors, spacing, fontSize, borderRadius, fontFamily } from '../theme';
 import { useConnectionStore } from '../stores/connection';
+import { useSessionsStore, projectKey } from '../stores/sessions';
 import { clearConfig } from '../services/storage';
 
-export function SettingsScreen({ onBack }: { onBack: () => void }) {
+export function SettingsScreen({
+  onBack,
+  onOpenUsage,
+}: {
+  onBack: () => void;
+  onOpenUsage: () => void;
+}) {
   const { daemonHost, status, reset } = useConnectionStore();
+  const { sessions, mutedProjects, toggleProjectMute } = useSessionsStore();
   const insets = useSafeAreaInsets();
 
+  // One row per project with sessions, alphabetically
+  const projects = useMemo(() => {
+    const byKey = new Map<string, string>();
+    for (const session of sessions) byKey.set(projectKey(session), session.projectName);
+    return [...byKey].sort((a, b) => a[1].localeCompare(b[1]));
+  }, [sessions]);
+
   const handleDisconnect = () => {
     Alert.alert(
       'Disconnect',
@@ -43,49 +60,91 @@ export function SettingsScreen({ onBack }: { onBack: () => void }) {
         <View style={styles.headerRight} />
       </View>
 
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Connection</Text>
+      <ScrollView contentContainerStyle={{ paddingBottom: insets.bottom + spacing.lg }}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Connection</Text>
+
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Daemon</Text>
+            <Text style={styles.rowValue}>{daemonHost}</Text>
+          </View>
 
-        <View style={styles.row}>
-          <Text style={styles.rowLabel}>Daemon</Text>
-          <Text style={styles.rowValue}>{daemonHost}</Text>
+          {status && (
+            <>
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>Daemon version</Text>
+                <Text style={styles.rowValue}>v{status.version}</Text>
+              </View>
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>Claude CLI</Text>
+                <Text style={styles.rowValue}>{status.claude}</Text>
+              </View>
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>Active tmux</Text>
+                <Text style={styles.rowValue}>
+                  {status.tmuxSessions.length} session
+                  {status.tmuxSessions.length !== 1 ? 's' : ''}
+                </Text>
+              </View>
+              {!!status.authLockouts?.last24h && (
+                <View style={styles.row}>
+                  <Text style={styles.rowLabel}>Auth lockouts (24h)</Text>
+                  <Text style={[styles.rowValue, styles.rowValueWarning]}>
+                    {status.authLockouts.last24h}
+                    {status.authLockouts.active > 0
+                      ? ` (${status.authLockouts.active} active)`
+                      : ''}
+                  </Text>
+                </View>
+              )}
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>Uptime</Text>
+                <Text style={styles.rowValue}>
+                  {formatUptime(status.uptime)}
+                </Text>
+              </View>
+            </>
+          )}
         </View>
 
-        {status && (
-          <>
-            <View style={styles.row}>
-              <Text style={styles.rowLabel}>Daemon version</Text>
-              <Text style={styles.rowValue}>v{status.version}</Text>
-            </View>
-            <View style={styles.row}>
-              <Text style={styles.rowLabel}>Claude CLI</Text>
-              <Text style={styles.rowValue}>{status.claude}</Text>
-            </View>
-            <View style={styles.row}>
-              <Text style={styles.rowLabel}>Active tmux</Text>
-              <Text style={styles.rowValue}>
-                {status.tmuxSessions.length} session
-                {status.tmuxSessions.length !== 1 ? 's' : ''}
-              </Text>
-            </View>
-            <View style={styles.row}>
-              <Text style={styles.rowLabel}>Uptime</Text>
-              <Text style={styles.rowValue}>
-                {formatUptime(status.uptime)}
-              </Text>
-            </View>
-          </>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Usage</Text>
+          <TouchableOpacity style={styles.row} onPress={onOpenUsage} activeOpacity={0.7}>
+            <Text style={styles.rowLabel}>Tokens & cost</Text>
+            <Text style={styles.rowChevron}>›</Text>
+          </TouchableOpacity>
+        </View>
+
+        {projects.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Notifications</Text>
+            <Text style={styles.sectionHint}>
+              Alerts when Claude finishes or needs approval in these projects
+            </Text>
+            {projects.map(([key, name]) => (
+              <View key={key} style={styles.row}>
+                <Text style={[styles.rowLabel, styles.projectName]} numberOfLines={1}>
+                  {name}
+                </Text>
+                <Switch
+                  value={!mutedProjects.includes(key)}
+                  onValueChange={() => toggleProjectMute(key)}
+                  trackColor={{ true: colors.accent, false: colors.border }}
+                />
+              </View>
+            ))}
+          </View>
         )}
-      </View>
 
-      <View style={styles.section}>
-        <TouchableOpacity
-          style={styles.dangerButton}
-          onPress={handleDisconnect}
-          activeOpacity={0.8}>
-          <Text style={styles.dangerButtonText}>Disconnect & Reset</Text>
-        </TouchableOpacity>
-      </View>
+        <View style={styles.section}>
+          <TouchableOpacity
+            style={styles.dangerButton}
+            onPress={handleDisconnect}
+            activeOpacity={0.8}>
+            <Text style={styles.dangerButtonText}>Disconnect & Reset</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
     </View>
   );
 }
@@ -146,6 +205,12 @@ const styles = StyleSheet.create({
     padding: spacing.md,
     paddingBottom: spacing.sm,
   },
+  sectionHint: {
+    fontSize: fontSize.sm,
+    color: colors.textMuted,
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.sm,
+  },
   row: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -159,11 +224,22 @@ const styles = StyleSheet.create({
     fontSize: fontSize.md,
     color: colors.textPrimary,
   },
+  projectName: {
+    flex: 1,
+    marginRight: spacing.md,
+  },
   rowValue: {
     fontSize: fontSize.md,
     color: colors.textSecondary,
     fontFamily: fontFamily.mono,
   },
+  rowChevron: {
+    fontSize: fontSize.lg,
+    color: colors.textMuted,
+  },
+  rowValueWarning: {
+    color: colors.warning,
+  },
   dangerButton: {
     padding: spacing.md,
     alignItems: 'center',
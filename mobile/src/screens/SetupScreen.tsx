@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -9,22 +9,36 @@ import {
   ActivityIndicator,
   KeyboardAvoidingView,
   Platform,
+  Linking,
 } from 'react-native';
 import { colors, spacing, fontSize, borderRadius } from '../theme';
 import { useConnectionStore } from '../stores/connection';
-import { RelayClient } from '../services/relay';
+import { RelayClient, RelayError } from '../services/relay';
+import { parsePairingLink } from '../services/pairing';
+import { certificateFingerprint } from '../services/pinnedNetwork';
 import type { DaemonStatus } from '../types/session';
 
+type AuthMode = 'code' | 'key';
+
 interface CheckItem {
   label: string;
   status: 'pending' | 'checking' | 'pass' | 'fail';
   detail?: string;
 }
 
+function deviceName(): string {
+  if (Platform.OS === 'ios') return Platform.isPad ? 'iPad' : 'iPhone';
+  return 'Android';
+}
+
 export function SetupScreen() {
   const { configure } = useConnectionStore();
+  const [mode, setMode] = useState<AuthMode>('code');
   const [host, setHost] = useState('');
   const [psk, setPsk] = useState('');
+  const [pairingCode, setPairingCode] = useState('');
+  // Certificate fingerprint from the pairing link, pinned on connect
+  const [linkFingerprint, setLinkFingerprint] = useState<string | null>(null);
   const [checks, setChecks] = useState<CheckItem[]>([
     { label: 'Mac reachable', status: 'pending' },
     { label: 'Relay daemon running', status: 'pending' },
@@ -33,12 +47,128 @@ export function SetupScreen() {
   const [daemonStatus, setDaemonStatus] = useState<DaemonStatus | null>(null);
   const [isValidating, setIsValidating] = useState(false);
 
+  // Fill host + code from a pairing link (QR scan via camera, or pasted)
+  const applyPairingLink = useCallback((text: string | null): boolean => {
+    const link = text ? parsePairingLink(text) : null;
+    if (!link) return false;
+    setMode('code');
+    setHost(link.daemonHost);
+    setPairingCode(link.code);
+    setLinkFingerprint(link.fingerprint);
+    return true;
+  }, []);
+
+  useEffect(() => {
+    Linking.getInitialURL().then(applyPairingLink).catch(() => {});
+    const sub = Linking.addEventListener('url', ({ url }) => applyPairingLink(url));
+    return () => sub.remove();
+  }, [applyPairingLink]);
+
+  const handleHostChange = (text: string) => {
+    if (!applyPairingLink(text)) {
+      setHost(text);
+      setLinkFingerprint(null);
+    }
+  };
+
   const updateCheck = (index: number, update: Partial<CheckItem>) => {
     setChecks(prev =>
       prev.map((c, i) => (i === index ? { ...c, ...update } : c)),
     );
   };
 
+  const pairWithCode = async (client: RelayClient): Promise<string | null> => {
+    if (!pairingCode.trim()) {
+      updateCheck(2, {
+        status: 'fail',
+        detail: 'Enter the pairing code shown by `npm run pair`',
+      });
+      return null;
+    }
+    try {
+      const registration = await client.exchangePairingCode(pairingCode.trim(), deviceName());
+      return registration.credential;
+    } catch (err) {
+      updateCheck(2, {
+        status: 'fail',
+        detail: err instanceof Error ? err.message : 'Pairing failed',
+      });
+      return null;
+    }
+  };
+
+  const registerWithKey = async (client: RelayClient): Promise<string | null> => {
+    if (!psk.trim()) {
+      updateCheck(2, {
+        status: 'fail',
+        detail: 'Enter the relay key from your daemon config',
+      });
+      return null;
+    }
+    try {
+      await client.getSessions();
+    } catch {
+      updateCheck(2, {
+        status: 'fail',
+        detail: 'Invalid relay key — check ~/.config/claude-conduit/config.yaml',
+      });
+      return null;
+    }
+
+    // Exchange the PSK for a per-device credential so the daemon can tell
+    // devices apart and revoke this one individually. Older daemons without
+    // a device registry return 404 — keep using the PSK in that case.
+    try {
+      const registration = await client.registerDevice(deviceName());
+      return registration.credential;
+    } catch (err) {
+      if (err instanceof RelayError && err.status === 404) return psk;
+      updateCheck(2, {
+        status: 'fail',
+        detail: err instanceof Error ? err.message : 'Device registration failed',
+      });
+      return null;
+    }
+  };
+
+  /**
+   * Work out the daemon's base URL and the certificate to pin. A pairing link
+   * with tls=1 names the certificate; otherwise a daemon that speaks TLS has
+   * its certificate pinned on first use. Plain HTTP is only used when asked
+   * for, or when nothing answers TLS and no link said it would.
+   */
+  const resolveHost = async (): Promise<
+    { daemonHost: string; fingerprint: string | null } | { error: string }
+  > => {
+    const trimmed = host.trim();
+    if (/^http:\/\//.test(trimmed) && !linkFingerprint) {
+      return (await new RelayClient(trimmed, psk).ping(5000))
+        ? { daemonHost: trimmed, fingerprint: null }
+        : { error: `Cannot reach ${trimmed} — is the daemon running?` };
+    }
+
+    const hostPort = trimmed.replace(/^https?:\/\//, '');
+    let presented: string | null = null;
+    try {
+      presented = await certificateFingerprint(`https://${hostPort}/api/status`);
+    } catch {
+      // Nothing answered TLS there
+    }
+
+    if (presented) {
+      if (linkFingerprint && presented !== linkFingerprint) {
+        return { error: 'Certificate does not match the pairing code — scan it again on the right Mac' };
+      }
+      return { daemonHost: `https://${hostPort}`, fingerprint: presented };
+    }
+    if (linkFingerprint || trimmed.startsWith('https://')) {
+      return { error: `Cannot reach ${hostPort} over TLS — is the daemon running?` };
+    }
+    return (await new RelayClient(`http://${hostPort}`, psk).ping(5000))
+      ? { daemonHost: `http://${hostPort}`, fingerprint: null }
+      : { error: `Cannot reach ${hostPort} — is the daemon running?` };
+  };
+
   const validate = async () => {
     setIsValidating(true);
 
@@ -47,19 +177,21 @@ export function SetupScreen() {
 
     // Check 1: Reachable
     updateCheck(0, { status: 'checking' });
-    const client = new RelayClient(host, psk);
-    const reachable = await client.ping(5000);
-    if (!reachable) {
-      updateCheck(0, {
-        status: 'fail',
-        detail: `Cannot reach ${host} — is the daemon running?`,
-      });
+    const resolved = await resolveHost();
+    if ('error' in resolved) {
+      updateCheck(0, { status: 'fail', detail: resolved.error });
       setIsValidating(false);
       return;
     }
-    updateCheck(0, { status: 'pass' });
+    const { daemonHost, fingerprint } = resolved;
+    updateCheck(0, {
+      status: 'pass',
+      detail: fingerprint ? undefined : 'Unencrypted — set tls.enabled in the daemon config to encrypt',
+    });
 
-    // Check 2: Daemon running
+    // Check 2: Daemon running. From here on every request is pinned to the
+    // certificate seen above, so a swapped one fails the handshake.
+    const client = new RelayClient(daemonHost, psk, fingerprint);
     updateCheck(1, { status: 'checking' });
     try {
       const status = await client.getStatus();
@@ -68,39 +200,33 @@ export function SetupScreen() {
         status: 'pass',
         detail: `v${status.version}, Claude ${status.claude}`,
       });
-    } catch {
+    } catch (err) {
       updateCheck(1, {
         status: 'fail',
-        detail: 'Daemon responded but status check failed',
+        detail:
+          err instanceof RelayError && err.code === 'CERT_MISMATCH'
+            ? err.message
+            : 'Daemon responded but status check failed',
       });
       setIsValidating(false);
       return;
     }
 
-    // Check 3: Auth
+    // Check 3: Auth — either trade a pairing code for a device credential,
+    // or verify the relay key and register this device with it.
     updateCheck(2, { status: 'checking' });
-    if (!psk.trim()) {
-      updateCheck(2, {
-        status: 'fail',
-        detail: 'Enter the relay key from your daemon config',
-      });
-      setIsValidating(false);
-      return;
-    }
-    try {
-      await client.getSessions();
-      updateCheck(2, { status: 'pass' });
-    } catch {
-      updateCheck(2, {
-        status: 'fail',
-        detail: 'Invalid relay key — check ~/.config/claude-conduit/config.yaml',
-      });
+    const credential =
+      mode === 'code'
+        ? await pairWithCode(client)
+        : await registerWithKey(client);
+    if (!credential) {
       setIsValidating(false);
       return;
     }
+    updateCheck(2, { status: 'pass' });
 
     // All passed — save and continue
-    await configure(host, psk);
+    await configure(daemonHost, credential, fingerprint);
     setIsValidating(false);
   };
 
@@ -126,7 +252,7 @@ export function SetupScreen() {
           <TextInput
             style={styles.input}
             value={host}
-            onChangeText={setHost}
+            onChangeText={handleHostChange}
             placeholder="192.168.1.x:7860"
             placeholderTextColor={colors.textMuted}
             autoCapitalize="none"
@@ -135,21 +261,50 @@ export function SetupScreen() {
           />
         </View>
 
-        {/* PSK input */}
-        <View style={styles.field}>
-          <Text style={styles.label}>Relay key</Text>
-          <TextInput
-            style={styles.input}
-            value={psk}
-            onChangeText={setPsk}
-            placeholder="From ~/.config/claude-conduit/config.yaml"
-            placeholderTextColor={colors.textMuted}
-            autoCapitalize="none"
-            autoCorrect={false}
-            secureTextEntry
-          />
+        {/* Auth mode toggle */}
+        <View style={styles.modeToggle}>
+          {(['code', 'key'] as const).map(m => (
+            <TouchableOpacity
+              key={m}
+              style={[styles.modeOption, mode === m && styles.modeOptionActive]}
+              onPress={() => setMode(m)}
+              activeOpacity={0.8}>
+              <Text style={[styles.modeText, mode === m && styles.modeTextActive]}>
+                {m === 'code' ? 'Pairing code' : 'Relay key'}
+              </Text>
+            </TouchableOpacity>
+          ))}
         </View>
 
+        {mode === 'code' ? (
+          <View style={styles.field}>
+            <Text style={styles.label}>Pairing code</Text>
+            <TextInput
+              style={styles.input}
+              value={pairingCode}
+              onChangeText={setPairingCode}
+              placeholder="Run `npm run pair` on your Mac"
+              placeholderTextColor={colors.textMuted}
+              autoCapitalize="characters"
+              autoCorrect={false}
+            />
+          </View>
+        ) : (
+          <View style={styles.field}>
+            <Text style={styles.label}>Relay key</Text>
+            <TextInput
+              style={styles.input}
+              value={psk}
+              onChangeText={setPsk}
+              placeholder="From ~/.config/claude-conduit/config.yaml"
+              placeholderTextColor={colors.textMuted}
+              autoCapitalize="none"
+              autoCorrect={false}
+              secureTextEntry
+            />
+          </View>
+        )}
+
         {/* Checklist */}
         <View style={styles.checklist}>
           {checks.map((check, i) => (
@@ -262,6 +417,32 @@ const styles = StyleSheet.create({
     color: colors.textPrimary,
     fontFamily: 'Menlo',
   },
+  modeToggle: {
+    flexDirection: 'row',
+    backgroundColor: colors.bgInput,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 2,
+    marginBottom: spacing.md,
+  },
+  modeOption: {
+    flex: 1,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.sm,
+    alignItems: 'center',
+  },
+  modeOptionActive: {
+    backgroundColor: colors.bgSurface,
+  },
+  modeText: {
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+    color: colors.textMuted,
+  },
+  modeTextActive: {
+    color: colors.textPrimary,
+  },
   checklist: {
     backgroundColor: colors.bgElevated,
     borderRadius: borderRadius.md,
@@ -16,27 +16,50 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { WebView, type WebViewMessageEvent } from 'react-native-webview';
 import { colors, spacing, fontSize, borderRadius } from '../theme';
 import { useConnectionStore } from '../stores/connection';
-import type { Session } from '../types/session';
+import { RelayError } from '../services/relay';
+import { PinnedWebSocket } from '../services/pinnedNetwork';
+import type { Session, AttachMode } from '../types/session';
 import { XTERM_JS, XTERM_CSS, FIT_ADDON_JS, WEB_LINKS_ADDON_JS } from '../assets/xterm/xterm-bundle';
 
-type TerminalState = 'connecting' | 'attached' | 'error' | 'disconnected' | 'reconnecting';
+type TerminalState =
+  | 'connecting'
+  | 'attached'
+  | 'error'
+  | 'disconnected'
+  | 'reconnecting'
+  | 'takenOver';
+
+// Close code the daemon uses when another device takes over the session
+const TAKEOVER_CLOSE_CODE = 4410;
 
 const MAX_RECONNECT = 3;
+// xterm scrollback — also how much pane history we ask the daemon to replay
+const TERMINAL_SCROLLBACK = 5000;
 
 export function TerminalScreen({
   session,
   attachToken: preAttachToken,
   onBack,
+  onOpenChat,
 }: {
   session: Session;
   attachToken?: string;
   onBack: () => void;
+  /** Switch to the structured chat view of this session. */
+  onOpenChat?: () => void;
 }) {
   const { client } = useConnectionStore();
   const webViewRef = useRef<WebView>(null);
   const inputRef = useRef<TextInput>(null);
   const [state, setState] = useState<TerminalState>('connecting');
   const [errorMsg, setErrorMsg] = useState('');
+  const [errorCode, setErrorCode] = useState<string | null>(null);
+  // 'observe' = view-only, offered when another device already has control
+  const [mode, setMode] = useState<AttachMode>('control');
+  const isObserver = mode === 'observe';
+  // Next attach should evict the current controller
+  const takeoverRef = useRef(false);
+  const [takenOverBy, setTakenOverBy] = useState<string | null>(null);
   const [inputText, setInputText] = useState('');
   const [reconnectCount, setReconnectCount] = useState(0);
   const [keyboardHeight, setKeyboardHeight] = useState(0);
@@ -47,7 +70,15 @@ export function TerminalScreen({
   const insets = useSafeAreaInsets();
 
   const [wsUrl, setWsUrl] = useState<string | null>(null);
+  const wsUrlRef = useRef<string | null>(null);
   const attachedRef = useRef(false);
+  // The terminal's socket when the daemon's certificate is pinned — opened
+  // natively, since the WebView's own WebSocket can't check the pin
+  const socketRef = useRef<PinnedWebSocket | null>(null);
+
+  useEffect(() => {
+    wsUrlRef.current = wsUrl;
+  }, [wsUrl]);
 
   const doAttach = useCallback(async () => {
     if (!client) {
@@ -70,25 +101,40 @@ export function TerminalScreen({
       // and haven't used it yet, skip the attach API call and connect directly.
       if (preAttachToken && !usedPreToken.current) {
         usedPreToken.current = true;
-        const url = client.terminalWsUrl(session.id, preAttachToken, defaultCols, defaultRows);
+        const url = client.terminalWsUrl(
+          session.id,
+          preAttachToken,
+          defaultCols,
+          defaultRows,
+          TERMINAL_SCROLLBACK,
+        );
         setWsUrl(url);
         return;
       }
 
-      const result = await client.attach(session.id);
+      const result = await client.attach(session.id, mode, takeoverRef.current);
+      takeoverRef.current = false;
       const url = client.terminalWsUrl(
         session.id,
         result.attachToken,
         defaultCols,
         defaultRows,
+        TERMINAL_SCROLLBACK,
       );
-      setWsUrl(url);
+      if (wsUrlRef.current && webViewRef.current) {
+        // Reconnect inside the live terminal so it resumes from the last
+        // byte it received instead of starting over
+        webViewRef.current.injectJavaScript(`window.connect(${JSON.stringify(url)}); true;`);
+      } else {
+        setWsUrl(url);
+      }
     } catch (err) {
       attachedRef.current = false; // Allow retry on error
       setState('error');
+      setErrorCode(err instanceof RelayError ? err.code : null);
       setErrorMsg(err instanceof Error ? err.message : 'Failed to attach');
     }
-  }, [client, session.id, preAttachToken]);
+  }, [client, session.id, preAttachToken, mode]);
 
   useEffect(() => {
     attachedRef.current = false; // Reset on mount
@@ -103,7 +149,9 @@ export function TerminalScreen({
     return () => {
       cancelled = true;
       // Close the WebSocket inside the WebView before unmount
-      webViewRef.current?.injectJavaScript('if(window._ws) window._ws.close(); true;');
+      webViewRef.current?.injectJavaScript('if(window._ws) window._ws.close(1000); true;');
+      socketRef.current?.close(1000);
+      socketRef.current = null;
       if (reconnectTimer.current) clearTimeout(reconnectTimer.current);
       if (focusTimer.current) clearTimeout(focusTimer.current);
     };
@@ -113,15 +161,44 @@ export function TerminalScreen({
     try {
       const msg = JSON.parse(event.nativeEvent.data);
       switch (msg.type) {
+        case 'socket-open': {
+          if (!client?.certFingerprint) break;
+          socketRef.current?.close(1000);
+          const socket = new PinnedWebSocket(msg.url, client.certFingerprint, socketEvent => {
+            if (socketRef.current !== socket) return; // Replaced by a reconnect
+            webViewRef.current?.injectJavaScript(
+              `window.socketEvent(${JSON.stringify(socketEvent)}); true;`,
+            );
+          });
+          socketRef.current = socket;
+          break;
+        }
+        case 'socket-send':
+          socketRef.current?.send(
+            typeof msg.base64 === 'string' ? { base64: msg.base64 } : { text: msg.text },
+          );
+          break;
+        case 'socket-close':
+          socketRef.current?.close(msg.code);
+          break;
         case 'connected':
           setState('attached');
           setReconnectCount(0);
-          focusTimer.current = setTimeout(() => inputRef.current?.focus(), 500);
+          if (!isObserver) {
+            focusTimer.current = setTimeout(() => inputRef.current?.focus(), 500);
+          }
           break;
+        case 'takeover': {
+          const by = msg.by as { device: string | null; ip: string } | undefined;
+          setTakenOverBy(by ? by.device ?? by.ip : null);
+          break;
+        }
         case 'disconnected': {
           const code = msg.code as number | undefined;
-          // Don't reconnect on auth/conflict errors (4xxx)
-          if (code && code >= 4400 && code < 4500) {
+          if (code === TAKEOVER_CLOSE_CODE) {
+            setState('takenOver');
+          } else if (code && code >= 4400 && code < 4500) {
+            // Don't reconnect on auth/conflict errors (4xxx)
             setState('error');
             setErrorMsg(msg.reason || `Connection refused (code ${code})`);
           } else if (reconnectCount < MAX_RECONNECT) {
@@ -129,7 +206,7 @@ export function TerminalScreen({
             const delay = Math.min(1000 * Math.pow(2, reconnectCount), 10000);
             reconnectTimer.current = setTimeout(() => {
               setReconnectCount(c => c + 1);
-              setWsUrl(null);
+              // Keep the WebView — doAttach reconnects it in place to resume
               attachedRef.current = false;
               doAttach();
             }, delay);
@@ -146,7 +223,7 @@ export function TerminalScreen({
     } catch {
       // ignore non-JSON messages
     }
-  }, [reconnectCount, doAttach]);
+  }, [reconnectCount, doAttach, isObserver, client]);
 
   // Send data to the WebView's WebSocket
   const sendToTerminal = useCallback(
@@ -199,6 +276,30 @@ export function TerminalScreen({
     webViewRef.current?.injectJavaScript('window.scrollToBottom(); true;');
   }, [sendToTerminal]);
 
+  // Another device has control — join view-only instead.
+  // Changing mode recreates doAttach, which re-runs the attach effect.
+  const handleWatch = useCallback(() => {
+    setErrorCode(null);
+    setState('connecting');
+    setWsUrl(null);
+    setMode('observe');
+  }, []);
+
+  // Another device has control — evict it and take the terminal
+  const handleTakeOver = useCallback(() => {
+    setErrorCode(null);
+    setTakenOverBy(null);
+    setState('connecting');
+    setWsUrl(null);
+    attachedRef.current = false;
+    takeoverRef.current = true;
+    if (mode === 'control') {
+      doAttach();
+    } else {
+      setMode('control');
+    }
+  }, [mode, doAttach]);
+
   // Manual reconnect
   const handleReconnect = useCallback(() => {
     setReconnectCount(0);
@@ -211,8 +312,8 @@ export function TerminalScreen({
   // Memoize HTML — only rebuild when wsUrl changes (new connection).
   // Terminal sizing is handled entirely inside the WebView via ResizeObserver.
   const terminalHtml = useMemo(
-    () => getTerminalHtml(wsUrl ?? '', width),
-    [wsUrl, width],
+    () => getTerminalHtml(wsUrl ?? '', width, !!client?.certFingerprint),
+    [wsUrl, width, client],
   );
 
   // Track keyboard height — adjusts container padding so WebView shrinks,
@@ -258,7 +359,7 @@ export function TerminalScreen({
               {state === 'connecting'
                 ? 'Connecting...'
                 : state === 'attached'
-                  ? 'Connected'
+                  ? isObserver ? 'Watching (view-only)' : 'Connected'
                   : state === 'error'
                     ? 'Error'
                     : 'Disconnected'}
@@ -266,11 +367,16 @@ export function TerminalScreen({
           </View>
         </View>
         <View style={styles.headerRight}>
-          {state === 'attached' && (
+          {state === 'attached' && !isObserver && (
             <TouchableOpacity onPress={clearScreen} activeOpacity={0.7}>
               <Text style={styles.headerAction}>Clear</Text>
             </TouchableOpacity>
           )}
+          {onOpenChat && (
+            <TouchableOpacity onPress={onOpenChat} activeOpacity={0.7}>
+              <Text style={styles.headerAction}>Chat</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </View>
 
@@ -291,11 +397,64 @@ export function TerminalScreen({
             <Text style={styles.overlayIcon}>⚠</Text>
             <Text style={styles.overlayTitle}>Connection Failed</Text>
             <Text style={styles.overlayText}>{errorMsg}</Text>
+            {errorCode === 'SESSION_ATTACHED' && (
+              <>
+                <TouchableOpacity
+                  style={styles.retryButton}
+                  onPress={handleTakeOver}
+                  activeOpacity={0.8}>
+                  <Text style={styles.retryButtonText}>Take Over</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.secondaryButton}
+                  onPress={handleWatch}
+                  activeOpacity={0.8}>
+                  <Text style={styles.secondaryButtonText}>Watch Instead</Text>
+                </TouchableOpacity>
+              </>
+            )}
+            <TouchableOpacity
+              style={errorCode === 'SESSION_ATTACHED' ? styles.secondaryButton : styles.retryButton}
+              onPress={onBack}
+              activeOpacity={0.8}>
+              <Text
+                style={
+                  errorCode === 'SESSION_ATTACHED'
+                    ? styles.secondaryButtonText
+                    : styles.retryButtonText
+                }>
+                Go Back
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {state === 'takenOver' && (
+          <View style={styles.overlay}>
+            <Text style={styles.overlayIcon}>⇄</Text>
+            <Text style={styles.overlayTitle}>Taken Over</Text>
+            <Text style={styles.overlayText}>
+              {takenOverBy
+                ? `${takenOverBy} took control of this session.`
+                : 'Another device took control of this session.'}
+            </Text>
             <TouchableOpacity
               style={styles.retryButton}
+              onPress={handleTakeOver}
+              activeOpacity={0.8}>
+              <Text style={styles.retryButtonText}>Take Back</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={handleWatch}
+              activeOpacity={0.8}>
+              <Text style={styles.secondaryButtonText}>Watch</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.secondaryButton}
               onPress={onBack}
               activeOpacity={0.8}>
-              <Text style={styles.retryButtonText}>Go Back</Text>
+              <Text style={styles.secondaryButtonText}>Go Back</Text>
             </TouchableOpacity>
           </View>
         )}
@@ -349,7 +508,7 @@ export function TerminalScreen({
 
       {/* Hidden TextInput — captures keyboard input, sends to terminal.
           Positioned within viewport (opacity 0) so iOS handles blur/refocus correctly. */}
-      {state === 'attached' && (
+      {state === 'attached' && !isObserver && (
         <TextInput
           ref={inputRef}
           style={styles.hiddenInput}
@@ -374,7 +533,7 @@ export function TerminalScreen({
   );
 }
 
-function getTerminalHtml(wsUrl: string, screenWidth: number): string {
+function getTerminalHtml(wsUrl: string, screenWidth: number, nativeSocket: boolean): string {
   // Estimate initial cols from screen width (fitAddon.fit() will correct immediately)
   const estCols = Math.max(40, Math.floor((screenWidth - 16) / 8.4));
 
@@ -403,7 +562,7 @@ function getTerminalHtml(wsUrl: string, screenWidth: number): string {
   var term = new Terminal({
     cols: ${estCols},
     rows: 24,
-    scrollback: 5000,
+    scrollback: ${TERMINAL_SCROLLBACK},
     cursorBlink: true,
     cursorStyle: 'block',
     fontSize: 14,
@@ -483,11 +642,50 @@ function getTerminalHtml(wsUrl: string, screenWidth: number): string {
   window._fitAddon = fitAddon;
   var ws = null;
 
+  // Framed protocol v2 — binary frames start with a type byte
+  var FRAME_OUTPUT = 1, FRAME_INPUT = 2, FRAME_REPLAY = 3;
+  var ACK_BYTES = 256 * 1024;
+  // Output stream position, kept across reconnects so we can resume
+  var stream = null;
+  var nextSeq = 0;
+  var ackedSeq = 0;
+  var ackTimer = null;
+
+  function sendAck() {
+    clearTimeout(ackTimer);
+    ackTimer = null;
+    if (ws && ws.readyState === 1 && nextSeq > ackedSeq) {
+      ackedSeq = nextSeq;
+      ws.send(JSON.stringify({ type: 'ack', seq: nextSeq }));
+    }
+  }
+
+  function onFrame(data) {
+    var bytes = new Uint8Array(data);
+    if (bytes[0] === FRAME_OUTPUT) {
+      var view = new DataView(data);
+      var seq = view.getUint32(1) * 4294967296 + view.getUint32(5);
+      var payload = bytes.subarray(9);
+      // Skip anything already written before a reconnect
+      var skip = nextSeq - seq;
+      if (skip < payload.length) term.write(skip > 0 ? payload.subarray(skip) : payload);
+      nextSeq = Math.max(nextSeq, seq + payload.length);
+      if (nextSeq - ackedSeq >= ACK_BYTES) sendAck();
+      else if (!ackTimer) ackTimer = setTimeout(sendAck, 100);
+    } else if (bytes[0] === FRAME_REPLAY) {
+      term.write(bytes.subarray(1));
+    }
+  }
+
   // Send key from React Native keyboard input
   var encoder = new TextEncoder();
   window.sendKey = function(key) {
     if (ws && ws.readyState === 1) {
-      ws.send(encoder.encode(key));
+      var input = encoder.encode(key);
+      var frame = new Uint8Array(input.length + 1);
+      frame[0] = FRAME_INPUT;
+      frame.set(input, 1);
+      ws.send(frame);
     }
   };
 
@@ -495,38 +693,100 @@ function getTerminalHtml(wsUrl: string, screenWidth: number): string {
     term.scrollToBottom();
   };
 
-  if (!wsUrl) return;
-
-  ws = new WebSocket(wsUrl);
-  ws.binaryType = 'arraybuffer';
-  window._ws = ws;
+  // Stands in for WebSocket when the daemon's certificate is pinned: React
+  // Native opens the socket natively and relays frames via postMessage and
+  // window.socketEvent, with binary frames as base64.
+  var nativeSocket = ${nativeSocket ? 'true' : 'false'};
 
-  ws.onopen = function() {
-    // Fit to actual container size, then tell daemon the real dimensions
-    try {
-      fitAddon.fit();
-      lastCols = term.cols;
-      lastRows = term.rows;
-      ws.send(JSON.stringify({ type: 'resize', cols: term.cols, rows: term.rows }));
-    } catch(e) {}
-    notify({ type: 'connected' });
+  function NativeSocket(url) {
+    this.readyState = 0;
+    notify({ type: 'socket-open', url: url });
+  }
+  NativeSocket.prototype.send = function(data) {
+    if (typeof data === 'string') {
+      notify({ type: 'socket-send', text: data });
+      return;
+    }
+    var binary = '';
+    for (var i = 0; i < data.length; i++) binary += String.fromCharCode(data[i]);
+    notify({ type: 'socket-send', base64: btoa(binary) });
+  };
+  NativeSocket.prototype.close = function(code) {
+    notify({ type: 'socket-close', code: code || 1000 });
   };
 
-  ws.onmessage = function(ev) {
-    if (typeof ev.data === 'string') {
-      term.write(ev.data);
-    } else {
-      term.write(new Uint8Array(ev.data));
+  window.socketEvent = function(event) {
+    if (!ws || !(ws instanceof NativeSocket)) return;
+    if (event.type === 'open') {
+      ws.readyState = 1;
+      ws.onopen();
+    } else if (event.type === 'message') {
+      if (event.text !== undefined) {
+        ws.onmessage({ data: event.text });
+      } else {
+        var binary = atob(event.base64);
+        var bytes = new Uint8Array(binary.length);
+        for (var i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+        ws.onmessage({ data: bytes.buffer });
+      }
+    } else if (event.type === 'error') {
+      ws.onerror();
+    } else if (event.type === 'close') {
+      ws.readyState = 3;
+      ws.onclose({ code: event.code, reason: event.reason });
     }
   };
 
-  ws.onclose = function(ev) {
-    notify({ type: 'disconnected', code: ev.code, reason: ev.reason || '' });
-  };
+  function connect(url) {
+    if (stream) url += '&stream=' + encodeURIComponent(stream) + '&resume=' + nextSeq;
+    ws = nativeSocket ? new NativeSocket(url) : new WebSocket(url);
+    ws.binaryType = 'arraybuffer';
+    window._ws = ws;
 
-  ws.onerror = function() {
-    notify({ type: 'error', message: 'WebSocket error' });
-  };
+    ws.onopen = function() {
+      // Fit to actual container size, then tell daemon the real dimensions
+      try {
+        fitAddon.fit();
+        lastCols = term.cols;
+        lastRows = term.rows;
+        ws.send(JSON.stringify({ type: 'resize', cols: term.cols, rows: term.rows }));
+      } catch(e) {}
+      notify({ type: 'connected' });
+    };
+
+    ws.onmessage = function(ev) {
+      if (typeof ev.data === 'string') {
+        // Text frames are JSON control messages from the daemon
+        try {
+          var msg = JSON.parse(ev.data);
+          if (msg.type === 'hello') {
+            // Not resumed — the daemon starts over with a replay of the pane
+            if (!msg.resumed) term.reset();
+            stream = msg.stream;
+            nextSeq = msg.seq;
+            ackedSeq = msg.seq;
+          } else if (msg.type === 'takeover') {
+            notify({ type: 'takeover', by: msg.by });
+          }
+        } catch(e) {}
+      } else {
+        onFrame(ev.data);
+      }
+    };
+
+    ws.onclose = function(ev) {
+      notify({ type: 'disconnected', code: ev.code, reason: ev.reason || '' });
+    };
+
+    ws.onerror = function() {
+      notify({ type: 'error', message: 'WebSocket error' });
+    };
+  }
+
+  // React Native calls this with a fresh attach URL to reconnect in place
+  window.connect = connect;
+
+  if (wsUrl) connect(wsUrl);
 })();
 </script>
 </body>
@@ -594,8 +854,10 @@ const styles = StyleSheet.create({
     color: colors.textMuted,
   },
   headerRight: {
-    width: 60,
-    alignItems: 'flex-end',
+    width: 90,
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.md,
   },
   headerAction: {
     color: colors.accent,
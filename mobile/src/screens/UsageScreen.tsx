@@ -0,0 +1,513 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { colors, spacing, fontSize, borderRadius, fontFamily } from '../theme';
+import { useConnectionStore } from '../stores/connection';
+import { useSessionsStore } from '../stores/sessions';
+import type { TokenUsage, UsageReport, UsageTotals } from '../types/session';
+
+type Metric = 'cost' | 'tokens';
+
+const RANGES = [7, 30] as const;
+const CHART_HEIGHT = 120;
+const MAX_SESSIONS = 20;
+
+function totalTokens(tokens: TokenUsage): number {
+  return tokens.input + tokens.output + tokens.cacheWrite + tokens.cacheRead;
+}
+
+/** The number a bar shows. Unpriced cost counts as zero. */
+function metricValue(totals: UsageTotals, metric: Metric): number {
+  return metric === 'cost' ? totals.costUsd ?? 0 : totalTokens(totals.tokens);
+}
+
+function formatCost(usd: number | null): string {
+  if (usd === null) return '—';
+  return `$${usd >= 100 ? usd.toFixed(0) : usd.toFixed(2)}`;
+}
+
+function formatTokens(n: number): string {
+  if (n >= 1e9) return `${(n / 1e9).toFixed(1)}B`;
+  if (n >= 1e6) return `${(n / 1e6).toFixed(1)}M`;
+  if (n >= 1e3) return `${(n / 1e3).toFixed(1)}K`;
+  return String(n);
+}
+
+function formatMetric(totals: UsageTotals, metric: Metric): string {
+  return metric === 'cost' ? formatCost(totals.costUsd) : formatTokens(totalTokens(totals.tokens));
+}
+
+/** "Oct 19" from "2026-10-19". */
+function formatDay(day: string): string {
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+/** A row of mutually exclusive options. */
+function Segmented<T extends string | number>({
+  options,
+  value,
+  label,
+  onChange,
+}: {
+  options: readonly T[];
+  value: T;
+  label: (option: T) => string;
+  onChange: (option: T) => void;
+}) {
+  return (
+    <View style={styles.segmented}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={String(option)}
+          style={[styles.segment, option === value && styles.segmentActive]}
+          onPress={() => onChange(option)}
+          activeOpacity={0.7}>
+          <Text style={[styles.segmentText, option === value && styles.segmentTextActive]}>
+            {label(option)}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+/** A labelled horizontal bar, scaled against the largest in its list. */
+function BarRow({
+  title,
+  subtitle,
+  value,
+  fraction,
+}: {
+  title: string;
+  subtitle?: string;
+  value: string;
+  fraction: number;
+}) {
+  return (
+    <View style={styles.barRow}>
+      <View style={styles.barRowHeader}>
+        <Text style={styles.barRowTitle} numberOfLines={1}>
+          {title}
+        </Text>
+        <Text style={styles.barRowValue}>{value}</Text>
+      </View>
+      {subtitle ? (
+        <Text style={styles.barRowSubtitle} numberOfLines={1}>
+          {subtitle}
+        </Text>
+      ) : null}
+      <View style={styles.barTrack}>
+        <View style={[styles.barFill, { width: `${Math.max(fraction * 100, 1)}%` }]} />
+      </View>
+    </View>
+  );
+}
+
+export function UsageScreen({ onBack }: { onBack: () => void }) {
+  const { client } = useConnectionStore();
+  const { sessions } = useSessionsStore();
+  const insets = useSafeAreaInsets();
+  const [days, setDays] = useState<(typeof RANGES)[number]>(7);
+  const [metric, setMetric] = useState<Metric>('cost');
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  // Day whose figure is shown above the chart; defaults to the latest
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!client) return;
+    setIsLoading(true);
+    setError('');
+    try {
+      setReport(await client.getUsage(days));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load usage');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [client, days]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Sessions are all-time totals from the live list, so they need no fetch
+  const topSessions = useMemo(
+    () =>
+      sessions
+        .flatMap(session =>
+          session.usage && totalTokens(session.usage.tokens) > 0
+            ? [{ session, usage: session.usage }]
+            : [],
+        )
+        .sort((a, b) => metricValue(b.usage, metric) - metricValue(a.usage, metric))
+        .slice(0, MAX_SESSIONS),
+    [sessions, metric],
+  );
+
+  const dayMax = Math.max(...(report?.days.map(d => metricValue(d, metric)) ?? []), 0);
+  const projectMax = Math.max(...(report?.projects.map(p => metricValue(p, metric)) ?? []), 0);
+  const sessionMax = Math.max(...topSessions.map(s => metricValue(s.usage, metric)), 0);
+  const shownDay =
+    report?.days.find(d => d.day === selectedDay) ?? report?.days[report.days.length - 1];
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack} activeOpacity={0.7}>
+          <Text style={styles.backText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Usage</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      <View style={styles.controls}>
+        <Segmented
+          options={RANGES}
+          value={days}
+          label={d => `${d} days`}
+          onChange={d => {
+            setDays(d);
+            setSelectedDay(null);
+          }}
+        />
+        <Segmented
+          options={['cost', 'tokens'] as const}
+          value={metric}
+          label={m => (m === 'cost' ? 'Cost' : 'Tokens')}
+          onChange={setMetric}
+        />
+      </View>
+
+      {error ? (
+        <View style={styles.errorBanner}>
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      ) : null}
+
+      {!report && isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator color={colors.accent} size="large" />
+          <Text style={styles.loadingText}>Loading usage...</Text>
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={{ paddingBottom: insets.bottom + spacing.lg }}
+          refreshControl={
+            <RefreshControl refreshing={isLoading} onRefresh={load} tintColor={colors.accent} />
+          }>
+          {report && (
+            <>
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Last {days} days</Text>
+                <Text style={styles.total}>{formatMetric(report.total, metric)}</Text>
+                <Text style={styles.breakdown}>
+                  {formatTokens(report.total.tokens.input)} in ·{' '}
+                  {formatTokens(report.total.tokens.output)} out ·{' '}
+                  {formatTokens(report.total.tokens.cacheRead)} cache read ·{' '}
+                  {formatTokens(report.total.tokens.cacheWrite)} cache write
+                </Text>
+                {metric === 'cost' && report.unpricedModels.length > 0 && (
+                  <Text style={styles.note}>
+                    No price for {report.unpricedModels.join(', ')}. Add it under usage.prices in
+                    the daemon's config.yaml to include it in costs.
+                  </Text>
+                )}
+              </View>
+
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Per day</Text>
+                {shownDay && (
+                  <View style={styles.dayHeader}>
+                    <Text style={styles.dayLabel}>{formatDay(shownDay.day)}</Text>
+                    <Text style={styles.dayValue}>{formatMetric(shownDay, metric)}</Text>
+                  </View>
+                )}
+                <View style={styles.chart}>
+                  {report.days.map(d => {
+                    const value = metricValue(d, metric);
+                    const height = dayMax > 0 ? Math.max((value / dayMax) * CHART_HEIGHT, 2) : 2;
+                    return (
+                      <TouchableOpacity
+                        key={d.day}
+                        style={styles.chartColumn}
+                        onPress={() => setSelectedDay(d.day)}
+                        activeOpacity={0.7}>
+                        <View
+                          style={[
+                            styles.chartBar,
+                            d.day === shownDay?.day && styles.chartBarSelected,
+                            { height },
+                          ]}
+                        />
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                <View style={styles.chartAxis}>
+                  <Text style={styles.axisLabel}>{formatDay(report.from)}</Text>
+                  <Text style={styles.axisLabel}>{formatDay(report.to)}</Text>
+                </View>
+              </View>
+
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Per project</Text>
+                {report.projects.length === 0 ? (
+                  <Text style={styles.empty}>No usage in this period</Text>
+                ) : (
+                  report.projects.map(p => (
+                    <BarRow
+                      key={p.projectPath}
+                      title={p.projectName}
+                      subtitle={`${p.sessionCount} session${p.sessionCount !== 1 ? 's' : ''}`}
+                      value={formatMetric(p, metric)}
+                      fraction={projectMax > 0 ? metricValue(p, metric) / projectMax : 0}
+                    />
+                  ))
+                )}
+              </View>
+            </>
+          )}
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Per session · all time</Text>
+            {topSessions.length === 0 ? (
+              <Text style={styles.empty}>No usage recorded yet</Text>
+            ) : (
+              topSessions.map(({ session, usage }) => (
+                <BarRow
+                  key={session.id}
+                  title={session.projectName}
+                  subtitle={[usage.model, session.lastMessagePreview].filter(Boolean).join(' · ')}
+                  value={formatMetric(usage, metric)}
+                  fraction={sessionMax > 0 ? metricValue(usage, metric) / sessionMax : 0}
+                />
+              ))
+            )}
+          </View>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.bg,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    backgroundColor: colors.bgElevated,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    width: 60,
+  },
+  backText: {
+    color: colors.accent,
+    fontSize: fontSize.md,
+    fontWeight: '500',
+  },
+  title: {
+    fontSize: fontSize.lg,
+    fontWeight: '700',
+    color: colors.textPrimary,
+  },
+  headerRight: {
+    width: 60,
+  },
+  controls: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: spacing.sm,
+    marginHorizontal: spacing.lg,
+    marginTop: spacing.md,
+  },
+  segmented: {
+    flexDirection: 'row',
+    backgroundColor: colors.bgElevated,
+    borderRadius: borderRadius.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+    overflow: 'hidden',
+  },
+  segment: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs + 2,
+  },
+  segmentActive: {
+    backgroundColor: colors.accentMuted,
+  },
+  segmentText: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+  },
+  segmentTextActive: {
+    color: colors.accent,
+    fontWeight: '600',
+  },
+  errorBanner: {
+    backgroundColor: colors.errorMuted,
+    marginHorizontal: spacing.lg,
+    marginTop: spacing.sm,
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+  },
+  errorText: {
+    color: colors.error,
+    fontSize: fontSize.sm,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  loadingText: {
+    color: colors.textMuted,
+    fontSize: fontSize.md,
+  },
+  section: {
+    marginTop: spacing.lg,
+    marginHorizontal: spacing.lg,
+    paddingBottom: spacing.md,
+    backgroundColor: colors.bgElevated,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    overflow: 'hidden',
+  },
+  sectionTitle: {
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    padding: spacing.md,
+    paddingBottom: spacing.sm,
+  },
+  total: {
+    fontSize: fontSize.xxl,
+    fontWeight: '700',
+    color: colors.textPrimary,
+    fontFamily: fontFamily.mono,
+    paddingHorizontal: spacing.md,
+  },
+  breakdown: {
+    fontSize: fontSize.sm,
+    color: colors.textMuted,
+    paddingHorizontal: spacing.md,
+    marginTop: spacing.xs,
+  },
+  note: {
+    fontSize: fontSize.sm,
+    color: colors.warning,
+    paddingHorizontal: spacing.md,
+    marginTop: spacing.sm,
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  dayLabel: {
+    fontSize: fontSize.md,
+    color: colors.textPrimary,
+  },
+  dayValue: {
+    fontSize: fontSize.md,
+    color: colors.textSecondary,
+    fontFamily: fontFamily.mono,
+  },
+  chart: {
+    height: CHART_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 2,
+    paddingHorizontal: spacing.md,
+  },
+  chartColumn: {
+    flex: 1,
+    height: '100%',
+    justifyContent: 'flex-end',
+  },
+  chartBar: {
+    backgroundColor: colors.accentMuted,
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+  },
+  chartBarSelected: {
+    backgroundColor: colors.accent,
+  },
+  chartAxis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    marginTop: spacing.xs,
+  },
+  axisLabel: {
+    fontSize: fontSize.xs,
+    color: colors.textMuted,
+  },
+  barRow: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.borderLight,
+  },
+  barRowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  barRowTitle: {
+    flex: 1,
+    marginRight: spacing.md,
+    fontSize: fontSize.md,
+    color: colors.textPrimary,
+  },
+  barRowValue: {
+    fontSize: fontSize.md,
+    color: colors.textSecondary,
+    fontFamily: fontFamily.mono,
+  },
+  barRowSubtitle: {
+    fontSize: fontSize.xs,
+    color: colors.textMuted,
+    marginTop: 2,
+  },
+  barTrack: {
+    height: 6,
+    marginTop: spacing.xs,
+    backgroundColor: colors.bgSurface,
+    borderRadius: borderRadius.full,
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: '100%',
+    backgroundColor: colors.accent,
+    borderRadius: borderRadius.full,
+  },
+  empty: {
+    fontSize: fontSize.sm,
+    color: colors.textMuted,
+    paddingHorizontal: spacing.md,
+  },
+});
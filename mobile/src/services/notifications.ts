@@ -0,0 +1,25 @@
+import { toolSummary } from '../components/toolSummary';
+import type { Session } from '../types/session';
+
+/** A session that just finished its turn or stopped at a permission prompt. */
+export interface SessionAlert {
+  kind: 'waiting' | 'needs_permission';
+  session: Session;
+}
+
+/** Title and one-line body for an alert, shown in the in-app banner. */
+export function describeAlert(alert: SessionAlert): { title: string; body: string } {
+  const { session } = alert;
+  if (alert.kind === 'needs_permission') {
+    const tool = session.pendingTool;
+    const summary = tool ? toolSummary(tool.input) : '';
+    return {
+      title: `${session.projectName} needs approval`,
+      body: tool ? `${tool.name}${summary ? `: ${summary}` : ''}` : 'Claude is asking to use a tool',
+    };
+  }
+  return {
+    title: `${session.projectName} is waiting`,
+    body: session.lastMessagePreview || 'Claude finished and is waiting for you',
+  };
+}
@@ -0,0 +1,37 @@
+const PAIRING_LINK_RE = /^claude-conduit:\/\/pair\?(.+)$/;
+
+export interface PairingLink {
+  daemonHost: string;
+  code: string;
+  /** Certificate fingerprint to pin, present when the daemon serves TLS. */
+  fingerprint: string | null;
+}
+
+/**
+ * Parse a pairing link from the daemon's QR code, e.g.
+ * claude-conduit://pair?host=192.168.1.50&port=7860&code=ABCD2345&tls=1&fp=AB12...
+ */
+export function parsePairingLink(text: string): PairingLink | null {
+  const match = PAIRING_LINK_RE.exec(text.trim());
+  if (!match) return null;
+
+  const params: Record<string, string> = {};
+  for (const pair of match[1].split('&')) {
+    const [key, value = ''] = pair.split('=');
+    params[key] = decodeURIComponent(value);
+  }
+
+  if (!params.host || !params.code) return null;
+  const hostPort = params.port ? `${params.host}:${params.port}` : params.host;
+  const tls = params.tls === '1';
+  return {
+    daemonHost: tls ? `https://${hostPort}` : hostPort,
+    code: params.code,
+    fingerprint: tls && params.fp ? normalizeFingerprint(params.fp) : null,
+  };
+}
+
+/** Strip separators so fingerprints compare regardless of formatting. */
+export function normalizeFingerprint(fingerprint: string): string {
+  return fingerprint.replace(/:/g, '').toUpperCase();
+}
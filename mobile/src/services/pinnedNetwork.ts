@@ -0,0 +1,170 @@
+import { NativeEventEmitter, NativeModules } from 'react-native';
+
+/**
+ * JS side of the PinnedNetwork native module (URLSession on iOS, OkHttp on
+ * Android): HTTP, SSE and WebSocket connections that accept only the server
+ * certificate whose SHA-256 fingerprint was pinned at pairing. The check
+ * happens in the TLS handshake, before a byte of the request is sent.
+ *
+ * Failures reject (or report) with a `code`: CERT_MISMATCH when the server
+ * presented a different certificate, TIMEOUT, or NETWORK_ERROR.
+ */
+
+interface PinnedNetworkModule {
+  fingerprint(url: string): Promise<string>;
+  request(
+    url: string,
+    method: string,
+    headers: Record<string, string>,
+    body: string | null,
+    pin: string,
+    timeoutMs: number,
+  ): Promise<{ status: number; body: string }>;
+  openStream(id: string, url: string, headers: Record<string, string>, pin: string): void;
+  closeStream(id: string): void;
+  openSocket(id: string, url: string, pin: string): void;
+  sendSocket(id: string, text: string | null, base64: string | null): void;
+  closeSocket(id: string, code: number, reason: string): void;
+}
+
+interface StreamEvent {
+  id: string;
+  data?: string;
+  done?: boolean;
+  code?: string;
+  error?: string;
+}
+
+export interface SocketEvent {
+  id: string;
+  type: 'open' | 'message' | 'error' | 'close';
+  /** Text frame. */
+  text?: string;
+  /** Binary frame, base64-encoded. */
+  base64?: string;
+  /** Close code, or the error code for 'error'. */
+  code?: number | string;
+  reason?: string;
+  message?: string;
+}
+
+const native = NativeModules.PinnedNetwork as PinnedNetworkModule | undefined;
+let emitter: NativeEventEmitter | null = null;
+let nextId = 0;
+
+function nativeModule(): PinnedNetworkModule {
+  if (!native) throw new Error('PinnedNetwork native module is not linked');
+  return native;
+}
+
+function events(): NativeEventEmitter {
+  emitter ??= new NativeEventEmitter(NativeModules.PinnedNetwork);
+  return emitter;
+}
+
+/** Error with the native module's code, e.g. CERT_MISMATCH. */
+export class PinnedNetworkError extends Error {
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.code = code;
+    this.name = 'PinnedNetworkError';
+  }
+}
+
+function toPinnedError(err: unknown): PinnedNetworkError {
+  const code = (err as { code?: unknown })?.code;
+  return new PinnedNetworkError(
+    typeof code === 'string' ? code : 'NETWORK_ERROR',
+    err instanceof Error ? err.message : 'Network request failed',
+  );
+}
+
+/** Normalized SHA-256 fingerprint of the certificate the TLS server at `url` presents. */
+export async function certificateFingerprint(url: string): Promise<string> {
+  try {
+    return await nativeModule().fingerprint(url);
+  } catch (err) {
+    throw toPinnedError(err);
+  }
+}
+
+/** One HTTP request, refused unless the server's certificate matches `pin`. */
+export async function pinnedRequest(
+  url: string,
+  pin: string,
+  options: { method: string; headers: Record<string, string>; body?: string; timeoutMs: number },
+): Promise<{ status: number; body: string }> {
+  try {
+    return await nativeModule().request(
+      url,
+      options.method,
+      options.headers,
+      options.body ?? null,
+      pin,
+      options.timeoutMs,
+    );
+  } catch (err) {
+    throw toPinnedError(err);
+  }
+}
+
+/**
+ * A streaming GET (for SSE). onText gets the body in chunks of whole lines;
+ * onEnd runs once, with an error unless it was closed from this side.
+ * Returns a function that closes it.
+ */
+export function pinnedStream(
+  url: string,
+  pin: string,
+  headers: Record<string, string>,
+  onText: (text: string) => void,
+  onEnd: (err: PinnedNetworkError | null) => void,
+): () => void {
+  const id = `stream-${++nextId}`;
+  let closed = false;
+  const sub = events().addListener('PinnedNetworkStream', (event: StreamEvent) => {
+    if (event.id !== id) return;
+    if (event.data !== undefined) onText(event.data);
+    if (!event.done) return;
+    sub.remove();
+    if (!closed) {
+      onEnd(event.code ? new PinnedNetworkError(event.code, event.error ?? event.code) : null);
+    }
+  });
+  nativeModule().openStream(id, url, headers, pin);
+  return () => {
+    closed = true;
+    sub.remove();
+    nativeModule().closeStream(id);
+  };
+}
+
+/** A WebSocket refused unless the server's certificate matches `pin`. */
+export class PinnedWebSocket {
+  private id = `socket-${++nextId}`;
+  private sub: { remove(): void };
+
+  constructor(url: string, pin: string, onEvent: (event: SocketEvent) => void) {
+    this.sub = events().addListener('PinnedNetworkSocket', (event: SocketEvent) => {
+      if (event.id !== this.id) return;
+      if (event.type === 'close') this.sub.remove();
+      onEvent(event);
+    });
+    nativeModule().openSocket(this.id, url, pin);
+  }
+
+  /** Send a text frame, or a binary one given as base64. */
+  send(frame: { text: string } | { base64: string }): void {
+    nativeModule().sendSocket(
+      this.id,
+      'text' in frame ? frame.text : null,
+      'base64' in frame ? frame.base64 : null,
+    );
+  }
+
+  close(code = 1000, reason = ''): void {
+    nativeModule().closeSocket(this.id, code, reason);
+  }
+}
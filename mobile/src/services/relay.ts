@@ -1,87 +1,108 @@
-import type { Session, AttachResult, DaemonStatus, ApiError, DirectoryEntry, NewSessionResult } from '../types/session';
+import { PinnedNetworkError, pinnedRequest, pinnedStream } from './pinnedNetwork';
+import type { Session, AttachMode, AttachResult, DaemonStatus, ApiError, DirectoryEntry, NewSessionResult, Device, DeviceRegistration, TranscriptPage, PermissionDecision, UsageReport } from '../types/session';
 
 export class RelayClient {
   private baseUrl: string;
   private psk: string;
+  /** Pinned certificate fingerprint; when set, every connection goes through PinnedNetwork. */
+  readonly certFingerprint: string | null;
+  // Session list as of the last SSE event seen, for resuming the stream
+  private sessionStream: { lastEventId: string | null; sessions: Map<string, Session> } = {
+    lastEventId: null,
+    sessions: new Map(),
+  };
 
-  constructor(daemonHost: string, psk: string) {
-    this.baseUrl = `http://${daemonHost}`;
+  /**
+   * daemonHost is host:port, optionally prefixed with http:// or https://
+   * (defaults to http). With a pinned certificate the daemon is only ever
+   * reached over https, whatever daemonHost says.
+   */
+  constructor(daemonHost: string, psk: string, certFingerprint: string | null = null) {
+    this.baseUrl = /^https?:\/\//.test(daemonHost)
+      ? daemonHost.replace(/\/+$/, '')
+      : `http://${daemonHost}`;
+    if (certFingerprint) this.baseUrl = this.baseUrl.replace(/^http:/, 'https:');
     this.psk = psk;
+    this.certFingerprint = certFingerprint;
   }
 
-  private async fetch<T>(path: string, options: RequestInit = {}, timeoutMs = 15000): Promise<T> {
+  /** One HTTP round trip, pinned if there's a certificate to pin. Throws RelayError on network failure. */
+  private async request(
+    path: string,
+    options: { method?: 'GET' | 'POST'; body?: string; auth?: boolean },
+    timeoutMs: number,
+  ): Promise<{ status: number; body: string }> {
     const url = `${this.baseUrl}${path}`;
-    const headers: Record<string, string> = {
-      Authorization: `Bearer ${this.psk}`,
-      Accept: 'application/json',
-    };
-    if (options.method === 'POST') {
-      headers['Content-Type'] = 'application/json';
+    const method = options.method ?? 'GET';
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (options.auth !== false) headers.Authorization = `Bearer ${this.psk}`;
+    if (method === 'POST') headers['Content-Type'] = 'application/json';
+
+    if (this.certFingerprint) {
+      try {
+        return await pinnedRequest(url, this.certFingerprint, {
+          method,
+          headers,
+          body: options.body,
+          timeoutMs,
+        });
+      } catch (err) {
+        throw toRelayError(err, timeoutMs);
+      }
     }
 
     const controller = new AbortController();
     const timer = setTimeout(() => controller.abort(), timeoutMs);
-
-    let res: Response;
     try {
-      res = await fetch(url, {
-        ...options,
-        headers: { ...headers, ...(options.headers as Record<string, string>) },
-        signal: controller.signal,
-      });
+      const res = await fetch(url, { method, headers, body: options.body, signal: controller.signal });
+      return { status: res.status, body: await res.text() };
     } catch (err) {
+      throw toRelayError(err, timeoutMs);
+    } finally {
       clearTimeout(timer);
-      if (err instanceof Error && err.name === 'AbortError') {
-        throw new RelayError(0, 'TIMEOUT', `Request timed out after ${timeoutMs}ms`, 'Check your connection');
-      }
-      throw new RelayError(0, 'NETWORK_ERROR', 'Network request failed', 'Check your network connection');
     }
-    clearTimeout(timer);
+  }
 
-    if (!res.ok) {
-      const text = await res.text().catch(() => '');
-      console.warn(`[relay] ${options.method ?? 'GET'} ${path} → ${res.status}: ${text}`);
+  private async fetch<T>(
+    path: string,
+    options: { method?: 'GET' | 'POST'; body?: string } = {},
+    timeoutMs = 15000,
+  ): Promise<T> {
+    const res = await this.request(path, options, timeoutMs);
+
+    if (res.status < 200 || res.status >= 300) {
+      console.warn(`[relay] ${options.method ?? 'GET'} ${path} → ${res.status}: ${res.body}`);
       let body: ApiError | null = null;
-      try { body = JSON.parse(text); } catch {}
+      try { body = JSON.parse(res.body); } catch {}
       throw new RelayError(
         res.status,
         body?.error ?? 'UNKNOWN',
-        body?.message ?? `HTTP ${res.status}: ${text.slice(0, 200)}`,
+        body?.message ?? `HTTP ${res.status}: ${res.body.slice(0, 200)}`,
         body?.action ?? 'Try again',
       );
     }
 
-    return res.json() as Promise<T>;
+    return JSON.parse(res.body) as T;
   }
 
   /** Check if the daemon is reachable (no auth required). */
   async ping(timeoutMs = 3000): Promise<boolean> {
     try {
-      const controller = new AbortController();
-      const timer = setTimeout(() => controller.abort(), timeoutMs);
-      const res = await fetch(`${this.baseUrl}/api/status`, {
-        signal: controller.signal,
-      });
-      clearTimeout(timer);
-      return res.ok;
+      const res = await this.request('/api/status', { auth: false }, timeoutMs);
+      return res.status >= 200 && res.status < 300;
     } catch {
       return false;
     }
   }
 
-  /** Get daemon status (no auth required). */
+  /**
+   * Get daemon status (no auth required). Throws a RelayError with code
+   * CERT_MISMATCH if the daemon's certificate isn't the pinned one.
+   */
   async getStatus(timeoutMs = 5000): Promise<DaemonStatus> {
-    const controller = new AbortController();
-    const timer = setTimeout(() => controller.abort(), timeoutMs);
-    try {
-      const res = await fetch(`${this.baseUrl}/api/status`, {
-        signal: controller.signal,
-      });
-      if (!res.ok) throw new Error(`Status check failed: ${res.status}`);
-      return res.json() as Promise<DaemonStatus>;
-    } finally {
-      clearTimeout(timer);
-    }
+    const res = await this.request('/api/status', { auth: false }, timeoutMs);
+    if (res.status < 200 || res.status >= 300) throw new Error(`Status check failed: ${res.status}`);
+    return JSON.parse(res.body) as DaemonStatus;
   }
 
   /** List all sessions, sorted by recency. */
@@ -94,10 +115,51 @@ export class RelayClient {
     return this.fetch<Session>(`/api/sessions/${id}`);
   }
 
-  /** Attach to a session — creates tmux if needed, returns WS URL + token. */
-  async attach(sessionId: string): Promise<AttachResult> {
+  /**
+   * Attach to a session — creates tmux if needed, returns WS URL + token.
+   * 'observe' joins the running terminal view-only, alongside whoever controls it.
+   * takeover evicts the current controller instead of failing with SESSION_ATTACHED.
+   */
+  async attach(
+    sessionId: string,
+    mode: AttachMode = 'control',
+    takeover = false,
+  ): Promise<AttachResult> {
     return this.fetch<AttachResult>(`/api/sessions/${sessionId}/attach`, {
       method: 'POST',
+      body: JSON.stringify({ mode, takeover }),
+    });
+  }
+
+  /** A page of the session's conversation, ending before byte offset `before` (default: the latest). */
+  async getTranscript(sessionId: string, before?: number, limit = 50): Promise<TranscriptPage> {
+    const cursor = before !== undefined ? `&before=${before}` : '';
+    return this.fetch<TranscriptPage>(
+      `/api/sessions/${sessionId}/transcript?limit=${limit}${cursor}`,
+    );
+  }
+
+  /**
+   * Type a message into the session and press Enter, without opening the
+   * terminal. Starts the session in tmux first if it isn't running.
+   */
+  async sendInput(sessionId: string, text: string): Promise<{ success: boolean; created: boolean }> {
+    return this.fetch<{ success: boolean; created: boolean }>(
+      `/api/sessions/${sessionId}/input`,
+      { method: 'POST', body: JSON.stringify({ text }) },
+      // A session that has to start first can take a while
+      30000,
+    );
+  }
+
+  /** Answer the tool permission prompt a session is blocked on (no terminal needed). */
+  async answerPermission(
+    sessionId: string,
+    decision: PermissionDecision,
+  ): Promise<{ success: boolean }> {
+    return this.fetch<{ success: boolean }>(`/api/sessions/${sessionId}/permission`, {
+      method: 'POST',
+      body: JSON.stringify({ decision }),
     });
   }
 
@@ -106,6 +168,11 @@ export class RelayClient {
     return this.fetch<DirectoryEntry[]>('/api/directories');
   }
 
+  /** Token usage and estimated cost for the last `days` days, by day and project. */
+  async getUsage(days: number): Promise<UsageReport> {
+    return this.fetch<UsageReport>(`/api/usage?days=${days}`);
+  }
+
   /** Create a new Claude session in a directory. */
   async createNewSession(projectPath: string): Promise<NewSessionResult> {
     return this.fetch<NewSessionResult>('/api/sessions/new', {
@@ -128,56 +195,134 @@ export class RelayClient {
     });
   }
 
-  /** Build the WebSocket URL for a terminal connection. */
-  terminalWsUrl(sessionId: string, attachToken: string, cols: number, rows: number): string {
+  /** Register this device (requires the PSK). Returns a per-device credential. */
+  async registerDevice(name: string): Promise<DeviceRegistration> {
+    return this.fetch<DeviceRegistration>('/api/devices', {
+      method: 'POST',
+      body: JSON.stringify({ name }),
+    });
+  }
+
+  /** Exchange a one-time pairing code for a device credential (no auth required). */
+  async exchangePairingCode(code: string, name: string): Promise<DeviceRegistration> {
+    return this.fetch<DeviceRegistration>('/api/pairing/exchange', {
+      method: 'POST',
+      body: JSON.stringify({ code, name }),
+    });
+  }
+
+  /** List paired devices. */
+  async getDevices(): Promise<Device[]> {
+    return this.fetch<Device[]>('/api/devices');
+  }
+
+  /** Revoke a paired device's credential. */
+  async revokeDevice(deviceId: string): Promise<{ success: boolean }> {
+    return this.fetch<{ success: boolean }>(`/api/devices/${deviceId}/revoke`, {
+      method: 'POST',
+    });
+  }
+
+  /**
+   * Build the WebSocket URL for a terminal connection (framed protocol v2).
+   * scrollback asks the daemon to replay that many lines of pane history
+   * (its default if omitted).
+   */
+  terminalWsUrl(
+    sessionId: string,
+    attachToken: string,
+    cols: number,
+    rows: number,
+    scrollback?: number,
+  ): string {
     const wsBase = this.baseUrl.replace(/^http/, 'ws');
-    return `${wsBase}/terminal/${sessionId}?token=${encodeURIComponent(attachToken)}&cols=${cols}&rows=${rows}`;
+    const replay = scrollback !== undefined ? `&scrollback=${scrollback}` : '';
+    return `${wsBase}/terminal/${sessionId}?token=${encodeURIComponent(attachToken)}&cols=${cols}&rows=${rows}&proto=2${replay}`;
   }
 
-  /** Subscribe to real-time session updates via SSE. Returns an abort function. */
+  /**
+   * Subscribe to real-time session updates via SSE. Returns an abort function.
+   *
+   * The daemon sends a full snapshot, then per-session deltas; onSessions gets
+   * the merged list (newest first) after each chunk that changed it. The list
+   * and last event ID outlive the subscription, so subscribing again resumes
+   * with just the changes missed in between.
+   */
   subscribeToSessions(
     onSessions: (sessions: Session[]) => void,
     onError?: (err: Error) => void,
   ): () => void {
     const url = `${this.baseUrl}/api/sessions/stream`;
+    const stream = this.sessionStream;
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${this.psk}`,
+      Accept: 'text/event-stream',
+    };
+    if (stream.lastEventId) {
+      headers['Last-Event-ID'] = stream.lastEventId;
+    }
+    let buffer = '';
+
+    // Parse complete SSE frames; keep a trailing partial one for the next chunk
+    const onText = (text: string) => {
+      buffer += text;
+      const frames = buffer.split('\n\n');
+      buffer = frames.pop() ?? '';
+      let changed = false;
+
+      for (const frame of frames) {
+        let id = '';
+        let eventType = '';
+        const data: string[] = [];
+
+        for (const line of frame.split('\n')) {
+          if (line.startsWith('id: ')) {
+            id = line.slice(4);
+          } else if (line.startsWith('event: ')) {
+            eventType = line.slice(7);
+          } else if (line.startsWith('data: ')) {
+            data.push(line.slice(6));
+          }
+        }
+        if (!eventType || data.length === 0) continue;
+
+        try {
+          applySessionEvent(stream.sessions, eventType, JSON.parse(data.join('\n')));
+          changed = true;
+          if (id) stream.lastEventId = id;
+        } catch {
+          // Skip malformed data
+        }
+      }
+
+      if (changed) {
+        onSessions(
+          Array.from(stream.sessions.values()).sort((a, b) =>
+            b.timestamp.localeCompare(a.timestamp),
+          ),
+        );
+      }
+    };
+
+    if (this.certFingerprint) {
+      return pinnedStream(url, this.certFingerprint, headers, onText, err => {
+        onError?.(err ?? new Error('SSE connection closed'));
+      });
+    }
+
     const xhr = new XMLHttpRequest();
     let lastIndex = 0;
 
     xhr.open('GET', url, true);
-    xhr.setRequestHeader('Authorization', `Bearer ${this.psk}`);
-    xhr.setRequestHeader('Accept', 'text/event-stream');
+    for (const [name, value] of Object.entries(headers)) {
+      xhr.setRequestHeader(name, value);
+    }
 
     xhr.onreadystatechange = () => {
       // readyState 3 = LOADING (streaming data)
       if (xhr.readyState >= 3 && xhr.responseText) {
-        const newData = xhr.responseText.substring(lastIndex);
+        onText(xhr.responseText.substring(lastIndex));
         lastIndex = xhr.responseText.length;
-
-        // Parse SSE frames from the new chunk
-        const frames = newData.split('\n\n');
-        for (const frame of frames) {
-          if (!frame.trim()) continue;
-
-          let eventType = '';
-          let data = '';
-
-          for (const line of frame.split('\n')) {
-            if (line.startsWith('event: ')) {
-              eventType = line.slice(7);
-            } else if (line.startsWith('data: ')) {
-              data = line.slice(6);
-            }
-          }
-
-          if (eventType === 'sessions' && data) {
-            try {
-              const sessions = JSON.parse(data) as Session[];
-              onSessions(sessions);
-            } catch {
-              // Skip malformed data
-            }
-          }
-        }
       }
     };
 
@@ -193,6 +338,44 @@ export class RelayClient {
   }
 }
 
+/** Apply one session stream event to the list, keyed by session ID. */
+function applySessionEvent(sessions: Map<string, Session>, event: string, data: unknown): void {
+  switch (event) {
+    case 'sessions':
+      sessions.clear();
+      for (const session of data as Session[]) sessions.set(session.id, session);
+      break;
+    case 'session-added':
+    case 'session-updated': {
+      const session = data as Session;
+      sessions.set(session.id, session);
+      break;
+    }
+    case 'session-removed':
+      sessions.delete((data as { id: string }).id);
+      break;
+    default:
+      throw new Error(`Unknown session event: ${event}`);
+  }
+}
+
+/** A transport failure as a RelayError, keeping CERT_MISMATCH distinct so the UI can say so. */
+function toRelayError(err: unknown, timeoutMs: number): RelayError {
+  const code = err instanceof PinnedNetworkError ? err.code : null;
+  if (code === 'CERT_MISMATCH') {
+    return new RelayError(
+      0,
+      'CERT_MISMATCH',
+      'The daemon presented a different TLS certificate than the one this device paired with',
+      'Pair again if the certificate was regenerated on purpose',
+    );
+  }
+  if (code === 'TIMEOUT' || (err instanceof Error && err.name === 'AbortError')) {
+    return new RelayError(0, 'TIMEOUT', `Request timed out after ${timeoutMs}ms`, 'Check your connection');
+  }
+  return new RelayError(0, 'NETWORK_ERROR', 'Network request failed', 'Check your network connection');
+}
+
 export class RelayError extends Error {
   status: number;
   code: string;
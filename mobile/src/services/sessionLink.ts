@@ -0,0 +1,11 @@
+const SESSION_LINK_RE = /^claude-conduit:\/\/session\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/;
+
+/**
+ * Parse the session link a push notification opens, e.g.
+ * claude-conduit://session/0d8a6f3e-5b1c-4e2a-9f7d-3c2b1a0e9d8c
+ * Returns the session ID.
+ */
+export function parseSessionLink(text: string): string | null {
+  const match = SESSION_LINK_RE.exec(text.trim());
+  return match ? match[1] : null;
+}
@@ -4,6 +4,8 @@ import type { Session } from '../types/session';
 
 const KEYCHAIN_SERVICE = 'com.somniatore.claude-conduit';
 const SESSIONS_CACHE_KEY = '@claude-conduit/sessions-cache';
+const CERT_FINGERPRINT_KEY = '@claude-conduit/cert-fingerprint';
+const MUTED_PROJECTS_KEY = '@claude-conduit/muted-projects';
 
 interface StoredConfig {
   daemonHost: string;
@@ -38,6 +40,21 @@ export async function hasConfig(): Promise<boolean> {
 /** Clear stored config. */
 export async function clearConfig(): Promise<void> {
   await Keychain.resetGenericPassword({ service: KEYCHAIN_SERVICE });
+  await AsyncStorage.removeItem(CERT_FINGERPRINT_KEY);
+}
+
+/** Save the pinned TLS certificate fingerprint (null clears the pin). */
+export async function saveCertFingerprint(fingerprint: string | null): Promise<void> {
+  if (fingerprint) {
+    await AsyncStorage.setItem(CERT_FINGERPRINT_KEY, fingerprint);
+  } else {
+    await AsyncStorage.removeItem(CERT_FINGERPRINT_KEY);
+  }
+}
+
+/** Load the pinned TLS certificate fingerprint, if any. */
+export async function loadCertFingerprint(): Promise<string | null> {
+  return AsyncStorage.getItem(CERT_FINGERPRINT_KEY);
 }
 
 /** Save sessions to AsyncStorage for instant cold-start display. */
@@ -55,3 +72,19 @@ export async function loadSessionsCache(): Promise<Session[]> {
     return [];
   }
 }
+
+/** Save the projects (by path) whose sessions shouldn't raise notifications. */
+export async function saveMutedProjects(projects: string[]): Promise<void> {
+  await AsyncStorage.setItem(MUTED_PROJECTS_KEY, JSON.stringify(projects));
+}
+
+/** Load muted projects. Returns empty array if none are muted. */
+export async function loadMutedProjects(): Promise<string[]> {
+  const raw = await AsyncStorage.getItem(MUTED_PROJECTS_KEY);
+  if (!raw) return [];
+  try {
+    return JSON.parse(raw) as string[];
+  } catch {
+    return [];
+  }
+}
@@ -1,7 +1,8 @@
 import { create } from 'zustand';
-import { RelayClient } from '../services/relay';
+import { RelayClient, RelayError } from '../services/relay';
 import type { DaemonStatus } from '../types/session';
-import { loadConfig, saveConfig } from '../services/storage';
+import { loadConfig, saveConfig, loadCertFingerprint, saveCertFingerprint } from '../services/storage';
+import { normalizeFingerprint } from '../services/pairing';
 import NetInfo from '@react-native-community/netinfo';
 
 const BACKOFF_SCHEDULE = [5000, 10000, 20000, 30000]; // ms
@@ -12,16 +13,19 @@ interface ConnectionState {
   isConfigured: boolean;
   isChecking: boolean;
   status: DaemonStatus | null;
+  /** The daemon presented a different TLS certificate than the pinned one. */
+  certMismatch: boolean;
 
   // Config
   daemonHost: string;
   psk: string;
+  certFingerprint: string | null;
   client: RelayClient | null;
 
   // Actions
   initialize: () => Promise<void>;
   checkConnection: () => Promise<boolean>;
-  configure: (host: string, psk: string) => Promise<void>;
+  configure: (host: string, psk: string, certFingerprint?: string | null) => Promise<void>;
   reset: () => void;
   startAutoReconnect: () => void;
   stopAutoReconnect: () => void;
@@ -36,17 +40,21 @@ export const useConnectionStore = create<ConnectionState>((set, get) => ({
   isConfigured: false,
   isChecking: false,
   status: null,
+  certMismatch: false,
   daemonHost: '',
   psk: '',
+  certFingerprint: null,
   client: null,
 
   initialize: async () => {
     const config = await loadConfig();
     if (config) {
-      const client = new RelayClient(config.daemonHost, config.psk);
+      const certFingerprint = await loadCertFingerprint();
+      const client = new RelayClient(config.daemonHost, config.psk, certFingerprint);
       set({
         daemonHost: config.daemonHost,
         psk: config.psk,
+        certFingerprint,
         client,
         isConfigured: true,
       });
@@ -64,28 +72,29 @@ export const useConnectionStore = create<ConnectionState>((set, get) => ({
 
     set({ isChecking: true });
     try {
-      const reachable = await client.ping(3000);
-      if (reachable) {
-        const status = await client.getStatus();
-        set({ isReachable: true, status, isChecking: false });
-        // Reset backoff on successful connection
-        reconnectAttempt = 0;
-        return true;
-      }
-      set({ isReachable: false, status: null, isChecking: false });
-      return false;
-    } catch {
-      set({ isReachable: false, status: null, isChecking: false });
+      const status = await client.getStatus(3000);
+      set({ isReachable: true, status, certMismatch: false, isChecking: false });
+      // Reset backoff on successful connection
+      reconnectAttempt = 0;
+      return true;
+    } catch (err) {
+      // A pinned client refuses any other certificate during the handshake
+      // (e.g. a different machine now on the same address)
+      const certMismatch = err instanceof RelayError && err.code === 'CERT_MISMATCH';
+      set({ isReachable: false, status: null, certMismatch, isChecking: false });
       return false;
     }
   },
 
-  configure: async (host: string, psk: string) => {
+  configure: async (host: string, psk: string, certFingerprint: string | null = null) => {
+    const pinned = certFingerprint ? normalizeFingerprint(certFingerprint) : null;
     await saveConfig({ daemonHost: host, psk });
-    const client = new RelayClient(host, psk);
+    await saveCertFingerprint(pinned);
+    const client = new RelayClient(host, psk, pinned);
     set({
       daemonHost: host,
       psk,
+      certFingerprint: pinned,
       client,
       isConfigured: true,
     });
@@ -98,8 +107,10 @@ export const useConnectionStore = create<ConnectionState>((set, get) => ({
       isConfigured: false,
       isChecking: false,
       status: null,
+      certMismatch: false,
       daemonHost: '',
       psk: '',
+      certFingerprint: null,
       client: null,
     });
   },
@@ -1,9 +1,44 @@
 import { create } from 'zustand';
 import type { Session, AttachResult } from '../types/session';
 import { useConnectionStore } from './connection';
-import { saveSessionsCache, loadSessionsCache } from '../services/storage';
+import {
+  saveSessionsCache,
+  loadSessionsCache,
+  saveMutedProjects,
+  loadMutedProjects,
+} from '../services/storage';
+import type { SessionAlert } from '../services/notifications';
 
 let sseUnsubscribe: (() => void) | null = null;
+// Last snapshot from the session stream — alerts come from diffing against it. Kept
+// across stopSSE/startSSE so the resumed stream alerts on what changed meanwhile.
+let lastStreamed: Session[] | null = null;
+
+/** Mute key for a session's project. */
+export function projectKey(session: Session): string {
+  return session.projectPath || session.projectName;
+}
+
+/** Sessions that finished a turn or hit a permission prompt between two snapshots. */
+function detectAlerts(previous: Session[], next: Session[], muted: string[]): SessionAlert[] {
+  const before = new Map(previous.map(s => [s.id, s.claudeState]));
+  const alerts: SessionAlert[] = [];
+  for (const session of next) {
+    const was = before.get(session.id);
+    if (was === undefined || was === session.claudeState) continue;
+    if (muted.includes(projectKey(session))) continue;
+
+    if (session.claudeState === 'needs_permission') {
+      alerts.push({ kind: 'needs_permission', session });
+    } else if (
+      session.claudeState === 'waiting' &&
+      (was === 'thinking' || was === 'needs_permission')
+    ) {
+      alerts.push({ kind: 'waiting', session });
+    }
+  }
+  return alerts;
+}
 
 interface SessionsState {
   sessions: Session[];
@@ -11,12 +46,19 @@ interface SessionsState {
   isCached: boolean;
   isStreaming: boolean;
   error: string | null;
+  /** Latest alert, shown as an in-app banner while the app is open. */
+  alert: SessionAlert | null;
+  /** Projects (see projectKey) that don't raise alerts. */
+  mutedProjects: string[];
 
   // Actions
   fetchSessions: () => Promise<void>;
   attachSession: (sessionId: string) => Promise<AttachResult>;
   startSSE: () => void;
   stopSSE: () => void;
+  dismissAlert: () => void;
+  loadMutedProjects: () => Promise<void>;
+  toggleProjectMute: (project: string) => void;
 }
 
 export const useSessionsStore = create<SessionsState>((set, get) => ({
@@ -25,6 +67,8 @@ export const useSessionsStore = create<SessionsState>((set, get) => ({
   isCached: false,
   isStreaming: false,
   error: null,
+  alert: null,
+  mutedProjects: [],
 
   fetchSessions: async () => {
     const { client } = useConnectionStore.getState();
@@ -72,7 +116,12 @@ export const useSessionsStore = create<SessionsState>((set, get) => ({
 
     sseUnsubscribe = client.subscribeToSessions(
       (sessions) => {
+        // Only the very first snapshot sets the baseline
+        const alerts = lastStreamed ? detectAlerts(lastStreamed, sessions, get().mutedProjects) : [];
+        lastStreamed = sessions;
         set({ sessions, isCached: false, isStreaming: true, error: null });
+
+        if (alerts.length > 0) set({ alert: alerts[alerts.length - 1] });
         // Save to cache in background
         saveSessionsCache(sessions).catch(() => {});
       },
@@ -92,4 +141,23 @@ export const useSessionsStore = create<SessionsState>((set, get) => ({
     }
     set({ isStreaming: false });
   },
+
+  dismissAlert: () => set({ alert: null }),
+
+  loadMutedProjects: async () => {
+    try {
+      set({ mutedProjects: await loadMutedProjects() });
+    } catch {
+      // Nothing muted
+    }
+  },
+
+  toggleProjectMute: (project: string) => {
+    const muted = get().mutedProjects;
+    const mutedProjects = muted.includes(project)
+      ? muted.filter(p => p !== project)
+      : [...muted, project];
+    set({ mutedProjects });
+    saveMutedProjects(mutedProjects).catch(() => {});
+  },
 }));
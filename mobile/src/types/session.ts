@@ -1,4 +1,11 @@
-export type ClaudeState = 'waiting' | 'thinking' | 'idle' | 'unknown';
+export type ClaudeState = 'waiting' | 'thinking' | 'needs_permission' | 'idle' | 'unknown';
+
+/** A tool call Claude is waiting for the user to allow. */
+export interface PendingTool {
+  id: string;
+  name: string;
+  input: unknown;
+}
 
 export interface Session {
   id: string;
@@ -10,9 +17,59 @@ export interface Session {
   cliVersion: string;
   tmuxStatus: 'active' | 'detached' | 'none';
   hasActiveConnection?: boolean;
+  /** Devices watching the terminal view-only. */
+  observerCount?: number;
   claudeState?: ClaudeState;
+  /** Set when claudeState is 'needs_permission'. */
+  pendingTool?: PendingTool | null;
+  /** Tokens used so far and their estimated cost. */
+  usage?: SessionUsage;
+}
+
+export interface TokenUsage {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+export interface UsageTotals {
+  tokens: TokenUsage;
+  /** Estimated USD; null if some tokens came from a model the daemon has no price for. */
+  costUsd: number | null;
+}
+
+export interface SessionUsage extends UsageTotals {
+  /** Model of the latest response. */
+  model: string;
+}
+
+export interface DayUsage extends UsageTotals {
+  day: string; // YYYY-MM-DD, daemon's local time
+}
+
+export interface ProjectUsage extends UsageTotals {
+  projectPath: string;
+  projectName: string;
+  sessionCount: number;
+  days: DayUsage[];
 }
 
+/** Usage over a range of days, from GET /api/usage. */
+export interface UsageReport {
+  from: string;
+  to: string;
+  total: UsageTotals;
+  /** Every day in the range, oldest first. */
+  days: DayUsage[];
+  /** Costliest first. */
+  projects: ProjectUsage[];
+  unpricedModels: string[];
+}
+
+/** How to answer a tool permission prompt. */
+export type PermissionDecision = 'approve' | 'approve-always' | 'deny';
+
 export interface Project {
   projectPath: string;
   projectName: string;
@@ -20,10 +77,13 @@ export interface Project {
   latestTimestamp: string;
 }
 
+export type AttachMode = 'control' | 'observe';
+
 export interface AttachResult {
   wsUrl: string;
   tmuxSession: string;
   existed: boolean;
+  mode?: AttachMode;
   attachToken: string;
 }
 
@@ -37,6 +97,17 @@ export interface DaemonStatus {
     attached: boolean;
     created: string;
   }>;
+  tls?: {
+    enabled: boolean;
+    /** SHA-256 fingerprint of the daemon's certificate, colon-separated hex. */
+    fingerprint: string | null;
+  };
+  /** Failed-auth lockouts (per IP) — nonzero means someone is guessing credentials. */
+  authLockouts?: {
+    active: number;
+    last24h: number;
+    lastLockoutAt: string | null;
+  };
   uptime: number;
 }
 
@@ -54,6 +125,48 @@ export interface NewSessionResult {
   attachToken: string;
 }
 
+export interface Device {
+  id: string;
+  name: string;
+  createdAt: string;
+  lastSeenAt: string | null;
+  lastSeenIp: string | null;
+  current?: boolean;
+}
+
+export interface DeviceRegistration {
+  device: Device;
+  credential: string;
+}
+
+export type TranscriptBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | {
+      type: 'tool_result';
+      toolUseId: string;
+      content: string;
+      isError: boolean;
+      /** content was cut short by the daemon. */
+      truncated: boolean;
+    };
+
+export interface TranscriptMessage {
+  uuid: string;
+  messageId: string;
+  role: 'user' | 'assistant';
+  timestamp: string;
+  blocks: TranscriptBlock[];
+}
+
+export interface TranscriptPage {
+  /** Oldest first. */
+  messages: TranscriptMessage[];
+  /** Pass as `before` for the previous page; null at the start of the session. */
+  cursor: number | null;
+  end: number;
+}
+
 export interface ApiError {
   error: string;
   message: string;